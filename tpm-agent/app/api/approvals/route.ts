@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { getApprovalModes, setApprovalMode } from "@/lib/approval-policy-store";
+import { isApprovalMode } from "@/lib/approvals";
+
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await getApprovalModes(token.sub));
+  } catch (error) {
+    logger.error('Failed to load approval policies:', error);
+    return NextResponse.json({ error: "Failed to load approval policies" }, { status: 500 });
+  }
+}
+
+// Sets the tool approval policy of a repository: { repository, mode }
+export async function PUT(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { repository, mode }: { repository?: unknown; mode?: unknown } = await request.json().catch(() => ({}));
+  if (typeof repository !== 'string' || !REPOSITORY_PATTERN.test(repository)) {
+    return NextResponse.json({ error: "repository must be owner/name" }, { status: 400 });
+  }
+  if (!isApprovalMode(mode)) {
+    return NextResponse.json({ error: "mode must be ask-all, read-only or auto-all" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await setApprovalMode(token.sub, repository, mode));
+  } catch (error) {
+    logger.error('Failed to save approval policy:', error);
+    return NextResponse.json({ error: "Failed to save approval policy" }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { saveAttachment } from "@/lib/attachment-store";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_BYTES,
+  MAX_MESSAGE_ATTACHMENT_CHARACTERS,
+  attachmentKind,
+  formatBytes,
+} from "@/lib/attachments";
+
+// Room for the multipart boundary and part headers around the file
+const MAX_UPLOAD_BYTES = MAX_ATTACHMENT_BYTES + 64 * 1024;
+
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Checked before parsing the form, which buffers the whole upload in memory
+  const length = Number(request.headers.get("content-length"));
+  if (!length) {
+    return NextResponse.json({ error: "Content-Length is required" }, { status: 411 });
+  }
+  if (length > MAX_UPLOAD_BYTES) {
+    return NextResponse.json(
+      { error: `Attachments are limited to ${formatBytes(MAX_ATTACHMENT_BYTES)}` },
+      { status: 413 }
+    );
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "A file is required" }, { status: 400 });
+  }
+
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return NextResponse.json(
+      { error: `${file.name} is ${formatBytes(file.size)}; attachments are limited to ${formatBytes(MAX_ATTACHMENT_BYTES)}` },
+      { status: 413 }
+    );
+  }
+
+  // Room left in the message the file is attached to; a file that doesn't fit isn't stored
+  const room = form?.get("maxCharacters");
+  const maxCharacters = typeof room === "string" ? Number(room) : MAX_MESSAGE_ATTACHMENT_CHARACTERS;
+  if (!Number.isInteger(maxCharacters) || maxCharacters < 0) {
+    return NextResponse.json({ error: "maxCharacters must be a non-negative integer" }, { status: 400 });
+  }
+
+  const kind = attachmentKind(file.name);
+  if (!kind) {
+    return NextResponse.json(
+      { error: `Unsupported file type: ${file.name}. Supported types: ${ATTACHMENT_ACCEPT}` },
+      { status: 415 }
+    );
+  }
+
+  try {
+    const result = await saveAttachment(token.sub, {
+      name: file.name,
+      kind,
+      data: Buffer.from(await file.arrayBuffer()),
+    }, maxCharacters);
+    if (result.status === 'empty') {
+      return NextResponse.json({ error: `No text could be extracted from ${file.name}` }, { status: 422 });
+    }
+    if (result.status === 'too_long') {
+      return NextResponse.json(
+        { error: `${file.name} would take this message's attachments past ${MAX_MESSAGE_ATTACHMENT_CHARACTERS.toLocaleString()} characters; send it with another message` },
+        { status: 413 }
+      );
+    }
+    return NextResponse.json(result.attachment, { status: 201 });
+  } catch (error) {
+    logger.error(`Failed to read attachment ${file.name}:`, error);
+    return NextResponse.json({ error: `Failed to read ${file.name}` }, { status: 422 });
+  }
+}
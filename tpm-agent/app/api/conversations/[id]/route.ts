@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { deleteConversation, getConversation, updateConversation } from "@/lib/conversation-store";
+import type { ChatMessage, ConversationUpdate } from "@/lib/conversations";
+import { isRecord } from "@/lib/util";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Messages are stored as sent and read back into the chat, so at least their core fields must hold
+function isChatMessage(value: unknown): value is ChatMessage {
+  return isRecord(value) &&
+    typeof value.id === "string" &&
+    (value.role === "user" || value.role === "assistant") &&
+    typeof value.content === "string";
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const conversation = await getConversation(token.sub, id);
+  if (!conversation) {
+    return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+  }
+  return NextResponse.json(conversation);
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  let payload: ConversationUpdate;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  const { title, previousResponseId, repository, repositoryContextAt, programId, personaId, messages } = payload ?? {};
+
+  if (title !== undefined && typeof title !== "string") {
+    return NextResponse.json({ error: "title must be a string" }, { status: 400 });
+  }
+  if (previousResponseId !== undefined && previousResponseId !== null && typeof previousResponseId !== "string") {
+    return NextResponse.json({ error: "previousResponseId must be a string or null" }, { status: 400 });
+  }
+  if (messages !== undefined && (!Array.isArray(messages) || !messages.every(isChatMessage))) {
+    return NextResponse.json({ error: "messages must be an array of messages with an id, a role and text content" }, { status: 400 });
+  }
+
+  try {
+    const conversation = await updateConversation(token.sub, id, { title, previousResponseId, repository, repositoryContextAt, programId, personaId, messages });
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+    return NextResponse.json(conversation);
+  } catch (error) {
+    logger.error('Failed to update conversation:', error);
+    return NextResponse.json({ error: "Failed to update conversation" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const deleted = await deleteConversation(token.sub, id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
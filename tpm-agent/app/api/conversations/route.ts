@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { createConversation, listConversations } from "@/lib/conversation-store";
+import type { RepositorySummary } from "@/lib/conversations";
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await listConversations(token.sub));
+  } catch (error) {
+    logger.error('Failed to list conversations:', error);
+    return NextResponse.json({ error: "Failed to list conversations" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { title, repository }: { title?: string; repository?: RepositorySummary | null } =
+    await request.json().catch(() => ({}));
+
+  try {
+    const conversation = await createConversation(token.sub, { title, repository });
+    return NextResponse.json(conversation, { status: 201 });
+  } catch (error) {
+    logger.error('Failed to create conversation:', error);
+    return NextResponse.json({ error: "Failed to create conversation" }, { status: 500 });
+  }
+}
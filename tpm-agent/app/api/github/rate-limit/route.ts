@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { githubFailure, githubQuota } from "@/lib/github-client";
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await githubQuota(token.accessToken));
+  } catch (error) {
+    const { status, body } = githubFailure(error);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import type { TimelineEvent } from "@/lib/issue-detail";
+import { githubFailure, githubRequest } from "@/lib/github-client";
+
+type RouteContext = { params: Promise<{ number: string }> };
+
+// GitHub rejects longer comment bodies
+const MAX_COMMENT_LENGTH = 65536;
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { number } = await params;
+  const owner = request.nextUrl.searchParams.get("owner");
+  const repo = request.nextUrl.searchParams.get("repo");
+  if (!owner || !repo || !/^\d+$/.test(number)) {
+    return NextResponse.json({ error: "Missing owner, repo or issue number" }, { status: 400 });
+  }
+
+  let payload: { body?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  const { body } = payload ?? {};
+  if (typeof body !== "string" || !body.trim()) {
+    return NextResponse.json({ error: "Comment body is required" }, { status: 400 });
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json({ error: `Comments can be at most ${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+  }
+
+  try {
+    const { data: comment } = await githubRequest<Omit<TimelineEvent, "event">>(
+      token.accessToken,
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${number}/comments`,
+      { method: "POST", body: { body } }
+    );
+    // Shaped like the timeline's "commented" events so the pane can append it
+    const event: TimelineEvent = { ...comment, event: "commented", actor: comment.user };
+    return NextResponse.json(event, { status: 201 });
+  } catch (error) {
+    const failure = githubFailure(error);
+    return NextResponse.json(failure.body, { status: failure.status });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import type { Issue } from "@/lib/issues-client";
+import { type IssueDetail, type IssueUpdate, type TimelineEvent, TIMELINE_EVENTS } from "@/lib/issue-detail";
+import { githubFailure, githubGet, githubPaginate, githubRequest } from "@/lib/github-client";
+
+type RouteContext = { params: Promise<{ number: string }> };
+
+const STATE_REASONS = ["completed", "not_planned", "reopened"];
+
+// /repos/{owner}/{repo}/issues/{number}, or null when the request doesn't name a valid issue
+async function issuePath(request: NextRequest, params: RouteContext["params"]): Promise<string | null> {
+  const { number } = await params;
+  const owner = request.nextUrl.searchParams.get("owner");
+  const repo = request.nextUrl.searchParams.get("repo");
+  if (!owner || !repo || !/^\d+$/.test(number)) return null;
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${number}`;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const path = await issuePath(request, params);
+  if (!path) {
+    return NextResponse.json({ error: "Missing owner, repo or issue number" }, { status: 400 });
+  }
+
+  try {
+    const [issue, timeline] = await Promise.all([
+      githubGet<Issue>(token.accessToken, path),
+      githubPaginate<TimelineEvent>(token.accessToken, `${path}/timeline?per_page=100`),
+    ]);
+    const shown = new Set<string>(TIMELINE_EVENTS);
+    const detail: IssueDetail = { issue, timeline: timeline.filter(event => shown.has(event.event)) };
+    return NextResponse.json(detail);
+  } catch (error) {
+    const { status, body } = githubFailure(error);
+    return NextResponse.json(body, { status });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const path = await issuePath(request, params);
+  if (!path) {
+    return NextResponse.json({ error: "Missing owner, repo or issue number" }, { status: 400 });
+  }
+
+  let payload: IssueUpdate;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  const { labels, assignees, milestone, state, stateReason } = payload ?? {};
+  if ((labels !== undefined && !isStringArray(labels)) || (assignees !== undefined && !isStringArray(assignees))) {
+    return NextResponse.json({ error: "labels and assignees must be arrays of strings" }, { status: 400 });
+  }
+  if (milestone !== undefined && milestone !== null && !Number.isInteger(milestone)) {
+    return NextResponse.json({ error: "milestone must be a milestone number or null" }, { status: 400 });
+  }
+  if ((state !== undefined && state !== "open" && state !== "closed") || (stateReason !== undefined && !STATE_REASONS.includes(stateReason))) {
+    return NextResponse.json({ error: "Invalid state" }, { status: 400 });
+  }
+
+  try {
+    const { data } = await githubRequest<Issue>(token.accessToken, path, {
+      method: "PATCH",
+      body: { labels, assignees, milestone, state, state_reason: stateReason },
+    });
+    return NextResponse.json(data);
+  } catch (error) {
+    const { status, body } = githubFailure(error);
+    return NextResponse.json(body, { status });
+  }
+}
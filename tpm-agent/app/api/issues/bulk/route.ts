@@ -0,0 +1,210 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { GitHubError, githubPaginate, githubRequest } from "@/lib/github-client";
+import {
+  type BulkIssueEvent,
+  type BulkIssueResult,
+  type IssueDraft,
+  dependencyPlaceholder,
+} from "@/lib/bulk-issues";
+
+// Keep a single request well inside GitHub's secondary rate limits for content creation
+const MAX_ISSUES = 50;
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+function isIssueDraft(value: unknown): value is IssueDraft {
+  if (typeof value !== 'object' || value === null) return false;
+  const draft = value as Record<string, unknown>;
+  const isStringArray = (v: unknown) => Array.isArray(v) && v.every(item => typeof item === 'string');
+  return typeof draft.title === 'string'
+    && typeof draft.body === 'string'
+    && isStringArray(draft.labels)
+    && isStringArray(draft.assignees)
+    && isStringArray(draft.dependencies)
+    && (draft.milestone === null || typeof draft.milestone === 'string')
+    && (draft.repository === undefined || draft.repository === null
+      || (typeof draft.repository === 'string' && REPOSITORY_PATTERN.test(draft.repository)));
+}
+
+function repositoryPath(fullName: string): string {
+  const [owner, repo] = fullName.split('/');
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+}
+
+// Replace dependency placeholders with links to issues created earlier in the run;
+// issues in another repository are linked as owner/name#number
+function linkDependencies(
+  draft: IssueDraft,
+  repository: string,
+  createdIssues: Map<string, { repository: string; number: number }>
+): string {
+  return draft.dependencies.reduce((body, id) => {
+    const issue = createdIssues.get(id);
+    const link = !issue ? `Task ${id}` : issue.repository === repository ? `#${issue.number}` : `${issue.repository}#${issue.number}`;
+    return body.split(dependencyPlaceholder(id)).join(link);
+  }, draft.body);
+}
+
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const accessToken = token.accessToken;
+
+  let payload: {
+    owner?: string;
+    repo?: string;
+    issues?: unknown[];
+    dryRun?: boolean;
+  };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  const { owner, repo, issues, dryRun } = payload ?? {};
+
+  if (!owner || !repo) {
+    return NextResponse.json({ error: "Missing owner or repo" }, { status: 400 });
+  }
+  if (!Array.isArray(issues) || issues.length === 0) {
+    return NextResponse.json({ error: "issues must be a non-empty array" }, { status: 400 });
+  }
+  if (issues.length > MAX_ISSUES) {
+    return NextResponse.json({ error: `At most ${MAX_ISSUES} issues can be created at once` }, { status: 400 });
+  }
+  if (!issues.every(isIssueDraft)) {
+    return NextResponse.json({ error: "Invalid issue draft" }, { status: 400 });
+  }
+  const drafts = issues as IssueDraft[];
+  const defaultRepository = `${owner}/${repo}`;
+  const targetOf = (draft: IssueDraft) => draft.repository || defaultRepository;
+  const repositories = [...new Set(drafts.map(targetOf))];
+
+  const encoder = new TextEncoder();
+  const sendEvent = (controller: ReadableStreamDefaultController, event: BulkIssueEvent) => {
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+  };
+
+  // Aborted when the client disconnects or cancels the stream, so no more issues are created
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort());
+  const { signal } = abortController;
+
+  const readable = new ReadableStream({
+    async start(controller) {
+      try {
+        // Per repository: resolve milestone titles to numbers, creating missing ones unless this is
+        // a dry run, and check assignees, since GitHub rejects the whole issue when one can't be assigned
+        const milestoneNumbers = new Map<string, Map<string, number>>();
+        const unassignable = new Map<string, Set<string>>();
+        const createdMilestones: string[] = [];
+        for (const repository of repositories) {
+          const repoPath = repositoryPath(repository);
+          const repoDrafts = drafts.filter(d => targetOf(d) === repository);
+          const numbers = new Map<string, number>();
+          milestoneNumbers.set(repository, numbers);
+
+          const wanted = [...new Set(repoDrafts.map(d => d.milestone?.trim()).filter((m): m is string => !!m))];
+          if (wanted.length > 0) {
+            for (const milestone of await githubPaginate<{ title: string; number: number }>(accessToken, `${repoPath}/milestones?state=all`, { signal })) {
+              numbers.set(milestone.title, milestone.number);
+            }
+            for (const title of wanted.filter(t => !numbers.has(t))) {
+              createdMilestones.push(`${repository}: ${title}`);
+              if (dryRun) continue;
+              const { data: created } = await githubRequest<{ number: number }>(accessToken, `${repoPath}/milestones`, {
+                method: 'POST',
+                body: { title },
+                signal,
+              });
+              numbers.set(title, created.number);
+              logger.info(`Created milestone "${title}" in ${repository}`);
+            }
+          }
+
+          const logins = new Set<string>();
+          unassignable.set(repository, logins);
+          for (const login of new Set(repoDrafts.flatMap(d => d.assignees))) {
+            // 204 when the user can be assigned, 404 when not
+            await githubRequest(accessToken, `${repoPath}/assignees/${encodeURIComponent(login)}`, { signal }).catch((error: unknown) => {
+              if (!(error instanceof GitHubError && error.code === 'not_found')) throw error;
+              logins.add(login);
+            });
+          }
+        }
+
+        const createdIssues = new Map<string, { repository: string; number: number }>();
+        const results: BulkIssueResult[] = [];
+        for (const [index, draft] of drafts.entries()) {
+          signal.throwIfAborted();
+          const repository = targetOf(draft);
+          let result: BulkIssueResult = { index, taskId: draft.taskId, title: draft.title, repository, status: dryRun ? 'dry_run' : 'created' };
+          const invalidAssignees = draft.assignees.filter(a => unassignable.get(repository)?.has(a));
+
+          if (!draft.title.trim()) {
+            result = { ...result, status: 'failed', error: 'Title is required' };
+          } else if (invalidAssignees.length > 0) {
+            result = { ...result, status: 'failed', error: `Cannot assign ${invalidAssignees.join(', ')} in ${repository}` };
+          } else if (!dryRun) {
+            const milestone = draft.milestone?.trim();
+            try {
+              const { data: issue } = await githubRequest<{ number: number; html_url: string }>(accessToken, `${repositoryPath(repository)}/issues`, {
+                method: 'POST',
+                body: {
+                  title: draft.title.trim(),
+                  body: linkDependencies(draft, repository, createdIssues),
+                  labels: draft.labels,
+                  assignees: draft.assignees,
+                  ...(milestone ? { milestone: milestoneNumbers.get(repository)?.get(milestone) } : {}),
+                },
+                signal,
+              });
+              if (draft.taskId) createdIssues.set(draft.taskId, { repository, number: issue.number });
+              result = { ...result, number: issue.number, html_url: issue.html_url };
+            } catch (error) {
+              if (signal.aborted) throw error;
+              result = { ...result, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+            }
+          }
+
+          results.push(result);
+          sendEvent(controller, { type: 'progress', completed: index + 1, total: drafts.length, result });
+        }
+
+        const created = results.filter(r => r.status === 'created').length;
+        const failed = results.filter(r => r.status === 'failed').length;
+        logger.info(`Bulk issue ${dryRun ? 'dry run' : 'creation'} for ${repositories.join(', ')}: ${created} created, ${failed} failed`);
+        sendEvent(controller, {
+          type: 'summary',
+          summary: { dryRun: !!dryRun, created, failed, createdMilestones, results },
+        });
+      } catch (error) {
+        if (signal.aborted) {
+          // The client went away; stop here rather than keep creating issues for no one
+          logger.info('Bulk issue creation cancelled by client');
+          return;
+        }
+        logger.error('Bulk issue creation failed:', error);
+        sendEvent(controller, { type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { classifyLLMError, getLLMProvider, withRetry } from "@/lib/llm";
+import { LLM_ERROR_STATUS } from "@/lib/llm-errors";
+import { githubFailure, githubPaginate } from "@/lib/github-client";
+import {
+  type IssueDraftRequest,
+  type LabelChoice,
+  ISSUE_DRAFT_RESPONSE_FORMAT,
+  MAX_ISSUE_DESCRIPTION_LENGTH,
+  issueDraftInput,
+  issueDraftInstructions,
+  parseIssueDraft,
+} from "@/lib/issue-composer";
+
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const provider = getLLMProvider();
+  if (!provider) {
+    return NextResponse.json({ error: "LLM provider not configured. Check environment variables." }, { status: 503 });
+  }
+
+  let payload: Partial<IssueDraftRequest>;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  const { owner, repo, description, template } = payload ?? {};
+  if (typeof owner !== "string" || typeof repo !== "string" || !owner || !repo) {
+    return NextResponse.json({ error: "Missing owner or repo" }, { status: 400 });
+  }
+  if (typeof description !== "string" || !description.trim()) {
+    return NextResponse.json({ error: "Describe the issue first" }, { status: 400 });
+  }
+  if (description.length > MAX_ISSUE_DESCRIPTION_LENGTH) {
+    return NextResponse.json({ error: `Descriptions can be at most ${MAX_ISSUE_DESCRIPTION_LENGTH} characters` }, { status: 400 });
+  }
+  if (template && (typeof template !== "object" || !Array.isArray(template.fields) || typeof template.body !== "string")) {
+    return NextResponse.json({ error: "Invalid template" }, { status: 400 });
+  }
+
+  let labels: LabelChoice[];
+  try {
+    labels = (await githubPaginate<LabelChoice>(token.accessToken, `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/labels?per_page=100`))
+      .map(({ name, description }) => ({ name, description }));
+  } catch (error) {
+    const { status, body } = githubFailure(error);
+    return NextResponse.json(body, { status });
+  }
+
+  try {
+    // One turn without tools; the reply is the JSON draft
+    const text = await withRetry(async () => {
+      let reply = "";
+      for await (const event of provider.streamResponse({
+        input: [{ role: "user", content: issueDraftInput(description.trim(), template ?? null) }],
+        instructions: issueDraftInstructions(`${owner}/${repo}`, labels),
+        text: { format: ISSUE_DRAFT_RESPONSE_FORMAT },
+        signal: request.signal,
+      })) {
+        if (event.type === "response.output_text.delta") {
+          reply += event.delta;
+        } else if (event.type === "response.failed") {
+          throw new Error(event.response.error?.message || "Response failed");
+        } else if (event.type === "error") {
+          throw new Error(event.message);
+        }
+      }
+      return reply;
+    }, { signal: request.signal });
+
+    const draft = parseIssueDraft(text, labels.map(l => l.name), template ?? null);
+    if (!draft) {
+      logger.warn(`Unreadable issue draft for ${owner}/${repo}:`, text.slice(0, 500));
+      return NextResponse.json({ error: "The agent's draft could not be read; try again" }, { status: 502 });
+    }
+    return NextResponse.json(draft);
+  } catch (error) {
+    const info = classifyLLMError(error);
+    logger.error(`Issue draft failed (${info.code}):`, error);
+    return NextResponse.json({ error: info.message, ...info }, { status: LLM_ERROR_STATUS[info.code] });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import type { IssueOptions } from "@/lib/issue-detail";
+import { githubFailure, githubPaginate } from "@/lib/github-client";
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const owner = request.nextUrl.searchParams.get("owner");
+  const repo = request.nextUrl.searchParams.get("repo");
+  if (!owner || !repo) {
+    return NextResponse.json({ error: "Missing owner or repo" }, { status: 400 });
+  }
+
+  const repoPath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  try {
+    const [labels, assignees, milestones] = await Promise.all([
+      githubPaginate<IssueOptions["labels"][number]>(token.accessToken, `${repoPath}/labels?per_page=100`),
+      githubPaginate<IssueOptions["assignees"][number]>(token.accessToken, `${repoPath}/assignees?per_page=100`),
+      githubPaginate<IssueOptions["milestones"][number]>(token.accessToken, `${repoPath}/milestones?state=open&per_page=100`),
+    ]);
+    const options: IssueOptions = {
+      labels: labels.map(({ name, color }) => ({ name, color })),
+      assignees: assignees.map(({ login, avatar_url }) => ({ login, avatar_url })),
+      milestones: milestones.map(({ number, title }) => ({ number, title })),
+    };
+    return NextResponse.json(options);
+  } catch (error) {
+    const { status, body } = githubFailure(error);
+    return NextResponse.json(body, { status });
+  }
+}
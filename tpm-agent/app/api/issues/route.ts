@@ -1,5 +1,85 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getToken } from "next-auth/jwt";
+import {
+  type Issue,
+  type IssueKind,
+  type IssuePage,
+  type NewIssue,
+  DEFAULT_ISSUES_PER_PAGE,
+  ISSUE_SORTS,
+  ISSUE_STATES,
+  MAX_ISSUES_PER_PAGE,
+} from "@/lib/issues-client";
+import { GITHUB_API_URL, githubFailure, githubPaginate, githubRequest } from "@/lib/github-client";
+
+// GitHub's limit on issue titles
+const MAX_TITLE_LENGTH = 256;
+
+// Cursors are the next links GitHub returned, sent back by the client; only issue listings and the search API are followed.
+// GitHub may address the repository by ID in these links
+function isValidCursor(cursor: string, repoPath: string): boolean {
+  try {
+    const url = new URL(cursor);
+    return url.origin === GITHUB_API_URL
+      && (url.pathname === `${repoPath}/issues` || /^\/repositories\/\d+\/issues$/.test(url.pathname) || url.pathname === "/search/issues");
+  } catch {
+    return false;
+  }
+}
+
+// Search qualifier value, quoted when it contains spaces
+function qualifier(name: string, value: string): string {
+  return `${name}:${/\s/.test(value) ? `"${value.replace(/"/g, "")}"` : value}`;
+}
+
+function searchQuery(fullName: string, params: URLSearchParams, kind: IssueKind | null): string {
+  const state = params.get("state");
+  const assignee = params.get("assignee");
+  const milestone = params.get("milestone");
+  const author = params.get("author");
+  return [
+    `repo:${fullName}`,
+    kind === "pulls" ? "is:pr" : kind === "issues" ? "is:issue" : "",
+    state === "open" || state === "closed" ? `state:${state}` : "",
+    ...(params.get("labels") ?? "").split(",").map(label => label.trim()).filter(Boolean).map(label => qualifier("label", label)),
+    assignee === "none" ? "no:assignee" : assignee && assignee !== "*" ? qualifier("assignee", assignee) : "",
+    milestone === "none" ? "no:milestone" : milestone && milestone !== "*" ? qualifier("milestone", milestone) : "",
+    author ? qualifier("author", author) : "",
+    params.get("q") ?? "",
+  ].filter(Boolean).join(" ");
+}
+
+/**
+ * Issues listing URL for the filters; null when the milestone filter names a milestone
+ * the repository doesn't have, so nothing can match.
+ */
+async function listUrl(accessToken: string, repoPath: string, params: URLSearchParams, perPage: number): Promise<string | null> {
+  const query = new URLSearchParams({ per_page: String(perPage) });
+  const state = params.get("state");
+  query.set("state", state && (ISSUE_STATES as readonly string[]).includes(state) ? state : "all");
+  const sort = params.get("sort");
+  if (sort && (ISSUE_SORTS as readonly string[]).includes(sort)) query.set("sort", sort);
+  const direction = params.get("direction");
+  if (direction === "asc" || direction === "desc") query.set("direction", direction);
+  const labels = params.get("labels");
+  if (labels) query.set("labels", labels);
+  const assignee = params.get("assignee");
+  if (assignee) query.set("assignee", assignee);
+  const author = params.get("author");
+  if (author) query.set("creator", author);
+
+  // The listing filters milestones by number; the client filters by title so one filter covers every repository of a program
+  const milestone = params.get("milestone");
+  if (milestone === "*" || milestone === "none") {
+    query.set("milestone", milestone);
+  } else if (milestone) {
+    const milestones = await githubPaginate<{ number: number; title: string }>(accessToken, `${repoPath}/milestones?state=all`);
+    const found = milestones.find(m => m.title === milestone);
+    if (!found) return null;
+    query.set("milestone", String(found.number));
+  }
+  return `${repoPath}/issues?${query}`;
+}
 
 export async function GET(request: NextRequest) {
   const token = await getToken({ req: request });
@@ -7,32 +87,95 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const owner = request.nextUrl.searchParams.get("owner");
-  const repo = request.nextUrl.searchParams.get("repo");
+  const params = request.nextUrl.searchParams;
+  const owner = params.get("owner");
+  const repo = params.get("repo");
   if (!owner || !repo) {
     return NextResponse.json({ error: "Missing owner or repo" }, { status: 400 });
   }
 
-  const gh = await fetch(
-    `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues?state=all\u0026per_page=50`,
-    {
-      headers: {
-        Authorization: `Bearer ${token.accessToken}`,
-        Accept: "application/vnd.github.v3+json",
-      },
-      cache: "no-store",
-    }
-  );
+  const repoPath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const kindParam = params.get("kind");
+  const kind: IssueKind | null = kindParam === "issues" || kindParam === "pulls" ? kindParam : null;
+  const perPage = Math.min(Math.max(Number(params.get("per_page")) || DEFAULT_ISSUES_PER_PAGE, 1), MAX_ISSUES_PER_PAGE);
+  const cursor = params.get("cursor");
+  if (cursor && !isValidCursor(cursor, repoPath)) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
 
-  if (!gh.ok) {
-    const text = await gh.text();
-    return NextResponse.json(
-      { error: "GitHub API error", status: gh.status, body: text },
-      { status: gh.status }
-    );
+  // Free-text search goes through the search API, as do pull requests: the listing returns them mixed in with
+  // issues, and in most repositories they would be a few items on each page
+  const search = !!params.get("q")?.trim() || kind === "pulls";
+  let url = cursor;
+  if (!url && search) {
+    const query = new URLSearchParams({ q: searchQuery(`${owner}/${repo}`, params, kind), per_page: String(perPage) });
+    const sort = params.get("sort");
+    if (sort && (ISSUE_SORTS as readonly string[]).includes(sort)) query.set("sort", sort);
+    const direction = params.get("direction");
+    if (direction === "asc" || direction === "desc") query.set("order", direction);
+    url = `/search/issues?${query}`;
   }
+  try {
+    if (!url) {
+      url = await listUrl(token.accessToken, repoPath, params, perPage);
+      if (!url) {
+        return NextResponse.json({ items: [], nextCursor: null, totalCount: 0 } satisfies IssuePage);
+      }
+    }
 
-  const data = await gh.json();
-  return NextResponse.json(data);
+    const { data, nextUrl } = await githubRequest<Issue[] | { total_count: number; items: Issue[] }>(token.accessToken, url);
+    const items = Array.isArray(data) ? data : data.items;
+    // The issues listing returns pull requests too; they carry a pull_request field
+    const page: IssuePage = {
+      items: !Array.isArray(data) || !kind ? items : items.filter(item => (kind === "pulls") === !!item.pull_request),
+      nextCursor: nextUrl,
+      totalCount: Array.isArray(data) ? null : data.total_count,
+    };
+    return NextResponse.json(page);
+  } catch (error) {
+    const { status, body } = githubFailure(error);
+    return NextResponse.json(body, { status });
+  }
 }
 
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let payload: Partial<NewIssue> & { owner?: unknown; repo?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  const { owner, repo, title, body, labels, assignees, milestone } = payload ?? {};
+  if (typeof owner !== "string" || typeof repo !== "string" || !owner || !repo) {
+    return NextResponse.json({ error: "Missing owner or repo" }, { status: 400 });
+  }
+  if (typeof title !== "string" || !title.trim()) {
+    return NextResponse.json({ error: "Title is required" }, { status: 400 });
+  }
+  if (title.trim().length > MAX_TITLE_LENGTH) {
+    return NextResponse.json({ error: `Titles can be at most ${MAX_TITLE_LENGTH} characters` }, { status: 400 });
+  }
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === "string");
+  if ((body !== undefined && typeof body !== "string") || (labels !== undefined && !isStringArray(labels)) || (assignees !== undefined && !isStringArray(assignees))) {
+    return NextResponse.json({ error: "Invalid issue" }, { status: 400 });
+  }
+  if (milestone !== undefined && milestone !== null && !Number.isInteger(milestone)) {
+    return NextResponse.json({ error: "milestone must be a milestone number or null" }, { status: 400 });
+  }
+
+  try {
+    const { data } = await githubRequest<Issue>(token.accessToken, `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues`, {
+      method: "POST",
+      body: { title: title.trim(), body, labels, assignees, milestone: milestone ?? undefined },
+    });
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    const failure = githubFailure(error);
+    return NextResponse.json(failure.body, { status: failure.status });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { type IssueTemplate, parseIssueTemplate } from "@/lib/issue-templates";
+import { GitHubError, githubFailure, githubGet } from "@/lib/github-client";
+
+const TEMPLATE_DIR = ".github/ISSUE_TEMPLATE";
+const TEMPLATE_FILE = /\.(md|ya?ml)$/i;
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const accessToken = token.accessToken;
+
+  const owner = request.nextUrl.searchParams.get("owner");
+  const repo = request.nextUrl.searchParams.get("repo");
+  if (!owner || !repo) {
+    return NextResponse.json({ error: "Missing owner or repo" }, { status: 400 });
+  }
+
+  const contentsPath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/contents`;
+  try {
+    let entries: Array<{ name: string; path: string; type: string }>;
+    try {
+      entries = await githubGet(accessToken, `${contentsPath}/${TEMPLATE_DIR}`);
+    } catch (error) {
+      // Most repositories have no templates
+      if (error instanceof GitHubError && error.code === "not_found") return NextResponse.json([]);
+      throw error;
+    }
+
+    const files = Array.isArray(entries) ? entries.filter(entry => entry.type === "file" && TEMPLATE_FILE.test(entry.name)) : [];
+    const templates = await Promise.all(files.map(async (file): Promise<IssueTemplate | null> => {
+      const source = await githubGet<string>(accessToken, `${contentsPath}/${file.path.split("/").map(encodeURIComponent).join("/")}`, {
+        accept: "application/vnd.github.raw+json",
+      });
+      const template = parseIssueTemplate(file.name, source);
+      if (!template && !/^config\.ya?ml$/i.test(file.name)) {
+        logger.warn(`Skipping unreadable issue template ${owner}/${repo}/${file.path}`);
+      }
+      return template;
+    }));
+    return NextResponse.json(templates
+      .filter((template): template is IssueTemplate => template !== null)
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (error) {
+    const { status, body } = githubFailure(error);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { listPersonas } from "@/lib/persona-store";
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await listPersonas());
+  } catch (error) {
+    logger.error('Failed to list personas:', error);
+    return NextResponse.json({ error: "Failed to list personas" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { deletePromptTemplate, getPromptTemplate, updatePromptTemplate } from "@/lib/prompt-template-store";
+import { type PromptTemplateInput, templateFileName, templateToMarkdown, validateTemplate } from "@/lib/prompt-templates";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// ?format=markdown downloads the template as a markdown file with front-matter
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const template = await getPromptTemplate(token.sub, id);
+  if (!template) {
+    return NextResponse.json({ error: "Template not found" }, { status: 404 });
+  }
+
+  if (request.nextUrl.searchParams.get('format') === 'markdown') {
+    return new NextResponse(templateToMarkdown(template), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${templateFileName(template)}"`,
+      },
+    });
+  }
+  return NextResponse.json(template);
+}
+
+// Saves a new version of the template
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { name, description, body }: Partial<PromptTemplateInput> = await request.json().catch(() => ({}));
+  const problem = validateTemplate({ name, body });
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const template = await updatePromptTemplate(token.sub, id, { name: name!, description: description ?? '', body: body! });
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    return NextResponse.json(template);
+  } catch (error) {
+    logger.error('Failed to update prompt template:', error);
+    return NextResponse.json({ error: "Failed to update prompt template" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const deleted = await deletePromptTemplate(token.sub, id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Template not found" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { createPromptTemplate, listPromptTemplates } from "@/lib/prompt-template-store";
+import { type PromptTemplateInput, templateFromMarkdown, validateTemplate } from "@/lib/prompt-templates";
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await listPromptTemplates(token.sub));
+  } catch (error) {
+    logger.error('Failed to list prompt templates:', error);
+    return NextResponse.json({ error: "Failed to list prompt templates" }, { status: 500 });
+  }
+}
+
+// Creates a template from { name, description, body }, or imports { markdown, fileName }
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const data: Partial<PromptTemplateInput> & { markdown?: string; fileName?: string } =
+    await request.json().catch(() => ({}));
+  const input: Partial<PromptTemplateInput> = typeof data.markdown === 'string'
+    ? templateFromMarkdown(data.markdown, data.fileName)
+    : { name: data.name, description: data.description ?? '', body: data.body };
+
+  const problem = validateTemplate(input);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  try {
+    const template = await createPromptTemplate(token.sub, input as PromptTemplateInput);
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    logger.error('Failed to create prompt template:', error);
+    return NextResponse.json({ error: "Failed to create prompt template" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { getRepositoryPreferences, updateRepositoryPreferences } from "@/lib/repository-preference-store";
+import type { RepositoryPreferencesUpdate } from "@/lib/repository-preferences";
+
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await getRepositoryPreferences(token.sub));
+  } catch (error) {
+    logger.error('Failed to load repository preferences:', error);
+    return NextResponse.json({ error: "Failed to load repository preferences" }, { status: 500 });
+  }
+}
+
+// Pins or unpins a repository, or records it as used: { fullName, pinned?, used? }
+export async function PATCH(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { fullName, pinned, used }: Partial<RepositoryPreferencesUpdate> = await request.json().catch(() => ({}));
+  if (typeof fullName !== 'string' || !REPOSITORY_PATTERN.test(fullName)) {
+    return NextResponse.json({ error: "fullName must be owner/name" }, { status: 400 });
+  }
+  if (pinned !== undefined && typeof pinned !== 'boolean') {
+    return NextResponse.json({ error: "pinned must be a boolean" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await updateRepositoryPreferences(token.sub, { fullName, pinned, used: used === true }));
+  } catch (error) {
+    logger.error('Failed to update repository preferences:', error);
+    return NextResponse.json({ error: "Failed to update repository preferences" }, { status: 500 });
+  }
+}
@@ -1,42 +1,45 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
 import { getToken } from "next-auth/jwt"
-import { authOptions } from "../auth/[...nextauth]/auth-options"
+import { githubFailure, githubGet, githubPaginate } from "@/lib/github-client"
+import type { RepositoryListing, RepositoryOwner } from "@/lib/repository-preferences"
+
+// Upper bound on listing pages of 100 repositories
+const MAX_REPOSITORY_PAGES = 30
+
+interface GitHubRepository {
+  id: number
+  full_name: string
+  owner: RepositoryOwner
+  permissions?: { push?: boolean; maintain?: boolean; admin?: boolean }
+}
 
 export async function GET(request: NextRequest) {
-  const session = await getServerSession(authOptions)
   const token = await getToken({ req: request })
   
   if (!token?.accessToken) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
   }
 
-  if (!session || !session.user) {
-    return NextResponse.json({ error: "Session missing" }, { status: 401 })
-  }
-
   try {
-    const response = await fetch("https://api.github.com/user/repos?affiliation=owner,collaborator&sort=updated&per_page=100", {
-      headers: {
-        "Authorization": `Bearer ${token.accessToken}`,
-        "Accept": "application/vnd.github.v3+json"
-      }
-    })
-
-    if (!response.ok) {
-      throw new Error(`GitHub API error: ${response.status}`)
-    }
+    // organization_member includes the repositories of orgs the user belongs to, visible through read:org
+    const [user, repos] = await Promise.all([
+      githubGet<{ login: string }>(token.accessToken, "/user"),
+      githubPaginate<GitHubRepository>(
+        token.accessToken,
+        "/user/repos?affiliation=owner,collaborator,organization_member&sort=updated",
+        { maxPages: MAX_REPOSITORY_PAGES }
+      ),
+    ])
 
-    const repos = await response.json()
-    
-    // Filter repositories with write access
-    const writableRepos = repos.filter((repo: { permissions?: { push?: boolean; admin?: boolean }; owner?: { login?: string } }) => 
-      repo.permissions?.push || repo.permissions?.admin || repo.owner?.login === session.user?.name
+    // Repositories the user can push to; owners always have admin
+    const writableRepos = repos.filter(repo =>
+      repo.permissions?.push || repo.permissions?.maintain || repo.permissions?.admin
     )
 
-    return NextResponse.json(writableRepos)
+    return NextResponse.json({ login: user.login, repositories: writableRepos } satisfies RepositoryListing<GitHubRepository>)
   } catch (error) {
     console.error('Failed to fetch repositories:', error)
-    return NextResponse.json({ error: "Failed to fetch repositories" }, { status: 500 })
+    const { status, body } = githubFailure(error)
+    return NextResponse.json({ ...body, error: `Failed to fetch repositories: ${body.error}` }, { status })
   }
 }
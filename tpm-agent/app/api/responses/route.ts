@@ -1,40 +1,119 @@
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from "next/server";
-import { AzureOpenAI } from "openai";
 import { getToken } from "next-auth/jwt";
 import { logger } from "@/lib/logger";
-import { readFile } from "fs/promises";
-import { join } from "path";
-
-// 2025-03-01-preview is the min version with responses API support
-const apiVersion = process.env.AZURE_OPENAI_API_VERSION || "2025-03-01-preview";
-const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || "gpt-4o";
-const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-const apiKey = process.env.AZURE_OPENAI_API_KEY;
-
-// Validate required environment variables
-if (!endpoint || endpoint.includes('your-resource')) {
-  logger.warn('AZURE_OPENAI_ENDPOINT not properly configured (using placeholder value)');
+import type { ResponseInputItem, Tool } from "openai/resources/responses/responses";
+import { executeO365Tool, getO365FunctionTools, isO365ToolName } from "@/lib/o365-tools";
+import {
+  type ApprovalDecision,
+  type ApprovalMode,
+  type ApprovalRequest,
+  DEFAULT_APPROVAL_MODE,
+  mcpRequireApproval,
+  requiresApproval,
+} from "@/lib/approvals";
+import { type ActivityEvent, activityFromStreamEvent, functionResultActivity } from "@/lib/activity";
+import { type LLMProvider, classifyLLMError, getLLMProvider, openStreamWithRetry, withRetry } from "@/lib/llm";
+import { LLM_ERROR_STATUS } from "@/lib/llm-errors";
+import { buildInstructions, getPersona } from "@/lib/persona-store";
+import { ROADMAP_RESPONSE_FORMAT, parseRoadmap, roadmapToMarkdown } from "@/lib/roadmap";
+import { repairPrompt, roadmapFormatProblems } from "@/lib/roadmap-format";
+import { type UsageRecord, usageFromResponse } from "@/lib/usage";
+import { recordUsage } from "@/lib/conversation-store";
+import { getApprovalMode } from "@/lib/approval-policy-store";
+import { attachmentContent, getAttachments } from "@/lib/attachment-store";
+import { MAX_ATTACHMENTS_PER_MESSAGE, MAX_MESSAGE_ATTACHMENT_CHARACTERS, attachmentCharacters } from "@/lib/attachments";
+import {
+  type RepositoryInfo,
+  fetchRepositoryDigest,
+  formatProgramContext,
+  formatRepositoryContext,
+} from "@/lib/repository-digest";
+import { validateProgram } from "@/lib/programs";
+import { isRecord } from "@/lib/util";
+
+// Upper bound on function-call round trips per user message
+const MAX_TOOL_ROUNDS = 5;
+// Follow-up turns asking the model to fix a reply that fails strict format validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+interface FunctionCall {
+  call_id: string;
+  name: string;
+  arguments: string;
 }
 
-if (!apiKey || apiKey.includes('your-azure-openai-api-key')) {
-  logger.warn('AZURE_OPENAI_API_KEY not properly configured (using placeholder value)');
+// Error events and failed responses end the turn; rethrown so they are classified like request errors
+function streamFailure(chunk: Record<string, unknown>): Error {
+  const details = chunk.type === 'error'
+    ? chunk
+    : isRecord(chunk.response) && isRecord(chunk.response.error) ? chunk.response.error : {};
+  return Object.assign(
+    new Error(typeof details.message === 'string' ? details.message : 'The model response failed'),
+    { code: typeof details.code === 'string' ? details.code : undefined }
+  );
 }
 
-const aoaiClient = (endpoint && apiKey && 
-                   !endpoint.includes('your-resource') && 
-                   !apiKey.includes('your-azure-openai-api-key')) ? 
-  new AzureOpenAI({ 
-    endpoint,  
-    apiKey,
-    deployment, 
-    apiVersion,
-  }) : null;
+async function runFunctionCall(call: FunctionCall): Promise<{ input: ResponseInputItem; activity: ActivityEvent }> {
+  const output = isO365ToolName(call.name)
+    ? await executeO365Tool(call.name, call.arguments)
+    : JSON.stringify({ success: false, error: `Unknown tool: ${call.name}` });
+  return {
+    input: { type: 'function_call_output', call_id: call.call_id, output },
+    activity: functionResultActivity(call.call_id, call.name, output),
+  };
+}
 
+/**
+ * Build the input items that answer the approval requests left open by a previous response.
+ * Function calls that were not waiting on the user are run as usual.
+ */
+async function resolveApprovals(
+  provider: LLMProvider,
+  previousResponseId: string,
+  decisions: ApprovalDecision[],
+  approvalMode: ApprovalMode,
+  signal: AbortSignal
+): Promise<{ input: ResponseInputItem[]; activity: ActivityEvent[] }> {
+  const decisionById = new Map(decisions.map(d => [d.id, d.approve]));
+  const previousOutput = await withRetry(() => provider.getOutputItems(previousResponseId), { signal });
+  const input: ResponseInputItem[] = [];
+  const activity: ActivityEvent[] = [];
 
-function isRecord(x: unknown): x is Record<string, unknown> {
-  return typeof x === 'object' && x !== null;
+  for (const item of previousOutput) {
+    if (item.type === 'mcp_approval_request') {
+      const approve = decisionById.get(item.id) ?? false;
+      logger.info(`MCP tool ${item.name} ${approve ? 'approved' : 'denied'} by user`);
+      input.push({ type: 'mcp_approval_response', approval_request_id: item.id, approve });
+      // Settles the awaiting-approval entry; once approved, the call itself reports under its own ID
+      activity.push({
+        kind: 'tool_call',
+        id: item.id,
+        source: 'mcp',
+        name: item.name,
+        status: approve ? 'completed' : 'failed',
+        error: approve ? undefined : 'Denied by user',
+      });
+    } else if (item.type === 'function_call') {
+      const approve = decisionById.get(item.call_id) ?? !requiresApproval(approvalMode, item.name);
+      logger.info(`Function tool ${item.name} ${approve ? 'approved' : 'denied'}`);
+      const result = approve
+        ? await runFunctionCall(item)
+        : {
+            input: {
+              type: 'function_call_output' as const,
+              call_id: item.call_id,
+              output: JSON.stringify({ success: false, error: 'The user denied this action.' }),
+            },
+            activity: functionResultActivity(item.call_id, item.name, JSON.stringify({ success: false, error: 'Denied by user' })),
+          };
+      input.push(result.input);
+      activity.push(result.activity);
+    }
+  }
+
+  return { input, activity };
 }
 
 export async function POST(request: NextRequest) {
@@ -48,100 +127,361 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!aoaiClient) {
+    const provider = getLLMProvider();
+    if (!provider) {
       return NextResponse.json(
         { 
-          error: 'AI Chat not available - Azure OpenAI not configured', 
-          message: 'Please configure Azure OpenAI environment variables to enable AI chat features. O365 integration is still available.',
+          error: 'AI Chat not available - LLM provider not configured', 
+          message: 'Please configure Azure OpenAI environment variables (or set LLM_PROVIDER=openai or mock) to enable AI chat features. O365 integration is still available.',
           o365Available: true
         },
         { status: 503 }
       );
     }
 
-    const { message, previousResponseId }: { message: string, previousResponseId?: string } = await request.json();
+    const { message, previousResponseId, approvals, repository, personaId, structuredRoadmap, strictFormat, conversationId, attachmentIds }: {
+      message?: string,
+      previousResponseId?: string,
+      approvals?: ApprovalDecision[],
+      // Repository whose stored approval policy applies to the tool calls
+      repository?: string,
+      personaId?: string,
+      structuredRoadmap?: boolean,
+      // Overrides the persona's strictFormat setting
+      strictFormat?: boolean,
+      // Thread to record token usage on
+      conversationId?: string,
+      // Files uploaded through /api/attachments to send with the message
+      attachmentIds?: string[]
+    } = await request.json();
 
-    if (!message) {
+    if (!message && !approvals?.length && !attachmentIds?.length) {
       return NextResponse.json(
         { error: 'Message is required' },
         { status: 400 }
       );
     }
 
-    // Read instructions from markdown file
-    const instructionsPath = join(process.cwd(), 'app', 'config', 'instructions.md');
-    let instructions = '';
-    try {
-      instructions = await readFile(instructionsPath, 'utf-8');
-    } catch {
-      logger.warn('Instructions file not found, proceeding without instructions');
+    if (approvals?.length && !previousResponseId) {
+      return NextResponse.json(
+        { error: 'previousResponseId is required when sending approval decisions' },
+        { status: 400 }
+      );
     }
 
-    // Build streaming request using the SDK's streaming helper to preserve types
-    const stream = await aoaiClient.responses.stream({
-      model: deployment,
-      input: [{ role: 'user', content: message }],
-      instructions,
-      ...(previousResponseId ? { previous_response_id: previousResponseId } : {}),
-      ...(token?.accessToken
-        ? {
-            tools: [
-              {
-                type: "mcp",
-                server_label: "github_remote_mcp",
-                server_url: "https://api.githubcopilot.com/mcp/",
-                require_approval: "never",
-                headers: {
-                  Authorization: `Bearer ${token.accessToken}`,
-                },
-              },
-            ],
-          }
-        : {}),
-    });
+    if (attachmentIds && attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments can be sent with a message` },
+        { status: 400 }
+      );
+    }
+
+    const attachments = attachmentIds?.length
+      ? token.sub ? await getAttachments(token.sub, attachmentIds) : null
+      : [];
+    if (!attachments) {
+      return NextResponse.json(
+        { error: 'Attachment not found. Upload the file again.' },
+        { status: 404 }
+      );
+    }
+    if (attachmentCharacters(attachments) > MAX_MESSAGE_ATTACHMENT_CHARACTERS) {
+      return NextResponse.json(
+        { error: `Attachments can add at most ${MAX_MESSAGE_ATTACHMENT_CHARACTERS.toLocaleString()} characters to a message` },
+        { status: 400 }
+      );
+    }
+
+    // The policy is the one the user saved for the repository; the request can't choose its own
+    const approvalMode = typeof repository === 'string' && token.sub
+      ? await getApprovalMode(token.sub, repository)
+      : DEFAULT_APPROVAL_MODE;
+
+    // Persona instructions plus the shared instructions from app/config
+    const persona = await getPersona(personaId);
+    const instructions = await buildInstructions(persona);
+    const personaTools = persona?.tools ?? ['github', 'o365'];
+    // Roadmap mode: the model answers with JSON matching ROADMAP_RESPONSE_FORMAT
+    const roadmapMode = structuredRoadmap === true && persona?.structuredOutput === 'roadmap';
+    // Strict format: replies missing required task sections get a repair turn before they are final
+    const strict = (strictFormat ?? persona?.strictFormat ?? false) && persona?.structuredOutput === 'roadmap';
+    const formatProblems = (text: string) => {
+      if (!roadmapMode) return roadmapFormatProblems(text);
+      return text.trim() ? parseRoadmap(text).errors : [];
+    };
+
+    const tools: Tool[] = [
+      ...(personaTools.includes('github')
+        ? [{
+            type: "mcp" as const,
+            server_label: "github_remote_mcp",
+            server_url: "https://api.githubcopilot.com/mcp/",
+            require_approval: mcpRequireApproval(approvalMode),
+            headers: {
+              Authorization: `Bearer ${token.accessToken}`,
+            },
+          }]
+        : []),
+      ...(personaTools.includes('o365') ? getO365FunctionTools() : []),
+    ];
+
+    // Aborted when the client disconnects or cancels the stream, stopping the upstream request
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+    const { signal } = abortController;
+
+    // Build streaming request through the configured provider; withTools false makes the model answer in text
+    const startTurn = (input: ResponseInputItem[], previousId?: string, withTools = true) =>
+      provider.streamResponse({
+        input,
+        instructions,
+        tools: withTools ? tools : undefined,
+        previousResponseId: previousId,
+        text: roadmapMode ? { format: ROADMAP_RESPONSE_FORMAT } : undefined,
+        signal,
+      });
+
+    const resolved = approvals?.length && previousResponseId
+      ? await resolveApprovals(provider, previousResponseId, approvals, approvalMode, signal)
+      : {
+          input: [{
+            role: 'user' as const,
+            content: attachments.length
+              ? [...(message ? [{ type: 'input_text' as const, text: message }] : []), ...attachmentContent(attachments)]
+              : message ?? '',
+          }],
+          activity: [],
+        };
+
+    // Transient failures are retried here, while the client can still get a plain HTTP error
+    const stream = await openStreamWithRetry(() => startTurn(resolved.input, previousResponseId), { signal });
 
     // Create a ReadableStream for streaming the response
     const encoder = new TextEncoder();
-    let responseId: string | null = null;
+    const sendEvent = (controller: ReadableStreamDefaultController, event: Record<string, unknown>) => {
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+    };
+    const sendApprovalRequest = (controller: ReadableStreamDefaultController, approval: ApprovalRequest) => {
+      sendEvent(controller, { type: 'approval_request', approval });
+      sendEvent(controller, {
+        type: 'activity',
+        activity: {
+          kind: 'tool_call',
+          id: approval.id,
+          source: approval.kind,
+          name: approval.name,
+          status: 'awaiting_approval',
+          arguments: approval.arguments,
+        } satisfies ActivityEvent,
+      });
+    };
     
     const readable = new ReadableStream({
       async start(controller) {
         try {
-          for await (const chunk of stream) {
-            if (!isRecord(chunk) || typeof chunk.type !== 'string') {
-              continue;
+          for (const activity of resolved.activity) {
+            sendEvent(controller, { type: 'activity', activity });
+          }
+
+          // Streams a turn and the tool round trips it leads to; returns the text of the final turn.
+          // In roadmap mode the text is JSON and is only sent once it has been parsed
+          const runTurns = async (first: typeof stream) => {
+            let turn = first;
+            let text = '';
+            let responseId: string | null = null;
+            let awaitingApproval = false;
+            let toolsEnabled = true;
+            for (let round = 0; ; round++) {
+              responseId = null;
+              text = '';
+              const functionCalls: FunctionCall[] = [];
+
+              for await (const chunk of turn) {
+                if (!isRecord(chunk) || typeof chunk.type !== 'string') {
+                  continue;
+                }
+
+                if (chunk.type === 'error' || chunk.type === 'response.failed') {
+                  throw streamFailure(chunk);
+                }
+
+                // Forward tool, reasoning and status events for the activity timeline
+                const activity = activityFromStreamEvent(chunk);
+                if (activity) {
+                  sendEvent(controller, { type: 'activity', activity });
+                }
+
+                // Send response ID when we first get it for this turn
+                if (isRecord(chunk.response) && typeof chunk.response.id === 'string' && !responseId) {
+                  responseId = chunk.response.id;
+                  controller.enqueue(encoder.encode(
+                    `data: ${JSON.stringify({ type: 'response_id', id: responseId })}\n\n`
+                  ));
+                  continue;
+                }
+
+                // Account token usage once the turn completes
+                if (chunk.type === 'response.completed' && isRecord(chunk.response)) {
+                  const usage = usageFromResponse(chunk.response.usage);
+                  if (usage && responseId) {
+                    const record: UsageRecord = { responseId, model: provider.model, createdAt: new Date().toISOString(), usage };
+                    if (conversationId && token.sub) {
+                      await recordUsage(token.sub, conversationId, record)
+                        .catch(error => logger.error('Failed to record token usage:', error));
+                    }
+                    sendEvent(controller, { type: 'usage', record });
+                  }
+                  continue;
+                }
+              
+                // Handle text deltas
+                if (chunk.type === 'response.output_text.delta' && typeof chunk.delta === 'string') {
+                  text += chunk.delta;
+                  if (roadmapMode) {
+                    continue;
+                  }
+                  controller.enqueue(encoder.encode(
+                    `data: ${JSON.stringify({ type: 'content', content: chunk.delta })}\n\n`
+                  ));
+                  continue;
+                }
+
+                // Collect completed function calls to run once the turn is over
+                if (chunk.type === 'response.output_item.done' && isRecord(chunk.item) && chunk.item.type === 'function_call') {
+                  const { call_id, name, arguments: args } = chunk.item;
+                  if (typeof call_id === 'string' && typeof name === 'string') {
+                    functionCalls.push({ call_id, name, arguments: typeof args === 'string' ? args : '{}' });
+                  }
+                  continue;
+                }
+
+                // MCP calls the policy does not auto-approve end the turn with an approval request
+                if (chunk.type === 'response.output_item.done' && isRecord(chunk.item) && chunk.item.type === 'mcp_approval_request') {
+                  const { id, name, arguments: args, server_label } = chunk.item;
+                  if (typeof id === 'string' && typeof name === 'string') {
+                    awaitingApproval = true;
+                    sendApprovalRequest(controller, {
+                      id,
+                      kind: 'mcp',
+                      name,
+                      arguments: typeof args === 'string' ? args : '{}',
+                      serverLabel: typeof server_label === 'string' ? server_label : undefined,
+                    });
+                  }
+                }
+              }
+
+              if (functionCalls.length === 0 || !responseId || !toolsEnabled) {
+                break;
+              }
+
+              // Functions that need approval wait for the user's decision; the rest are answered with them
+              const pending = functionCalls.filter(call => requiresApproval(approvalMode, call.name));
+              const requestFunctionApprovals = () => {
+                for (const call of pending) {
+                  sendApprovalRequest(controller, {
+                    id: call.call_id,
+                    kind: 'function',
+                    name: call.name,
+                    arguments: call.arguments,
+                  });
+                }
+              };
+
+              // An MCP call is waiting for approval: chaining another turn would leave it on an older response,
+              // so stop here and let resolveApprovals answer the functions in the follow-up POST
+              if (awaitingApproval) {
+                requestFunctionApprovals();
+                break;
+              }
+
+              // Out of tool rounds: answer the calls without running them and let the model reply in text,
+              // so the thread ends on a response with no open function calls and can be continued
+              if (round >= MAX_TOOL_ROUNDS) {
+                logger.warn(`Tool round limit (${MAX_TOOL_ROUNDS}) reached; ${functionCalls.length} call(s) not run`);
+                sendEvent(controller, {
+                  type: 'notice',
+                  message: `The assistant stopped calling tools after ${MAX_TOOL_ROUNDS} rounds; the answer may be incomplete.`,
+                });
+                const skipped: ResponseInputItem[] = functionCalls.map(call => ({
+                  type: 'function_call_output',
+                  call_id: call.call_id,
+                  output: JSON.stringify({ success: false, error: 'Not run: the tool call limit for this message was reached. Answer with the information you have.' }),
+                }));
+                toolsEnabled = false;
+                const limitResponseId = responseId;
+                turn = await openStreamWithRetry(() => startTurn(skipped, limitResponseId, false), { signal });
+                continue;
+              }
+
+              // Pause for the user when any requested function needs approval;
+              // the decisions come back in a follow-up POST chained to this response
+              if (pending.length > 0) {
+                awaitingApproval = true;
+                requestFunctionApprovals();
+                break;
+              }
+
+              // Run the requested tools and feed the results back into the conversation
+              const outputs: ResponseInputItem[] = [];
+              for (const call of functionCalls) {
+                signal.throwIfAborted();
+                const result = await runFunctionCall(call);
+                outputs.push(result.input);
+                sendEvent(controller, { type: 'activity', activity: result.activity });
+              }
+              const nextResponseId = responseId;
+              turn = await openStreamWithRetry(() => startTurn(outputs, nextResponseId), { signal });
             }
+            return { text, responseId, awaitingApproval };
+          };
 
-            // Send response ID when we first get it
-            if (isRecord(chunk.response) && typeof chunk.response.id === 'string' && !responseId) {
-              responseId = chunk.response.id;
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'response_id', id: responseId })}\n\n`
-              ));
-              continue;
+          let reply = await runTurns(stream);
+          const found = strict && !reply.awaitingApproval ? formatProblems(reply.text) : [];
+          let remaining = found;
+          for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && remaining.length > 0 && reply.responseId && !reply.awaitingApproval; attempt++) {
+            logger.info(`Reply failed format validation, requesting a repair: ${remaining.join('; ')}`);
+            // Tells the client to discard the streamed reply; the repaired one replaces it
+            sendEvent(controller, { type: 'format_repair', problems: remaining });
+            const repairInput: ResponseInputItem[] = [{ role: 'user', content: repairPrompt(remaining, roadmapMode) }];
+            const repairFrom = reply.responseId;
+            reply = await runTurns(await openStreamWithRetry(() => startTurn(repairInput, repairFrom), { signal }));
+            if (!reply.awaitingApproval) {
+              remaining = formatProblems(reply.text);
             }
-            
-            // Handle text deltas
-            if (chunk.type === 'response.output_text.delta' && typeof chunk.delta === 'string') {
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'content', content: chunk.delta })}\n\n`
-              ));
-              continue;
+          }
+          if (found.length > 0) {
+            sendEvent(controller, { type: 'format_report', fixed: found.filter(p => !remaining.includes(p)), remaining });
+          }
+
+          const roadmapText = roadmapMode ? reply.text : '';
+          if (roadmapText) {
+            const { roadmap, errors } = parseRoadmap(roadmapText);
+            if (errors.length > 0) {
+              logger.warn(`Roadmap output failed validation: ${errors.join('; ')}`);
             }
+            sendEvent(controller, { type: 'roadmap', roadmap, errors });
+            // Markdown rendering for the chat transcript; the raw text when the JSON is unusable
+            sendEvent(controller, { type: 'content', content: roadmap ? roadmapToMarkdown(roadmap) : roadmapText });
           }
           controller.enqueue(encoder.encode('data: [DONE]\n\n'));
           controller.close();
         } catch (error) {
-          // Surface a structured SSE error before closing
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({ type: 'error', message: error instanceof Error ? error.message : 'Unknown stream error' })}\n\n`
-            )
-          );
-          logger.error('Stream error:', error);
+          if (signal.aborted) {
+            // The client went away; there is no one left to send an error to
+            logger.info('Response stream cancelled by client');
+            return;
+          }
+          // Surface a typed SSE error before closing
+          const info = classifyLLMError(error);
+          sendEvent(controller, { type: 'error', ...info });
+          logger.error(`Stream error (${info.code}):`, error);
           controller.enqueue(encoder.encode('data: [DONE]\n\n'));
           controller.close();
         }
+      },
+      cancel() {
+        abortController.abort();
       }
     });
 
@@ -154,30 +494,14 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    logger.error('Azure OpenAI API Error:', error);
-    
-    if (error instanceof Error) {
-      if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-        return NextResponse.json(
-          { error: 'Authentication failed. Please check your Azure API key.' },
-          { status: 401 }
-        );
-      } else if (error.message.includes('404')) {
-        return NextResponse.json(
-          { error: 'Azure OpenAI endpoint or deployment not found. Please check your configuration.' },
-          { status: 404 }
-        );
-      } else if (error.message.includes('429')) {
-        return NextResponse.json(
-          { error: 'Rate limit exceeded. Please try again later.' },
-          { status: 429 }
-        );
-      }
-    }
-    
+    const info = classifyLLMError(error);
+    logger.error(`LLM request failed (${info.code}):`, error);
     return NextResponse.json(
-      { error: `Failed to get response from Azure OpenAI: ${error instanceof Error ? error.message : 'Unknown error'}` },
-      { status: 500 }
+      { error: info.message, ...info },
+      {
+        status: LLM_ERROR_STATUS[info.code],
+        ...(info.retryAfter !== undefined ? { headers: { 'Retry-After': String(Math.ceil(info.retryAfter)) } } : {}),
+      }
     );
   }
 }
@@ -194,24 +518,21 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    if (!aoaiClient) {
+    const provider = getLLMProvider();
+    if (!provider) {
       return NextResponse.json(
-        { error: 'Azure OpenAI client not configured. Check environment variables.' },
+        { error: 'LLM provider not configured. Check environment variables.' },
         { status: 500 }
       );
     }
 
-    const { repositoryContext, previousResponseId }: { 
-      repositoryContext: {
-        id: number;
-        name: string;
-        full_name: string;
-        description: string | null;
-        private: boolean;
-        html_url: string;
-        language: string | null;
-      },
-      previousResponseId?: string
+    const { repositoryContext, program, previousResponseId, conversationId }: { 
+      repositoryContext: RepositoryInfo & { id: number },
+      // Set when a multi-repository program is the active context; repositoryContext is its primary
+      program?: { name: string; repositories: RepositoryInfo[] },
+      previousResponseId?: string,
+      // Thread to record token usage on
+      conversationId?: string
     } = await request.json();
 
     if (!repositoryContext) {
@@ -222,50 +543,69 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    logger.info(`Updating repository context for: ${repositoryContext.full_name}`);
-
-    const assistantMessage = {
-      role: 'assistant',
-      content: `Active repository has been set to: ${repositoryContext.full_name}
+    // Every repository costs several GitHub calls, so the program is held to the limits the editor enforces
+    if (program !== undefined) {
+      const problem = isRecord(program) && typeof program.name === 'string' && Array.isArray(program.repositories)
+        ? program.repositories.every(r => isRecord(r) && typeof r.full_name === 'string')
+          ? validateProgram(program)
+          : 'Program repositories must have a full_name'
+        : 'Program must have a name and a list of repositories';
+      if (problem) {
+        return NextResponse.json({ error: problem }, { status: 400 });
+      }
+    }
 
-Repository Details:
-- Name: ${repositoryContext.name}
-- Full Name: ${repositoryContext.full_name}
-- Description: ${repositoryContext.description || 'No description available'}
-- Private: ${repositoryContext.private ? 'Yes' : 'No'}
-- Primary Language: ${repositoryContext.language || 'Not specified'}
-- URL: ${repositoryContext.html_url}
+    const accessToken = token.accessToken;
+    logger.info(`Updating repository context for: ${program?.repositories.length ? `program ${program.name}` : repositoryContext.full_name}`);
 
-This repository is now the active context for all subsequent project management tasks, issue creation, and development planning.`
-    };
+    // README, labels, milestones, open issues and languages; sections GitHub can't provide are left out
+    const refreshedAt = new Date().toISOString();
+    const content = program?.repositories.length
+      ? formatProgramContext(
+          program.name,
+          await Promise.all(program.repositories.map(async repository => ({
+            repository,
+            digest: await fetchRepositoryDigest(accessToken, repository.full_name),
+          }))),
+          refreshedAt
+        )
+      : formatRepositoryContext(repositoryContext, await fetchRepositoryDigest(accessToken, repositoryContext.full_name), refreshedAt);
 
-    const responseCreateParams: Record<string, unknown> = {
-      model: deployment,
-      input: [assistantMessage],
-      stream: false,
+    const assistantMessage: ResponseInputItem = {
+      role: 'assistant',
+      content
     };
 
-    // Add previous response ID for conversation continuity
-    if (previousResponseId) {
-      responseCreateParams.previous_response_id = previousResponseId;
-    }
+    // Chain to the previous response ID for conversation continuity. Not retried: a failure
+    // after the service accepted the request would chain the context twice
+    const { responseId, usage } = await provider.updateContext([assistantMessage], previousResponseId);
 
-    const response = await aoaiClient.responses.create(responseCreateParams);
+    logger.info(`Repository context updated successfully. Response ID: ${responseId}`);
 
-    logger.info(`Repository context updated successfully. Response ID: ${response.id}`);
+    // The chained history and the digests are billed as input, so this counts like any turn
+    const record: UsageRecord | null = usage
+      ? { responseId, model: provider.model, createdAt: new Date().toISOString(), usage }
+      : null;
+    if (record && conversationId && token.sub) {
+      await recordUsage(token.sub, conversationId, record)
+        .catch(error => logger.error('Failed to record token usage:', error));
+    }
     
     return NextResponse.json({ 
       success: true, 
-      responseId: response.id,
+      responseId,
+      refreshedAt,
+      usage: record,
       message: 'Repository context updated successfully' 
     });
 
   } catch (error) {
-    logger.error('Repository context update error:', error);
+    const info = classifyLLMError(error);
+    logger.error(`Repository context update error (${info.code}):`, error);
     
     return NextResponse.json(
-      { error: `Failed to update repository context: ${error instanceof Error ? error.message : 'Unknown error'}` },
-      { status: 500 }
+      { error: `Failed to update repository context: ${info.message}`, ...info },
+      { status: LLM_ERROR_STATUS[info.code] }
     );
   }
 }
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { isRecord } from "@/lib/util";
+import { GitHubError, githubFailure, githubPaginate, githubRequest } from "@/lib/github-client";
+import {
+  type SprintApplyResult,
+  type SprintAssignment,
+  type SprintMilestone,
+  type SprintPlanInput,
+  parseSprintWindow,
+  planSprints,
+  validateSprintPlan,
+} from "@/lib/sprints";
+
+interface GitHubMilestone {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  description: string | null;
+  html_url: string;
+  open_issues: number;
+  closed_issues: number;
+}
+
+async function listMilestones(accessToken: string, repoPath: string): Promise<GitHubMilestone[]> {
+  return githubPaginate<GitHubMilestone>(accessToken, `${repoPath}/milestones?state=all`);
+}
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const owner = request.nextUrl.searchParams.get("owner");
+  const repo = request.nextUrl.searchParams.get("repo");
+  if (!owner || !repo) {
+    return NextResponse.json({ error: "Missing owner or repo" }, { status: 400 });
+  }
+
+  try {
+    const milestones = await listMilestones(token.accessToken, `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`);
+    // Sprint milestones are the ones whose description records a sprint window
+    const sprints: SprintMilestone[] = milestones.flatMap(milestone => {
+      const window = parseSprintWindow(milestone.description);
+      if (!window) return [];
+      return [{
+        number: milestone.number,
+        title: milestone.title,
+        state: milestone.state,
+        html_url: milestone.html_url,
+        startDate: window.startDate,
+        endDate: window.endDate,
+        open_issues: milestone.open_issues,
+        closed_issues: milestone.closed_issues,
+      }];
+    });
+    sprints.sort((a, b) => (a.startDate ?? '').localeCompare(b.startDate ?? ''));
+    return NextResponse.json(sprints);
+  } catch (error) {
+    logger.error('Failed to list sprint milestones:', error);
+    const { status, body } = githubFailure(error);
+    return NextResponse.json({ ...body, error: `Failed to list sprint milestones: ${body.error}` }, { status });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let payload: {
+    owner?: string;
+    repo?: string;
+    plan?: Partial<SprintPlanInput>;
+    assignments?: SprintAssignment[];
+  };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  const { owner, repo, plan, assignments = [] } = payload ?? {};
+
+  if (!owner || !repo) {
+    return NextResponse.json({ error: "Missing owner or repo" }, { status: 400 });
+  }
+  const planError = validateSprintPlan(plan ?? {});
+  if (planError) {
+    return NextResponse.json({ error: planError }, { status: 400 });
+  }
+  const sprints = planSprints(plan as SprintPlanInput);
+  const isAssignment = (a: unknown) => isRecord(a) && Number.isInteger(a.issueNumber)
+    && Number.isInteger(a.sprint) && (a.sprint as number) >= 0 && (a.sprint as number) < sprints.length;
+  if (!Array.isArray(assignments) || !assignments.every(isAssignment)) {
+    return NextResponse.json({ error: "Invalid issue assignments" }, { status: 400 });
+  }
+
+  const repoPath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const result: SprintApplyResult = { milestones: [], assigned: [], failed: [] };
+
+  try {
+    // Create missing sprint milestones and move existing ones to the planned dates
+    const existing = new Map((await listMilestones(token.accessToken, repoPath)).map(m => [m.title, m]));
+    for (const sprint of sprints) {
+      const current = existing.get(sprint.title);
+      const body = {
+        title: sprint.title,
+        description: sprint.description,
+        due_on: `${sprint.endDate}T23:59:59Z`,
+      };
+      const { data: milestone } = await githubRequest<GitHubMilestone>(
+        token.accessToken,
+        current ? `${repoPath}/milestones/${current.number}` : `${repoPath}/milestones`,
+        { method: current ? 'PATCH' : 'POST', body }
+      ).catch((error: unknown) => {
+        throw error instanceof GitHubError
+          ? new GitHubError({ ...error, message: `Failed to ${current ? 'update' : 'create'} milestone "${sprint.title}": ${error.message}` })
+          : error;
+      });
+      result.milestones.push({
+        sprint: sprint.index,
+        title: milestone.title,
+        number: milestone.number,
+        html_url: milestone.html_url,
+        status: current ? 'updated' : 'created',
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to create sprint milestones:', error);
+    const { status, body } = githubFailure(error);
+    return NextResponse.json(body, { status });
+  }
+
+  for (const { issueNumber, sprint } of assignments) {
+    const milestone = result.milestones[sprint];
+    try {
+      await githubRequest(token.accessToken, `${repoPath}/issues/${issueNumber}`, {
+        method: 'PATCH',
+        body: { milestone: milestone.number },
+      });
+      result.assigned.push({ issueNumber, milestone: milestone.title });
+    } catch (error) {
+      result.failed.push({ issueNumber, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  logger.info(`Sprint plan applied to ${owner}/${repo}: ${result.milestones.length} milestones, ${result.assigned.length} issues assigned, ${result.failed.length} failed`);
+  return NextResponse.json(result);
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { logger } from "@/lib/logger";
+import { getConversation, listUsage } from "@/lib/conversation-store";
+import { loadPriceTable } from "@/lib/prices";
+import { type UsageReport, totalUsage } from "@/lib/usage";
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.accessToken || !token.sub) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const conversationId = request.nextUrl.searchParams.get("conversationId");
+
+  try {
+    const conversation = conversationId ? await getConversation(token.sub, conversationId) : null;
+    const report: UsageReport = {
+      conversation: conversation ? totalUsage(conversation.usage ?? []) : null,
+      user: totalUsage(await listUsage(token.sub)),
+      prices: await loadPriceTable(),
+    };
+    return NextResponse.json(report);
+  } catch (error) {
+    logger.error('Failed to load usage:', error);
+    return NextResponse.json({ error: "Failed to load usage" }, { status: 500 });
+  }
+}
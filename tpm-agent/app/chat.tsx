@@ -1,279 +1,598 @@
 'use client'
 
-import { useState, useEffect, useRef } from "react";
-import { streamResponses, updateRepositoryContext } from "@/lib/azure-openai";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { isAbortError, streamResponses, updateRepositoryContext, type StreamOptions } from "@/lib/azure-openai";
+import { LLMRequestError } from "@/lib/llm-errors";
+import type { ApprovalMode } from "@/lib/approvals";
+import { APPROVAL_MODE_LABELS } from "@/lib/approvals";
+import { applyActivityEvent } from "@/lib/activity";
+import { type ChatMessage, getConversation, updateConversation } from "@/lib/conversations";
+import { editMessage, switchBranch } from "@/lib/branches";
+import { type PersonaSummary, DEFAULT_PERSONA_ID, fetchPersonas } from "@/lib/personas";
+import { roadmapTasks } from "@/lib/roadmap";
+import { isRepositoryContextStale } from "@/lib/repository-context";
+import {
+  type CommandAction,
+  type CommandContext,
+  type SlashSuggestion,
+  commandUsage,
+  parseSlashCommand,
+  slashSuggestions
+} from "@/lib/slash-commands";
+import { contextVariables } from "@/lib/prompt-templates";
+import type { IssueContext } from "@/lib/issue-detail";
+import {
+  type AttachmentSummary,
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENT_BYTES,
+  MAX_MESSAGE_ATTACHMENT_CHARACTERS,
+  attachmentCharacters,
+  attachmentKind,
+  formatBytes,
+  uploadAttachment,
+} from "@/lib/attachments";
 import ReactMarkdown from 'react-markdown';
 import { useToast } from './utils/toast';
 import { useRepository } from './context/repository';
-import { useO365Integration } from './hooks/useO365Integration';
 import { logger } from '@/lib/logger';
+import ApprovalCard from './components/ApprovalCard';
+import ActivityTimeline from './components/ActivityTimeline';
+import ConversationSidebar from './components/ConversationSidebar';
+import UsagePanel from './components/UsagePanel';
+import AttachmentList from './components/AttachmentList';
+import SlashCommandPopover from './components/SlashCommandPopover';
+import PromptLibraryDialog from './components/PromptLibraryDialog';
+import { useConversations } from './hooks/useConversations';
+import { useO365Integration } from './hooks/useO365Integration';
+
+type Message = ChatMessage;
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
+// Debounce for persisting the active thread to the conversation store
+const SAVE_DELAY = 500; // ms
+
+interface ChatProps {
+  // Switch to the Roadmap view
+  onOpenRoadmap?: () => void;
+  // Issue the user asked about from the issues view; sent ahead of their next message
+  issueContext?: IssueContext | null;
+  // Called once the issue context was sent or dismissed
+  onIssueContextUsed?: () => void;
 }
 
-export default function Chat() {
+export default function Chat({ onOpenRoadmap, issueContext, onIssueContextUsed }: ChatProps) {
   const { showToast } = useToast();
-  const { selectedRepository, lastUpdatedRepositoryId, markRepositoryContextUpdated } = useRepository();
-  const { sendEmail, createPresentation, scheduleMeeting } = useO365Integration();
-  const [messages, setMessages] = useState<Message[]>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('chatMessages');
-      if (saved) {
-        const parsedMessages = JSON.parse(saved) as Array<Partial<Message>>;
-        return parsedMessages.map((msg, index: number) => ({
-          ...msg,
-          id: msg.id || `legacy-${index}-${Date.now()}`
-        })) as Message[];
-      }
-    }
-    return [];
-  });
+  const {
+    selectedRepository,
+    setSelectedRepository,
+    lastUpdatedRepositoryId,
+    markRepositoryContextUpdated,
+    approvalMode,
+    setApprovalMode,
+    activeProgram,
+    setActiveProgram,
+    contextRepositories
+  } = useRepository();
+  const o365 = useO365Integration();
+  const conversations = useConversations();
+  const { activeId, applyUpdate } = conversations;
+  const [messages, setMessages] = useState<Message[]>([]);
   const [currentMessage, setCurrentMessage] = useState("");
+  // Uploaded files waiting to be sent with the next message
+  const [pendingAttachments, setPendingAttachments] = useState<AttachmentSummary[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  // Highlighted slash-command suggestion, and whether Escape closed the popover for this input
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  // Set when a command with errors was sent, so the errors show until the input is cleared
+  const [showCommandErrors, setShowCommandErrors] = useState(false);
+  const [showPromptLibrary, setShowPromptLibrary] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [lastResponseId, setLastResponseId] = useState<string | null>(() => {
+  // Whether the failed request may succeed if sent again
+  const [errorRetryable, setErrorRetryable] = useState(false);
+  const [lastResponseId, setLastResponseId] = useState<string | null>(null);
+  // ID of the thread whose messages are currently in state; saving waits until it matches activeId
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  // What the store last held for the loaded thread, so opening a thread doesn't save it back
+  const savedRef = useRef<{ messages: Message[]; previousResponseId: string | null } | null>(null);
+  const [isUpdatingRepository, setIsUpdatingRepository] = useState(false);
+  // When the repository context was last sent into the loaded thread
+  const [repositoryContextAt, setRepositoryContextAt] = useState<string | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  // Bumped on every usage event so the usage panel refetches
+  const [usageVersion, setUsageVersion] = useState(0);
+  const [personas, setPersonas] = useState<PersonaSummary[]>([]);
+  const [personaId, setPersonaId] = useState<string>(DEFAULT_PERSONA_ID);
+  const [structuredRoadmap, setStructuredRoadmap] = useState(() => {
     if (typeof window !== 'undefined') {
-      return localStorage.getItem('lastResponseId');
+      return localStorage.getItem('structuredRoadmap') === 'true';
     }
-    return null;
+    return false;
+  });
+  // Per-persona strict format choices; personas without one use their own strictFormat setting
+  const [strictFormatByPersona, setStrictFormatByPersona] = useState<Record<string, boolean>>(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        return JSON.parse(localStorage.getItem('strictFormat') || '{}');
+      } catch {
+        return {};
+      }
+    }
+    return {};
   });
-  const [isUpdatingRepository, setIsUpdatingRepository] = useState(false);
   const chatLogRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Arguments of the latest streamAssistantReply call, replayed by the Retry button
+  const lastRequestRef = useRef<{ messageContent: string; options: StreamOptions; previousResponseId: string | null } | null>(null);
+  const supportsRoadmapMode = personas.find(p => p.id === personaId)?.structuredOutput === 'roadmap';
+  const strictFormat = strictFormatByPersona[personaId] ?? personas.find(p => p.id === personaId)?.strictFormat ?? false;
+  const commandContext = useMemo<CommandContext>(
+    () => ({ personas, repositories: contextRepositories.map(r => r.full_name) }),
+    [personas, contextRepositories]
+  );
+  const parsedCommand = useMemo(() => parseSlashCommand(currentMessage, commandContext), [currentMessage, commandContext]);
+  const suggestions = useMemo(
+    () => (suggestionsDismissed ? [] : slashSuggestions(currentMessage, commandContext)),
+    [currentMessage, commandContext, suggestionsDismissed]
+  );
+  const commandErrors = showCommandErrors ? parsedCommand?.errors ?? [] : [];
+  const templateContext = useMemo(() => contextVariables(selectedRepository, activeProgram), [selectedRepository, activeProgram]);
+  const activeIdRef = useRef(activeId);
+  activeIdRef.current = activeId;
+  // Read when a thread loads, without reloading the thread whenever the program list changes
+  const setActiveProgramRef = useRef(setActiveProgram);
+  setActiveProgramRef.current = setActiveProgram;
 
   const clearChatHistory = async () => {
     setMessages([]);
     setError(null);
     setLastResponseId(null);
-    localStorage.removeItem('chatMessages');
-    localStorage.removeItem('lastResponseId');
     // Reset repository context update tracking to force re-update when needed
     markRepositoryContextUpdated(null);
   };
 
-  const handleSend = async () => {
-    if (currentMessage.trim() && !isLoading) {
-      const messageContent = currentMessage; // Store the message before clearing
+  // Append an assistant message and stream the model's reply into it
+  const streamAssistantReply = async (
+    messageContent: string,
+    options: StreamOptions = {},
+    previousResponseId: string | null = lastResponseId
+  ) => {
+    lastRequestRef.current = { messageContent, options, previousResponseId };
+    // Add empty assistant message for streaming
+    const assistantMessage: Message = { 
+      id: `temp-${Date.now()}-${Math.random()}`,
+      role: 'assistant', 
+      content: '' 
+    };
+    setMessages(prev => [...prev, assistantMessage]);
+    
+    let accumulatedContent = '';
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const stream = streamResponses(
+      messageContent,
+      previousResponseId || undefined,
+      {
+        repository: selectedRepository?.full_name,
+        personaId,
+        structuredRoadmap: supportsRoadmapMode && structuredRoadmap,
+        strictFormat: supportsRoadmapMode && strictFormat,
+        conversationId: loadedId ?? undefined,
+        ...options,
+        signal: abortController.signal }
+    );
+    
+    try {
+      for await (const chunk of stream) {
+        if (chunk.type === 'response_id') {
+          // Update with real response ID and save for next request
+          setLastResponseId(chunk.id);
+          setMessages(prev => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage.role === 'assistant') {
+              lastMessage.id = chunk.id;
+            }
+            return newMessages;
+          });
+        } else if (chunk.type === 'content') {
+          accumulatedContent += chunk.content;
+          setMessages(prev => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage.role === 'assistant') {
+              lastMessage.content = accumulatedContent;
+            }
+            return newMessages;
+          });
+        } else if (chunk.type === 'approval_request') {
+          setMessages(prev => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage.role === 'assistant') {
+              newMessages[newMessages.length - 1] = {
+                ...lastMessage,
+                approvals: [...(lastMessage.approvals ?? []), chunk.approval]
+              };
+            }
+            return newMessages;
+          });
+        } else if (chunk.type === 'roadmap') {
+          setMessages(prev => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage.role === 'assistant') {
+              newMessages[newMessages.length - 1] = {
+                ...lastMessage,
+                roadmap: chunk.roadmap,
+                roadmapErrors: chunk.errors
+              };
+            }
+            return newMessages;
+          });
+        } else if (chunk.type === 'format_repair') {
+          // The server is asking the model to fix the reply; the repaired text streams in its place
+          accumulatedContent = '';
+          setMessages(prev => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage.role === 'assistant') {
+              newMessages[newMessages.length - 1] = { ...lastMessage, content: '' };
+            }
+            return newMessages;
+          });
+        } else if (chunk.type === 'format_report') {
+          setMessages(prev => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage.role === 'assistant') {
+              newMessages[newMessages.length - 1] = {
+                ...lastMessage,
+                formatRepair: { fixed: chunk.fixed, remaining: chunk.remaining }
+              };
+            }
+            return newMessages;
+          });
+        } else if (chunk.type === 'notice') {
+          showToast(chunk.message, 'info');
+        } else if (chunk.type === 'usage') {
+          setUsageVersion(v => v + 1);
+        } else if (chunk.type === 'activity') {
+          setMessages(prev => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage.role === 'assistant') {
+              newMessages[newMessages.length - 1] = {
+                ...lastMessage,
+                activity: applyActivityEvent(lastMessage.activity ?? [], chunk.activity)
+              };
+            }
+            return newMessages;
+          });
+        }
+      }
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+      // Keep the partial answer, but continue the chain from before it:
+      // the stopped response may not have been stored by the service
+      setLastResponseId(previousResponseId);
+      setMessages(prev => {
+        const newMessages = [...prev];
+        const lastMessage = newMessages[newMessages.length - 1];
+        if (lastMessage.role === 'assistant') {
+          newMessages[newMessages.length - 1] = { ...lastMessage, interrupted: true };
+        }
+        return newMessages;
+      });
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleStreamError = (error: unknown) => {
+    logger.error('Error getting AI response:', error);
+    const errorMessage = error instanceof LLMRequestError
+      ? error.userMessage
+      : error instanceof Error ? error.message : 'An unexpected error occurred';
+    setError(errorMessage);
+    setErrorRetryable(error instanceof LLMRequestError ? error.retryable : true);
+    
+    // Remove the empty assistant message and add error message
+    setMessages(prev => {
+      const newMessages = [...prev];
+      const lastMessage = newMessages[newMessages.length - 1];
+      if (lastMessage?.role === 'assistant' && !lastMessage.content && !lastMessage.approvals?.length) {
+        newMessages.pop();
+      }
+      return [...newMessages, { 
+        id: `error-${Date.now()}-${Math.random()}`,
+        role: 'assistant', 
+        content: `Error: ${errorMessage}` 
+      }];
+    });
+  };
+
+  // Send the failed request again from the same point in the thread
+  const handleRetry = async () => {
+    const request = lastRequestRef.current;
+    if (!request || isLoading) return;
+
+    setMessages(prev => prev.filter((m, i) => !(i === prev.length - 1 && m.id.startsWith('error-'))));
+    setLastResponseId(request.previousResponseId);
+    setIsLoading(true);
+    setError(null);
+    try {
+      await streamAssistantReply(request.messageContent, request.options, request.previousResponseId);
+    } catch (error) {
+      handleStreamError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Upload picked files; each is checked here first so obvious rejects skip the round trip
+  const handleAttachFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length;
+    if (files.length > room) {
+      showToast(`At most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments can be sent with a message`, 'error');
+    }
+
+    setIsUploading(true);
+    let characters = attachmentCharacters(pendingAttachments);
+    try {
+      for (const file of Array.from(files).slice(0, Math.max(room, 0))) {
+        if (!attachmentKind(file.name)) {
+          showToast(`Unsupported file type: ${file.name}`, 'error');
+          continue;
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+          showToast(`${file.name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`, 'error');
+          continue;
+        }
+        try {
+          // Files that don't fit the room left are rejected by the server before anything is stored
+          const attachment = await uploadAttachment(file, Math.max(MAX_MESSAGE_ATTACHMENT_CHARACTERS - characters, 0));
+          characters += attachment.characters;
+          setPendingAttachments(prev => [...prev, attachment]);
+          if (attachment.truncated) {
+            showToast(`${file.name} is long; only the first ${attachment.characters.toLocaleString()} characters will be sent`, 'info');
+          }
+        } catch (error) {
+          logger.error(`Failed to upload ${file.name}:`, error);
+          showToast(error instanceof Error ? error.message : `Failed to upload ${file.name}`, 'error');
+        }
+      }
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  // Send the repository context again when it has gone stale; returns the response ID to chain from
+  const refreshStaleRepositoryContext = async (): Promise<string | null> => {
+    if (!selectedRepository || !loadedId ||
+        selectedRepository.id !== lastUpdatedRepositoryId ||
+        !isRepositoryContextStale(repositoryContextAt)) {
+      return lastResponseId;
+    }
+
+    const conversationId = loadedId;
+    setIsUpdatingRepository(true);
+    try {
+      const result = await updateRepositoryContext(selectedRepository, lastResponseId || undefined, activeProgram, conversationId);
+      if (result.usage) {
+        setUsageVersion(v => v + 1);
+      }
+      if (!result.success || !result.responseId) {
+        // Not fatal: the thread still has the older context
+        logger.warn('Failed to refresh repository context:', result.error);
+        return lastResponseId;
+      }
+      setLastResponseId(result.responseId);
+      setRepositoryContextAt(result.refreshedAt ?? null);
+      updateConversation(conversationId, { previousResponseId: result.responseId, repositoryContextAt: result.refreshedAt })
+        .then(applyUpdate)
+        .catch((error) => logger.error('Failed to save conversation repository:', error));
+      return result.responseId;
+    } finally {
+      setIsUpdatingRepository(false);
+    }
+  };
+
+  const sendMessage = async (messageContent: string, attachments: AttachmentSummary[]) => {
+    setIsLoading(true);
+    setError(null);
+
+    // O365 actions (email, meetings, decks, Planner) run as function tools on the server
+    try {
+      const previousResponseId = await refreshStaleRepositoryContext();
       const userMessage: Message = { 
         id: `user-${Date.now()}-${Math.random()}`,
         role: 'user', 
-        content: messageContent 
+        content: messageContent,
+        ...(attachments.length ? { attachments } : {}),
+        parentResponseId: previousResponseId
       };
-      
-      setCurrentMessage("");
-      setIsLoading(true);
-      setError(null);
+      // Add user message to messages (using the stored messageContent)
+      setMessages(prev => [...prev, userMessage]);
+      await streamAssistantReply(
+        messageContent,
+        attachments.length ? { attachmentIds: attachments.map(a => a.id) } : {},
+        previousResponseId
+      );
+    } catch (error) {
+      handleStreamError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Check for O365 commands first (using stored messageContent)
-      const lowerMessage = messageContent.toLowerCase();
-      
-      // Handle email requests
-      if ((lowerMessage.includes('send') && lowerMessage.includes('email')) || 
-          lowerMessage.includes('send email')) {
-        // Add user message for O365 commands
-        setMessages(prev => [...prev, userMessage]);
-        
-        try {
-          // Extract email address if provided, otherwise use default
-          const emailMatch = messageContent.match(/[\w._%+-]+@[\w.-]+\.[A-Za-z]{2,}/);
-          const to = emailMatch ? [emailMatch[0]] : ['sakriema@microsoft.com'];
-          
-          let subject = 'Project Status Update from TPM Agent';
-          let body = `
-            <h1>Project Status Update</h1>
-            <p>This email was sent via TPM Agent with O365 integration.</p>
-            <h2>Key Updates</h2>
-            <ul>
-              <li>Repository analysis completed</li>
-              <li>O365 integration functional</li>
-              <li>AI-powered project management operational</li>
-            </ul>
-            <p>Best regards,<br>TPM Agent</p>
-          `;
-
-          // Try to extract subject from message
-          const subjectMatch = messageContent.match(/subject[:\s]+"([^"]+)"/i);
-          if (subjectMatch) {
-            subject = subjectMatch[1];
-          }
+  // O365 commands call /api/o365 directly; the command and its outcome are recorded in the
+  // thread without going through the model
+  const runO365Command = async (action: Exclude<CommandAction, { type: 'prompt' | 'setPersona' }>) => {
+    switch (action.type) {
+      case 'sendEmail': {
+        const result = await o365.sendEmail(action.to, action.subject, action.body, false);
+        return result.success ? `Email "${action.subject}" sent to ${action.to.join(', ')}.` : `Email not sent: ${result.error}`;
+      }
+      case 'createMeeting': {
+        const start = new Date(action.start);
+        const result = await o365.scheduleMeeting(action.subject, start, new Date(action.end), action.attendees, action.body);
+        return result.success
+          ? `Meeting "${action.subject}" scheduled for ${start.toLocaleString()} with ${action.attendees.join(', ')}.`
+          : `Meeting not scheduled: ${result.error}`;
+      }
+      case 'createPlannerTask': {
+        const result = await o365.createPlannerTask(action.title, action.planId, '', []);
+        return result.success ? `Planner task "${action.title}" created.` : `Planner task not created: ${result.error}`;
+      }
+    }
+  };
 
-          const result = await sendEmail(to, subject, body);
-          
-          const assistantMessage: Message = {
-            id: `assistant-${Date.now()}-${Math.random()}`,
-            role: 'assistant',
-            content: result.success 
-              ? `✅ **Email sent successfully!**\n\n**Recipients:** ${to.join(', ')}\n**Subject:** ${subject}\n\nThe email has been delivered with project status information.`
-              : `❌ **Failed to send email.**\n\n**Error:** ${result.error}\n\nPlease check your O365 configuration and try again.`
-          };
-          
-          setMessages(prev => [...prev, assistantMessage]);
+  const runCommand = async (action: CommandAction, commandText: string) => {
+    switch (action.type) {
+      case 'prompt':
+        await sendMessage(action.message, []);
+        return;
+      case 'setPersona':
+        handlePersonaChange(action.personaId);
+        showToast(`Persona switched to ${personas.find(p => p.id === action.personaId)?.name ?? action.personaId}`, 'success');
+        return;
+      default: {
+        const id = `${Date.now()}-${Math.random()}`;
+        setMessages(prev => [...prev, { id: `user-${id}`, role: 'user', content: commandText, parentResponseId: lastResponseId }]);
+        setIsLoading(true);
+        try {
+          const content = await runO365Command(action);
+          setMessages(prev => [...prev, { id: `command-${id}`, role: 'assistant', content }]);
+        } finally {
           setIsLoading(false);
-          return;
-        } catch (error) {
-          logger.error('Error handling email command:', error);
         }
       }
-      
-      // Handle presentation requests
-      if (lowerMessage.includes('presentation') || lowerMessage.includes('powerpoint') || 
-          (lowerMessage.includes('create') && lowerMessage.includes('slides'))) {
-        // Add user message for O365 commands
-        setMessages(prev => [...prev, userMessage]);
-        
-        try {
-          const slides = [
-            { 
-              title: 'Project Status Update', 
-              content: 'TPM Agent - High-Level Status for Stakeholders\nDate: ' + new Date().toLocaleDateString()
-            },
-            { 
-              title: 'Project Overview', 
-              content: 'Objectives:\n• Automate project management with AI\n• Integrate GitHub and O365 capabilities\n• Enhance team productivity\n\nScope:\n• Repository management\n• Task automation\n• Communication tools'
-            },
-            { 
-              title: 'Current Progress', 
-              content: 'Completed:\n✅ Repository setup\n✅ GitHub integration\n✅ O365 integration\n✅ AI capabilities\n\nIn Progress:\n🔄 Testing & refinement\n🔄 Documentation'
-            },
-            { 
-              title: 'Key Metrics', 
-              content: 'Implementation:\n• Components: 15+\n• API endpoints: 5\n• Integrations: GitHub, Azure OpenAI, O365\n\nCapabilities:\n• Email automation\n• Presentation generation\n• Meeting scheduling\n• Task management'
-            },
-            { 
-              title: 'Risks & Mitigation', 
-              content: 'Identified Risks:\n• API rate limits → Implement caching\n• Authentication complexity → Enhanced error handling\n• User adoption → Comprehensive documentation\n\nMitigation strategies in place for all identified risks.'
-            },
-            { 
-              title: 'Next Steps', 
-              content: 'Immediate priorities:\n1. Complete test suite implementation\n2. Enhance error handling\n3. User documentation\n4. Production deployment preparation\n\nTimeline: Q4 2025'
-            }
-          ];
-          
-          const result = await createPresentation('Project Status Update', slides);
-          
-          const assistantMessage: Message = {
-            id: `assistant-${Date.now()}-${Math.random()}`,
-            role: 'assistant',
-            content: result.success 
-              ? `✅ **PowerPoint presentation created successfully!**\n\n**Title:** Project Status Update\n**Slides:** ${slides.length}\n\nThe presentation includes:\n• Project overview and objectives\n• Current progress and metrics\n• Risk assessment and mitigation\n• Next steps and timeline\n\nYou can find it in your OneDrive or SharePoint.`
-              : `❌ **Failed to create presentation.**\n\n**Error:** ${result.error}\n\nPlease check your O365 configuration and try again.`
-          };
-          
-          setMessages(prev => [...prev, assistantMessage]);
-          setIsLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if ((currentMessage.trim() || pendingAttachments.length) && !isLoading && !isUploading) {
+      if (parsedCommand) {
+        if (parsedCommand.errors.length > 0 || !parsedCommand.command) {
+          setShowCommandErrors(true);
           return;
-        } catch (error) {
-          logger.error('Error handling presentation command:', error);
         }
-      }
-      
-      // Handle meeting requests
-      if ((lowerMessage.includes('schedule') && lowerMessage.includes('meeting')) || 
-          lowerMessage.includes('create meeting') || lowerMessage.includes('book meeting')) {
-        // Add user message for O365 commands
-        setMessages(prev => [...prev, userMessage]);
-        
-        try {
-          const tomorrow = new Date();
-          tomorrow.setDate(tomorrow.getDate() + 1);
-          tomorrow.setHours(14, 0, 0, 0);
-          
-          const endTime = new Date(tomorrow);
-          endTime.setHours(15, 0, 0, 0);
-          
-          const result = await scheduleMeeting(
-            'Sprint Planning Meeting - TPM Agent',
-            tomorrow,
-            endTime,
-            ['team@microsoft.com'],
-            'Agenda:\n1. Review sprint goals\n2. Task estimation and assignment\n3. Resource allocation\n4. Timeline review\n\nGenerated by TPM Agent'
-          );
-          
-          const assistantMessage: Message = {
-            id: `assistant-${Date.now()}-${Math.random()}`,
-            role: 'assistant',
-            content: result.success 
-              ? `✅ **Meeting scheduled successfully!**\n\n**Subject:** Sprint Planning Meeting - TPM Agent\n**Date:** ${tomorrow.toLocaleDateString()}\n**Time:** 2:00 PM - 3:00 PM\n**Attendees:** team@microsoft.com\n\nA Teams link has been included in the meeting invite.`
-              : `❌ **Failed to schedule meeting.**\n\n**Error:** ${result.error}\n\nPlease check your O365 configuration and try again.`
-          };
-          
-          setMessages(prev => [...prev, assistantMessage]);
-          setIsLoading(false);
+        if (pendingAttachments.length > 0) {
+          showToast('Attachments can only be sent with a message, not with a command', 'error');
           return;
-        } catch (error) {
-          logger.error('Error handling meeting command:', error);
         }
+        const action = parsedCommand.command.run(parsedCommand.args, commandContext);
+        setCurrentMessage("");
+        setShowCommandErrors(false);
+        await runCommand(action, currentMessage.trim());
+        return;
       }
 
-      // If not an O365 command, proceed with regular AI chat
-      try {
-        // Add user message to messages (using the stored messageContent)
-        setMessages(prev => [...prev, userMessage]);
-        
-        // Add empty assistant message for streaming
-        const assistantMessage: Message = { 
-          id: `temp-${Date.now()}-${Math.random()}`,
-          role: 'assistant', 
-          content: '' 
-        };
-        setMessages(prev => [...prev, assistantMessage]);
-        
-        let accumulatedContent = '';
-        const stream = streamResponses(
-          messageContent,  // Use stored messageContent instead of currentMessage 
-          lastResponseId || undefined
-        );
-        
-        for await (const chunk of stream) {
-          if (chunk.type === 'response_id' && chunk.id) {
-            // Update with real response ID and save for next request
-            setLastResponseId(chunk.id);
-            setMessages(prev => {
-              const newMessages = [...prev];
-              const lastMessage = newMessages[newMessages.length - 1];
-              if (lastMessage.role === 'assistant') {
-                lastMessage.id = chunk.id!;
-              }
-              return newMessages;
-            });
-          } else if (chunk.type === 'content' && chunk.content) {
-            accumulatedContent += chunk.content;
-            setMessages(prev => {
-              const newMessages = [...prev];
-              const lastMessage = newMessages[newMessages.length - 1];
-              if (lastMessage.role === 'assistant') {
-                lastMessage.content = accumulatedContent;
-              }
-              return newMessages;
-            });
-          }
-        }
-      } catch (error) {
-        logger.error('Error getting AI response:', error);
-        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-        setError(errorMessage);
-        
-        // Remove the empty assistant message and add error message
-        setMessages(prev => {
-          const newMessages = [...prev];
-          if (newMessages[newMessages.length - 1]?.role === 'assistant') {
-            newMessages.pop();
-          }
-          return [...newMessages, { 
-            id: `error-${Date.now()}-${Math.random()}`,
-            role: 'assistant', 
-            content: `Error: ${errorMessage}` 
-          }];
-        });
-      } finally {
-        setIsLoading(false);
-      }
+      // A leading "//" sends a message that starts with a literal slash
+      const typed = currentMessage.replace(/^(\s*)\/\//, '$1/');
+      const messageContent = issueContext ? `${issueContext.prompt}\n\n---\n\n${typed}` : typed; // Store the message before clearing
+      const attachments = pendingAttachments;
+      
+      setCurrentMessage("");
+      setPendingAttachments([]);
+      if (issueContext) onIssueContextUsed?.();
+      await sendMessage(messageContent, attachments);
+    }
+  };
+
+  // Record a decision; once every request on the message is decided, send them all back
+  const handleApprovalDecision = async (messageId: string, approvalId: string, approve: boolean) => {
+    const target = messages.find(m => m.id === messageId);
+    if (!target?.approvals || isLoading) return;
+
+    const approvals = target.approvals.map(a => a.id === approvalId ? { ...a, decision: approve } : a);
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, approvals } : m));
+
+    if (approvals.some(a => a.decision === undefined)) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await streamAssistantReply('', {
+        approvals: approvals.map(a => ({ id: a.id, approve: a.decision === true }))
+      });
+    } catch (error) {
+      handleStreamError(error);
+    } finally {
+      setIsLoading(false);
     }
   };
 
+  // Fork the thread at an earlier user message and regenerate the reply from there
+  const handleEditSubmit = async (index: number) => {
+    const content = editDraft.trim();
+    setEditingIndex(null);
+    if (!content || isLoading || content === messages[index]?.content) return;
+
+    const attachmentIds = messages[index].attachments?.map(a => a.id);
+    const result = editMessage(messages, index, content, lastResponseId);
+    setMessages(result.messages);
+    setLastResponseId(result.responseId);
+    setIsLoading(true);
+    setError(null);
+    try {
+      await streamAssistantReply(content, attachmentIds?.length ? { attachmentIds } : {}, result.responseId);
+    } catch (error) {
+      handleStreamError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSwitchBranch = (index: number, target: number) => {
+    if (isLoading) return;
+    const result = switchBranch(messages, index, target, lastResponseId);
+    setMessages(result.messages);
+    setLastResponseId(result.responseId);
+  };
+
+  const handleMessageChange = (value: string) => {
+    setCurrentMessage(value);
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
+    if (!value.trim()) setShowCommandErrors(false);
+  };
+
+  const acceptSuggestion = (suggestion: SlashSuggestion) => {
+    handleMessageChange(suggestion.value);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length > 0) {
+      const active = suggestions[Math.min(suggestionIndex, suggestions.length - 1)];
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex(index => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      // Enter completes only the command name; afterwards it sends
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && /^\s*\/[\w-]*$/.test(currentMessage))) {
+        e.preventDefault();
+        acceptSuggestion(active);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -286,33 +605,110 @@ export default function Chat() {
     }
   }, [messages]);
 
+  // Load the active thread, restoring its response chain and repository
   useEffect(() => {
-    localStorage.setItem('chatMessages', JSON.stringify(messages));
-  }, [messages]);
+    if (!activeId) return;
+    let cancelled = false;
+    getConversation(activeId)
+      .then((conversation) => {
+        if (cancelled) return;
+        savedRef.current = { messages: conversation.messages, previousResponseId: conversation.previousResponseId };
+        setMessages(conversation.messages);
+        setLastResponseId(conversation.previousResponseId);
+        setPersonaId(conversation.personaId ?? DEFAULT_PERSONA_ID);
+        setRepositoryContextAt(conversation.repositoryContextAt ?? null);
+        setError(null);
+        if (conversation.repository) {
+          // Falls back to the repository alone when the program was deleted
+          if (!conversation.programId || !setActiveProgramRef.current(conversation.programId)) {
+            setSelectedRepository(conversation.repository);
+          }
+          markRepositoryContextUpdated(conversation.repository.id);
+        } else {
+          // New thread: send the current repository's context into it
+          markRepositoryContextUpdated(null);
+        }
+        setLoadedId(conversation.id);
+      })
+      .catch((error) => {
+        logger.error('Failed to load conversation:', error);
+        showToast('Failed to load conversation', 'error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId, setSelectedRepository, markRepositoryContextUpdated, showToast]);
 
   useEffect(() => {
-    if (lastResponseId) {
-      localStorage.setItem('lastResponseId', lastResponseId);
-    } else {
-      localStorage.removeItem('lastResponseId');
+    fetchPersonas()
+      .then(setPersonas)
+      .catch((error) => logger.error('Failed to load personas:', error));
+  }, []);
+
+  const handlePersonaChange = (id: string) => {
+    setPersonaId(id);
+    if (loadedId) {
+      updateConversation(loadedId, { personaId: id })
+        .then(applyUpdate)
+        .catch((error) => logger.error('Failed to save conversation persona:', error));
     }
-  }, [lastResponseId]);
+  };
+
+  const handleStructuredRoadmapChange = (enabled: boolean) => {
+    setStructuredRoadmap(enabled);
+    localStorage.setItem('structuredRoadmap', String(enabled));
+  };
+
+  const handleStrictFormatChange = (enabled: boolean) => {
+    const next = { ...strictFormatByPersona, [personaId]: enabled };
+    setStrictFormatByPersona(next);
+    localStorage.setItem('strictFormat', JSON.stringify(next));
+  };
+
+  // Persist the active thread once a reply has finished streaming
+  useEffect(() => {
+    if (!loadedId || loadedId !== activeId || isLoading) return;
+    const saved = savedRef.current;
+    if (saved && saved.messages === messages && saved.previousResponseId === lastResponseId) return;
+    const timer = setTimeout(() => {
+      savedRef.current = { messages, previousResponseId: lastResponseId };
+      updateConversation(loadedId, { messages, previousResponseId: lastResponseId })
+        .then(applyUpdate)
+        .catch((error) => logger.error('Failed to save conversation:', error));
+    }, SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [messages, lastResponseId, loadedId, activeId, isLoading, applyUpdate]);
 
   // Handle repository changes
   useEffect(() => {
     if (selectedRepository && 
+        loadedId && loadedId === activeId &&
         selectedRepository.id !== lastUpdatedRepositoryId && 
         !isUpdatingRepository) {
       setIsUpdatingRepository(true);
+      const conversationId = loadedId;
       
       // Update repository context when it changes
-      updateRepositoryContext(selectedRepository, lastResponseId || undefined)
+      updateRepositoryContext(selectedRepository, lastResponseId || undefined, activeProgram, conversationId)
         .then((result) => {
+          if (result.usage) {
+            setUsageVersion(v => v + 1);
+          }
           if (result.success) {
             markRepositoryContextUpdated(selectedRepository.id);
+            // Record the repository on the thread the context was sent into
+            updateConversation(conversationId, {
+              repository: selectedRepository,
+              repositoryContextAt: result.refreshedAt,
+              programId: activeProgram?.id ?? null,
+              ...(result.responseId ? { previousResponseId: result.responseId } : {})
+            })
+              .then(applyUpdate)
+              .catch((error) => logger.error('Failed to save conversation repository:', error));
             // Important: Update lastResponseId with the new response ID from developer message
-            if (result.responseId) {
+            if (result.responseId && activeIdRef.current === conversationId) {
               setLastResponseId(result.responseId);
+              setRepositoryContextAt(result.refreshedAt ?? null);
             }
             // Note: No toast here - toast is shown when repository is selected in repo.tsx
           } else {
@@ -328,7 +724,7 @@ export default function Chat() {
           setIsUpdatingRepository(false);
         });
     }
-  }, [selectedRepository, lastUpdatedRepositoryId, isUpdatingRepository, showToast, lastResponseId, markRepositoryContextUpdated]);
+  }, [selectedRepository, activeProgram, lastUpdatedRepositoryId, isUpdatingRepository, showToast, lastResponseId, markRepositoryContextUpdated, loadedId, activeId, applyUpdate]);
 
   const saveConversationAsMarkdown = () => {
     if (messages.length === 0) {
@@ -368,136 +764,428 @@ export default function Chat() {
   };
 
   return (
-    <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-900">
-      {/* Header with Clear Button */}
-      <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
-        <div>
-          <h1 className="text-xl font-semibold text-gray-900 dark:text-white">AI Chat</h1>
-        </div>
-        <div className="flex gap-2">
-          <button
-            onClick={saveConversationAsMarkdown}
-            className="px-3 py-1 text-sm bg-green-500 hover:bg-green-600 text-white rounded transition-colors"
-          >
-            Save as Markdown
-          </button>
-          <button
-            onClick={clearChatHistory}
-            className="px-3 py-1 text-sm bg-red-500 hover:bg-red-600 text-white rounded transition-colors"
-          >
-            Clear History
-          </button>
+    <div className="flex h-full">
+      <ConversationSidebar
+        conversations={conversations.conversations}
+        activeId={activeId}
+        disabled={isLoading || isUpdatingRepository}
+        onSelect={conversations.select}
+        onCreate={() => conversations.create()}
+        onRename={conversations.rename}
+        onDelete={conversations.remove}
+      />
+      <div className="flex flex-col flex-1 min-w-0 bg-gray-50 dark:bg-gray-900">
+        {/* Header with Clear Button */}
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">AI Chat</h1>
+          </div>
+          <div className="flex gap-2">
+            {personas.length > 0 && (
+              <select
+                value={personaId}
+                onChange={(e) => handlePersonaChange(e.target.value)}
+                disabled={isLoading}
+                title={personas.find(p => p.id === personaId)?.description}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+              >
+                {personas.map(persona => (
+                  <option key={persona.id} value={persona.id}>{persona.name}</option>
+                ))}
+              </select>
+            )}
+            {supportsRoadmapMode && (
+              <label
+                className="flex items-center gap-1 px-2 text-sm text-gray-700 dark:text-gray-200"
+                title="Answer with a structured roadmap that can be edited in the Roadmap view"
+              >
+                <input
+                  type="checkbox"
+                  checked={structuredRoadmap}
+                  onChange={(e) => handleStructuredRoadmapChange(e.target.checked)}
+                />
+                Roadmap mode
+              </label>
+            )}
+            {supportsRoadmapMode && (
+              <label
+                className="flex items-center gap-1 px-2 text-sm text-gray-700 dark:text-gray-200"
+                title="Check every task for Description, Acceptance Criteria and Implementation Prompt, and have the agent fix replies that miss one"
+              >
+                <input
+                  type="checkbox"
+                  checked={strictFormat}
+                  onChange={(e) => handleStrictFormatChange(e.target.checked)}
+                />
+                Strict format
+              </label>
+            )}
+            {selectedRepository && (
+              <select
+                value={approvalMode}
+                onChange={(e) => setApprovalMode(e.target.value as ApprovalMode).catch((error) => {
+                  logger.error('Failed to save approval policy:', error);
+                  showToast('Failed to save the approval policy', 'error');
+                })}
+                title={`Tool approval policy for ${selectedRepository.full_name}`}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+              >
+                {(Object.keys(APPROVAL_MODE_LABELS) as ApprovalMode[]).map(mode => (
+                  <option key={mode} value={mode}>{APPROVAL_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            )}
+            <UsagePanel conversationId={loadedId} refreshKey={usageVersion} />
+            <button
+              onClick={saveConversationAsMarkdown}
+              className="px-3 py-1 text-sm bg-green-500 hover:bg-green-600 text-white rounded transition-colors"
+            >
+              Save as Markdown
+            </button>
+            <button
+              onClick={clearChatHistory}
+              className="px-3 py-1 text-sm bg-red-500 hover:bg-red-600 text-white rounded transition-colors"
+            >
+              Clear History
+            </button>
+          </div>
         </div>
-      </div>
 
-      {/* Error Banner */}
-      {error && (
-        <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-200 px-4 py-3 text-sm">
-          <strong>Error:</strong> {error}
-          <button 
-            onClick={() => setError(null)} 
-            className="ml-2 text-red-500 hover:text-red-700 dark:text-red-300 dark:hover:text-red-100"
-          >
-            ×
-          </button>
-        </div>
-      )}
-      
-      {/* Chat Log */}
-      <div ref={chatLogRef} className="flex-1 overflow-y-auto p-4 space-y-3">
-        {messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
-            <p>Start a conversation by typing a message below.</p>
+        {/* Error Banner */}
+        {error && (
+          <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-200 px-4 py-3 text-sm">
+            <strong>Error:</strong> {error}
+            {errorRetryable && lastRequestRef.current && (
+              <button
+                onClick={handleRetry}
+                disabled={isLoading}
+                className="ml-2 px-2 py-0.5 text-xs bg-red-500 hover:bg-red-600 disabled:bg-red-300 text-white rounded transition-colors"
+              >
+                Retry
+              </button>
+            )}
+            <button 
+              onClick={() => setError(null)} 
+              className="ml-2 text-red-500 hover:text-red-700 dark:text-red-300 dark:hover:text-red-100"
+            >
+              ×
+            </button>
           </div>
-        ) : (
-          messages.map((message) => (
-            <div key={message.id} className={`p-3 rounded-lg shadow-sm max-w-2xl ${
-              message.role === 'user' 
-                ? 'bg-blue-100 dark:bg-blue-900 ml-auto' 
-                : 'bg-white dark:bg-gray-800'
-            }`}>
-              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1 capitalize">
-                {message.role === 'assistant' ? 'AI' : 'You'}
-              </div>
-              <div className="prose prose-sm max-w-none text-gray-800 dark:text-gray-200 dark:prose-invert">
-                <ReactMarkdown
-                  components={{
-                    // Customize code blocks
-                    code: ({ className, children, ...props }) => {
-                      const isInline = !className || !className.includes('language-');
-                      return isInline ? (
-                        <code className="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded text-sm" {...props}>
-                          {children}
-                        </code>
-                      ) : (
-                        <pre className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg overflow-x-auto">
-                          <code className={className} {...props}>
-                            {children}
-                          </code>
-                        </pre>
-                      );
-                    },
-                    // Customize links
-                    a: ({ href, children }) => (
-                      <a 
-                        href={href} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-blue-600 dark:text-blue-400 hover:underline"
+        )}
+        
+        {/* Chat Log */}
+        <div ref={chatLogRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+          {messages.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
+              <p>Start a conversation by typing a message below.</p>
+            </div>
+          ) : (
+            messages.map((message, index) => (
+              <div key={message.id} className={`p-3 rounded-lg shadow-sm max-w-2xl ${
+                message.role === 'user' 
+                  ? 'bg-blue-100 dark:bg-blue-900 ml-auto' 
+                  : 'bg-white dark:bg-gray-800'
+              }`}>
+                <div className="flex items-center justify-between gap-3 text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  <span className="capitalize">{message.role === 'assistant' ? 'AI' : 'You'}</span>
+                  {message.role === 'user' && (
+                    <span className="flex items-center gap-2">
+                      {message.branches && message.branches.length > 1 && (
+                        <span className="flex items-center gap-1">
+                          <button
+                            onClick={() => handleSwitchBranch(index, (message.branchIndex ?? 0) - 1)}
+                            disabled={isLoading || (message.branchIndex ?? 0) === 0}
+                            className="px-1 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-40"
+                            title="Previous version"
+                          >
+                            ‹
+                          </button>
+                          <span>{(message.branchIndex ?? 0) + 1}/{message.branches.length}</span>
+                          <button
+                            onClick={() => handleSwitchBranch(index, (message.branchIndex ?? 0) + 1)}
+                            disabled={isLoading || (message.branchIndex ?? 0) === message.branches.length - 1}
+                            className="px-1 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-40"
+                            title="Next version"
+                          >
+                            ›
+                          </button>
+                        </span>
+                      )}
+                      {editingIndex !== index && (
+                        <button
+                          onClick={() => { setEditingIndex(index); setEditDraft(message.content); }}
+                          disabled={isLoading}
+                          className="hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-40"
+                        >
+                          Edit
+                        </button>
+                      )}
+                    </span>
+                  )}
+                </div>
+                {message.activity && message.activity.length > 0 && (
+                  <ActivityTimeline
+                    entries={message.activity}
+                    isActive={isLoading && index === messages.length - 1}
+                  />
+                )}
+                {editingIndex === index ? (
+                  <div className="flex flex-col gap-2">
+                    <textarea
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleEditSubmit(index);
+                        } else if (e.key === 'Escape') {
+                          setEditingIndex(null);
+                        }
+                      }}
+                      autoFocus
+                      rows={3}
+                      className="w-full min-w-[20rem] resize-y p-2 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setEditingIndex(null)}
+                        className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleEditSubmit(index)}
+                        className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors"
                       >
-                        {children}
-                      </a>
-                    ),
-                    // Customize paragraphs to preserve spacing
-                    p: ({ children }) => (
-                      <p className="mb-2 last:mb-0">{children}</p>
-                    ),
-                  }}
-                >
-                  {message.content}
-                </ReactMarkdown>
+                        Save &amp; regenerate
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="prose prose-sm max-w-none text-gray-800 dark:text-gray-200 dark:prose-invert">
+                    <ReactMarkdown
+                      components={{
+                        // Customize code blocks
+                        code: ({ className, children, ...props }) => {
+                          const isInline = !className || !className.includes('language-');
+                          return isInline ? (
+                            <code className="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded text-sm" {...props}>
+                              {children}
+                            </code>
+                          ) : (
+                            <pre className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg overflow-x-auto">
+                              <code className={className} {...props}>
+                                {children}
+                              </code>
+                            </pre>
+                          );
+                        },
+                        // Customize links
+                        a: ({ href, children }) => (
+                          <a 
+                            href={href} 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            {children}
+                          </a>
+                        ),
+                        // Customize paragraphs to preserve spacing
+                        p: ({ children }) => (
+                          <p className="mb-2 last:mb-0">{children}</p>
+                        ),
+                      }}
+                    >
+                      {message.content}
+                    </ReactMarkdown>
+                  </div>
+                )}
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className="mt-2">
+                    <AttachmentList attachments={message.attachments} />
+                  </div>
+                )}
+                {message.roadmap && (
+                  <div className="mt-2 flex items-center justify-between gap-2 p-2 text-xs rounded border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/30 text-blue-900 dark:text-blue-100">
+                    <span>
+                      Structured roadmap: {message.roadmap.phases.length} phases, {roadmapTasks(message.roadmap).length} tasks
+                    </span>
+                    {onOpenRoadmap && (
+                      <button onClick={onOpenRoadmap} className="text-blue-600 dark:text-blue-400 hover:underline">
+                        Open in Roadmap view →
+                      </button>
+                    )}
+                  </div>
+                )}
+                {message.roadmapErrors && message.roadmapErrors.length > 0 && (
+                  <details className="mt-1 text-xs text-amber-700 dark:text-amber-300">
+                    <summary className="cursor-pointer">
+                      ⚠ {message.roadmapErrors.length} roadmap validation {message.roadmapErrors.length === 1 ? 'problem' : 'problems'}
+                    </summary>
+                    <ul className="list-disc ml-5 mt-1">
+                      {message.roadmapErrors.map((problem, i) => <li key={i}>{problem}</li>)}
+                    </ul>
+                  </details>
+                )}
+                {message.formatRepair && (
+                  <details className={`mt-1 text-xs ${message.formatRepair.remaining.length ? 'text-amber-700 dark:text-amber-300' : 'text-green-700 dark:text-green-300'}`}>
+                    <summary className="cursor-pointer">
+                      {message.formatRepair.remaining.length
+                        ? `⚠ Format repair fixed ${message.formatRepair.fixed.length} of ${message.formatRepair.fixed.length + message.formatRepair.remaining.length} problems`
+                        : `✓ Format repaired: fixed ${message.formatRepair.fixed.length} ${message.formatRepair.fixed.length === 1 ? 'problem' : 'problems'}`}
+                    </summary>
+                    <ul className="list-disc ml-5 mt-1">
+                      {message.formatRepair.fixed.map((problem, i) => <li key={`fixed-${i}`}>Fixed: {problem}</li>)}
+                      {message.formatRepair.remaining.map((problem, i) => <li key={`remaining-${i}`}>Still open: {problem}</li>)}
+                    </ul>
+                  </details>
+                )}
+                {message.interrupted && (
+                  <div className="mt-1 text-xs italic text-gray-500 dark:text-gray-400">
+                    ⏹ Response stopped. This partial answer is not part of the conversation context.
+                  </div>
+                )}
+                {message.approvals?.map(approval => (
+                  <ApprovalCard
+                    key={approval.id}
+                    approval={approval}
+                    decision={approval.decision}
+                    disabled={isLoading}
+                    onDecide={(approve) => handleApprovalDecision(message.id, approval.id, approve)}
+                  />
+                ))}
+              </div>
+            ))
+          )}
+          {isLoading && (
+            <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm max-w-2xl">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                AI
+              </div>
+              <div className="text-gray-600 dark:text-gray-400">
+                Thinking...
               </div>
             </div>
-          ))
-        )}
-        {isLoading && (
-          <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm max-w-2xl">
-            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
-              AI
+          )}
+        </div>
+
+        {/* Input Area */}
+        <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+          {issueContext && (
+            <div className="flex items-center gap-2 max-w-4xl mx-auto mb-2 text-sm">
+              <span
+                className="px-2 py-1 rounded bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 truncate"
+                title="Sent ahead of your next message"
+              >
+                Asking about {issueContext.label}
+              </span>
+              <button
+                onClick={onIssueContextUsed}
+                className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                aria-label="Remove issue context"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+          {(pendingAttachments.length > 0 || isUploading) && (
+            <div className="flex items-center gap-2 max-w-4xl mx-auto mb-2">
+              <AttachmentList
+                attachments={pendingAttachments}
+                onRemove={(id) => setPendingAttachments(prev => prev.filter(a => a.id !== id))}
+              />
+              {isUploading && <span className="text-xs text-gray-500 dark:text-gray-400">Uploading...</span>}
             </div>
-            <div className="text-gray-600 dark:text-gray-400">
-              Thinking...
+          )}
+          <div className="flex gap-2 max-w-4xl mx-auto">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              onChange={(e) => handleAttachFiles(e.target.files)}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading || isUploading || pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+              className="px-3 py-3 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+              title="Attach specification documents (Markdown, text, PDF, Word)"
+            >
+              Attach
+            </button>
+            <button
+              onClick={() => setShowPromptLibrary(true)}
+              disabled={isLoading}
+              className="px-3 py-3 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+              title="Insert a saved prompt template"
+            >
+              Templates
+            </button>
+            <div className="relative flex-1 flex flex-col">
+              {!suggestionsDismissed && (
+                <SlashCommandPopover
+                  suggestions={suggestions}
+                  activeIndex={Math.min(suggestionIndex, suggestions.length - 1)}
+                  usage={parsedCommand?.command ? commandUsage(parsedCommand.command) : null}
+                  onSelect={acceptSuggestion}
+                  onHover={setSuggestionIndex}
+                />
+              )}
+              <textarea
+                value={currentMessage}
+                onChange={(e) => handleMessageChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Type your message, or / for commands... (Shift+Enter for new line)"
+                className={`resize-none p-3 border rounded-lg focus:outline-none focus:ring-2 dark:bg-gray-700 dark:text-white min-h-[44px] max-h-[120px] overflow-y-auto ${
+                  commandErrors.length > 0
+                    ? 'border-red-400 dark:border-red-500 focus:ring-red-500'
+                    : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+                }`}
+                rows={1}
+                style={{ height: 'auto' }}
+                onInput={(e) => {
+                  const target = e.target as HTMLTextAreaElement;
+                  target.style.height = 'auto';
+                  target.style.height = Math.min(target.scrollHeight, 120) + 'px';
+                }}
+              />
+              {commandErrors.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-red-600 dark:text-red-400">
+                  {commandErrors.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
             </div>
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="px-6 py-3 bg-red-500 hover:bg-red-600 text-white rounded-lg font-medium transition-colors"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                className="px-6 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded-lg font-medium transition-colors"
+              >
+                Send
+              </button>
+            )}
           </div>
-        )}
-      </div>
-
-      {/* Input Area */}
-      <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
-        <div className="flex gap-2 max-w-4xl mx-auto">
-          <textarea
-            value={currentMessage}
-            onChange={(e) => setCurrentMessage(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Type your message... (Shift+Enter for new line)"
-            className="flex-1 resize-none p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white min-h-[44px] max-h-[120px] overflow-y-auto"
-            rows={1}
-            style={{ height: 'auto' }}
-            onInput={(e) => {
-              const target = e.target as HTMLTextAreaElement;
-              target.style.height = 'auto';
-              target.style.height = Math.min(target.scrollHeight, 120) + 'px';
-            }}
-          />
-          <button
-            onClick={handleSend}
-            disabled={isLoading}
-            className="px-6 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded-lg font-medium transition-colors"
-          >
-            {isLoading ? 'Sending...' : 'Send'}
-          </button>
         </div>
       </div>
+
+      {showPromptLibrary && (
+        <PromptLibraryDialog
+          contextValues={templateContext}
+          onInsert={(text) => {
+            handleMessageChange(currentMessage.trim() ? `${currentMessage.trimEnd()}\n\n${text}` : text);
+            setShowPromptLibrary(false);
+          }}
+          onClose={() => setShowPromptLibrary(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,84 @@
+'use client'
+
+import type { ActivityEntry, ActivityStatus } from '@/lib/activity';
+import { touchedRefs } from '@/lib/activity';
+
+const STATUS_ICONS: Record<ActivityStatus, string> = {
+  in_progress: '⏳',
+  awaiting_approval: '✋',
+  completed: '✅',
+  failed: '❌',
+};
+
+function describe(entry: ActivityEntry): string {
+  switch (entry.kind) {
+    case 'list_tools':
+      return entry.tools
+        ? `Loaded ${entry.tools.length} tools from ${entry.serverLabel}`
+        : `Loading tools from ${entry.serverLabel}`;
+    case 'tool_call':
+      return `${entry.source === 'mcp' ? 'GitHub' : 'Microsoft 365'}: ${entry.name}`;
+    case 'reasoning':
+      return 'Reasoning';
+    case 'status':
+      return `Response ${entry.status}`;
+  }
+}
+
+export default function ActivityTimeline({ entries, isActive }: { entries: ActivityEntry[]; isActive?: boolean }) {
+  const toolCalls = entries.filter(e => e.kind === 'tool_call');
+  const refs = touchedRefs(entries);
+  const running = entries.find(e => (e.kind === 'tool_call' || e.kind === 'list_tools') && e.status === 'in_progress');
+
+  return (
+    <details className="mb-2 text-xs text-gray-600 dark:text-gray-400" open={isActive}>
+      <summary className="cursor-pointer select-none">
+        {isActive && running ? `${describe(running)}…` : `Activity: ${toolCalls.length} tool call${toolCalls.length === 1 ? '' : 's'}`}
+        {refs.length > 0 && (
+          <span className="ml-2">
+            · touched{' '}
+            {refs.map((ref, i) => (
+              <span key={ref.url}>
+                {i > 0 && ', '}
+                <a
+                  href={ref.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {ref.kind === 'pull' ? 'PR ' : ''}#{ref.number}
+                </a>
+              </span>
+            ))}
+          </span>
+        )}
+      </summary>
+      <ol className="mt-2 ml-1 border-l border-gray-200 dark:border-gray-700 space-y-2">
+        {entries.map(entry => (
+          <li key={`${entry.kind}-${entry.id}`} className="pl-3">
+            <div className="flex items-center gap-1">
+              {(entry.kind === 'tool_call' || entry.kind === 'list_tools') && <span>{STATUS_ICONS[entry.status]}</span>}
+              <span className="font-medium">{describe(entry)}</span>
+            </div>
+            {entry.kind === 'reasoning' && (
+              <p className="italic whitespace-pre-wrap">{entry.text}</p>
+            )}
+            {entry.kind === 'tool_call' && entry.arguments && (
+              <pre className="bg-gray-100 dark:bg-gray-700 p-2 rounded overflow-x-auto max-h-32">{entry.arguments}</pre>
+            )}
+            {entry.kind === 'tool_call' && entry.output && (
+              <details>
+                <summary className="cursor-pointer">Result</summary>
+                <pre className="bg-gray-100 dark:bg-gray-700 p-2 rounded overflow-x-auto max-h-48 whitespace-pre-wrap">{entry.output}</pre>
+              </details>
+            )}
+            {(entry.kind === 'tool_call' || entry.kind === 'list_tools') && entry.error && (
+              <p className="text-red-600 dark:text-red-400">{entry.error}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import type { ApprovalRequest } from '@/lib/approvals';
+import { isReadOnlyTool } from '@/lib/approvals';
+
+interface ApprovalCardProps {
+  approval: ApprovalRequest;
+  decision?: boolean;
+  disabled?: boolean;
+  onDecide: (approve: boolean) => void;
+}
+
+function formatArguments(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+export default function ApprovalCard({ approval, decision, disabled, onDecide }: ApprovalCardProps) {
+  const source = approval.kind === 'mcp' ? 'GitHub' : 'Microsoft 365';
+  const readOnly = isReadOnlyTool(approval.name);
+
+  return (
+    <div className="mt-2 border border-amber-300 dark:border-amber-600 bg-amber-50 dark:bg-amber-900/20 rounded-lg p-3 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-medium text-gray-900 dark:text-white">
+          {source}: <code className="bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded">{approval.name}</code>
+        </div>
+        <span className={`px-2 py-0.5 text-xs rounded ${
+          readOnly
+            ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+            : 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+        }`}>
+          {readOnly ? 'read-only' : 'mutating'}
+        </span>
+      </div>
+      <pre className="bg-white dark:bg-gray-800 p-2 rounded text-xs overflow-x-auto max-h-48 mb-2">
+        {formatArguments(approval.arguments)}
+      </pre>
+      {decision === undefined ? (
+        <div className="flex gap-2">
+          <button
+            onClick={() => onDecide(true)}
+            disabled={disabled}
+            className="px-3 py-1 text-sm bg-green-500 hover:bg-green-600 disabled:bg-green-300 text-white rounded transition-colors"
+          >
+            Approve
+          </button>
+          <button
+            onClick={() => onDecide(false)}
+            disabled={disabled}
+            className="px-3 py-1 text-sm bg-red-500 hover:bg-red-600 disabled:bg-red-300 text-white rounded transition-colors"
+          >
+            Deny
+          </button>
+        </div>
+      ) : (
+        <div className={`text-xs font-medium ${decision ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+          {decision ? '✅ Approved' : '❌ Denied'}
+        </div>
+      )}
+    </div>
+  );
+}
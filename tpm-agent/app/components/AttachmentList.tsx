@@ -0,0 +1,46 @@
+'use client'
+
+import { type AttachmentSummary, formatBytes } from '@/lib/attachments';
+
+interface AttachmentListProps {
+  attachments: AttachmentSummary[];
+  // Shows a remove button on each attachment when set
+  onRemove?: (id: string) => void;
+}
+
+const KIND_LABELS: Record<AttachmentSummary['kind'], string> = {
+  markdown: 'MD',
+  text: 'TXT',
+  pdf: 'PDF',
+  docx: 'DOCX',
+};
+
+export default function AttachmentList({ attachments, onRemove }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul className="flex flex-wrap gap-2">
+      {attachments.map(attachment => (
+        <li
+          key={attachment.id}
+          className="flex items-center gap-2 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+          title={`${attachment.characters.toLocaleString()} characters in ${attachment.chunkCount} part(s)${attachment.truncated ? ' (truncated)' : ''}`}
+        >
+          <span className="font-semibold text-gray-500 dark:text-gray-400">{KIND_LABELS[attachment.kind]}</span>
+          <span className="max-w-[12rem] truncate">{attachment.name}</span>
+          <span className="text-gray-500 dark:text-gray-400">{formatBytes(attachment.size)}</span>
+          {attachment.truncated && <span className="text-amber-600 dark:text-amber-400">truncated</span>}
+          {onRemove && (
+            <button
+              onClick={() => onRemove(attachment.id)}
+              className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-100"
+              title="Remove attachment"
+            >
+              ×
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
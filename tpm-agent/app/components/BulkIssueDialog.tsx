@@ -0,0 +1,287 @@
+'use client'
+
+import { useState } from 'react';
+import { type Roadmap, roadmapTasks } from '@/lib/roadmap';
+import {
+  type BulkIssueResult,
+  type BulkIssueSummary,
+  type IssueDraft,
+  bulkCreateIssues,
+  draftsFromRoadmap,
+  previewBody,
+} from '@/lib/bulk-issues';
+import { logger } from '@/lib/logger';
+
+interface BulkIssueDialogProps {
+  roadmap: Roadmap;
+  // owner/name of the active repository; drafts without a repository are created here
+  repositoryFullName: string;
+  // Every repository of the active program, offered per draft
+  repositories?: string[];
+  // Heading target, e.g. the program name
+  targetName?: string;
+  onClose: () => void;
+}
+
+type Stage = 'preview' | 'running' | 'done';
+
+const inputClass = 'w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+function splitList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+export default function BulkIssueDialog({ roadmap, repositoryFullName, repositories = [], targetName, onClose }: BulkIssueDialogProps) {
+  const [drafts, setDrafts] = useState<IssueDraft[]>(() => draftsFromRoadmap(roadmap));
+  const [included, setIncluded] = useState<boolean[]>(() => roadmapTasks(roadmap).map(() => true));
+  const [defaults, setDefaults] = useState({ labels: '', milestone: '', assignees: '' });
+  const [dryRun, setDryRun] = useState(true);
+  const [stage, setStage] = useState<Stage>('preview');
+  const [progress, setProgress] = useState<{ completed: number; total: number; results: BulkIssueResult[] }>({ completed: 0, total: 0, results: [] });
+  const [summary, setSummary] = useState<BulkIssueSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = drafts.filter((_, i) => included[i]);
+
+  const updateDraft = (index: number, patch: Partial<IssueDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  const applyDefaults = () => {
+    setDrafts(prev => prev.map(draft => ({
+      ...draft,
+      labels: splitList(defaults.labels),
+      milestone: defaults.milestone.trim() || null,
+      assignees: splitList(defaults.assignees),
+    })));
+  };
+
+  const run = async () => {
+    const [owner, repo] = repositoryFullName.split('/');
+    setStage('running');
+    setError(null);
+    setSummary(null);
+    setProgress({ completed: 0, total: selected.length, results: [] });
+    try {
+      for await (const event of bulkCreateIssues(owner, repo, selected, { dryRun })) {
+        if (event.type === 'progress') {
+          setProgress(prev => ({ completed: event.completed, total: event.total, results: [...prev.results, event.result] }));
+        } else if (event.type === 'summary') {
+          setSummary(event.summary);
+        } else if (event.type === 'error') {
+          setError(event.message);
+        }
+      }
+    } catch (err) {
+      logger.error('Bulk issue creation failed:', err);
+      setError(err instanceof Error ? err.message : 'Bulk issue creation failed');
+    }
+    setStage('done');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-4xl max-h-full flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-xl">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Create issues in {targetName ?? repositoryFullName}
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={stage === 'running'}
+            className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 text-xl"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {stage === 'preview' && (
+          <>
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700 grid grid-cols-4 gap-2 items-end text-xs text-gray-600 dark:text-gray-400">
+              <label>
+                Labels (comma-separated)
+                <input
+                  value={defaults.labels}
+                  onChange={(e) => setDefaults(d => ({ ...d, labels: e.target.value }))}
+                  className={inputClass}
+                />
+              </label>
+              <label>
+                Milestone
+                <input
+                  value={defaults.milestone}
+                  onChange={(e) => setDefaults(d => ({ ...d, milestone: e.target.value }))}
+                  className={inputClass}
+                />
+              </label>
+              <label>
+                Assignees (comma-separated)
+                <input
+                  value={defaults.assignees}
+                  onChange={(e) => setDefaults(d => ({ ...d, assignees: e.target.value }))}
+                  className={inputClass}
+                />
+              </label>
+              <button
+                onClick={applyDefaults}
+                className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors"
+              >
+                Apply to all
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              {drafts.map((draft, index) => (
+                <div
+                  key={`${draft.taskId}-${index}`}
+                  className={`rounded border border-gray-200 dark:border-gray-700 ${included[index] ? '' : 'opacity-50'}`}
+                >
+                  <label className="flex items-center gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={included[index]}
+                      onChange={(e) => setIncluded(prev => prev.map((v, i) => (i === index ? e.target.checked : v)))}
+                    />
+                    <span className="font-mono text-xs text-gray-500">{draft.taskId}</span>
+                    <span className="font-medium text-gray-900 dark:text-white truncate">{draft.title || '(untitled)'}</span>
+                    {repositories.length > 1 && (
+                      <select
+                        value={draft.repository && draft.repository !== repositoryFullName ? draft.repository : ''}
+                        onChange={(e) => updateDraft(index, { repository: e.target.value || null })}
+                        className="ml-auto px-1 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                      >
+                        <option value="">{repositoryFullName}</option>
+                        {[...new Set([...repositories, draft.repository ?? ''])]
+                          .filter(name => name && name !== repositoryFullName)
+                          .map(name => <option key={name} value={name}>{name}</option>)}
+                      </select>
+                    )}
+                  </label>
+                  {/* Diff-style preview of what will be written */}
+                  <pre className="px-3 py-2 text-xs font-mono whitespace-pre-wrap bg-green-50 dark:bg-green-900/20 text-green-900 dark:text-green-200 max-h-48 overflow-y-auto">
+                    {[
+                      `+ repository: ${draft.repository || repositoryFullName}`,
+                      `+ title: ${draft.title}`,
+                      `+ labels: ${draft.labels.join(', ') || '—'}`,
+                      `+ milestone: ${draft.milestone || '—'}`,
+                      `+ assignees: ${draft.assignees.join(', ') || '—'}`,
+                      ...previewBody(draft, roadmap).split('\n').map(line => `+ ${line}`),
+                    ].join('\n')}
+                  </pre>
+                  <div className="grid grid-cols-3 gap-2 px-3 py-2 text-xs">
+                    <input
+                      // Parsed on blur so commas can be typed; remounts when "Apply to all" changes the value
+                      key={draft.labels.join(',')}
+                      defaultValue={draft.labels.join(', ')}
+                      onBlur={(e) => updateDraft(index, { labels: splitList(e.target.value) })}
+                      placeholder="labels"
+                      className={inputClass}
+                    />
+                    <input
+                      value={draft.milestone ?? ''}
+                      onChange={(e) => updateDraft(index, { milestone: e.target.value || null })}
+                      placeholder="milestone"
+                      className={inputClass}
+                    />
+                    <input
+                      // Parsed on blur so commas can be typed; remounts when "Apply to all" changes the value
+                      key={draft.assignees.join(',')}
+                      defaultValue={draft.assignees.join(', ')}
+                      onBlur={(e) => updateDraft(index, { assignees: splitList(e.target.value) })}
+                      placeholder="assignees"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+                Dry run (validate only, write nothing)
+              </label>
+              <button
+                onClick={run}
+                disabled={selected.length === 0}
+                className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded transition-colors"
+              >
+                {dryRun ? `Dry run ${selected.length} issues` : `Create ${selected.length} issues`}
+              </button>
+            </div>
+          </>
+        )}
+
+        {stage !== 'preview' && (
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            <div>
+              <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300 mb-1">
+                <span>{stage === 'running' ? (dryRun ? 'Validating...' : 'Creating issues...') : 'Finished'}</span>
+                <span>{progress.completed} / {progress.total}</span>
+              </div>
+              <div className="h-2 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="p-2 text-sm rounded bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200">{error}</div>
+            )}
+
+            {summary && (
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                {summary.dryRun
+                  ? `Dry run: ${summary.results.length - summary.failed} issues would be created, ${summary.failed} have problems. Nothing was written.`
+                  : `${summary.created} issues created, ${summary.failed} failed.`}
+                {summary.createdMilestones.length > 0 && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {summary.dryRun ? 'Milestones to create' : 'Created milestones'}: {summary.createdMilestones.join(', ')}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <ul className="space-y-1 text-sm">
+              {progress.results.map(result => (
+                <li key={result.index} className="flex items-center gap-2">
+                  <span>{result.status === 'failed' ? '✗' : '✓'}</span>
+                  {result.html_url ? (
+                    <a href={result.html_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                      {repositories.length > 1 ? result.repository : ''}#{result.number} {result.title}
+                    </a>
+                  ) : (
+                    <span className="text-gray-800 dark:text-gray-200">{result.title}</span>
+                  )}
+                  {result.error && <span className="text-xs text-red-600 dark:text-red-400">{result.error}</span>}
+                </li>
+              ))}
+            </ul>
+
+            {stage === 'done' && (
+              <div className="flex justify-end gap-2 pt-2">
+                {summary?.dryRun && (
+                  <button
+                    onClick={() => setStage('preview')}
+                    className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors"
+                  >
+                    Back to preview
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors"
+                >
+                  Close
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
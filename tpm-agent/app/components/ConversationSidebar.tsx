@@ -0,0 +1,107 @@
+'use client'
+
+import { useState } from 'react';
+import type { ConversationSummary } from '@/lib/conversations';
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitEdit = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-64 shrink-0 border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex flex-col">
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="w-full px-3 py-2 text-sm bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded transition-colors"
+        >
+          + New conversation
+        </button>
+      </div>
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.map(conversation => (
+          <li
+            key={conversation.id}
+            className={`group rounded px-2 py-2 text-sm cursor-pointer ${
+              conversation.id === activeId
+                ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-900 dark:text-blue-100'
+                : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            } ${disabled ? 'pointer-events-none opacity-60' : ''}`}
+            onClick={() => onSelect(conversation.id)}
+          >
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                onBlur={commitEdit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitEdit();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+              />
+            ) : (
+              <div className="flex items-center justify-between gap-1">
+                <span className="truncate" title={conversation.title}>{conversation.title}</span>
+                <span className="hidden group-hover:flex gap-1 shrink-0">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startEditing(conversation); }}
+                    className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                    title="Rename"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (confirm(`Delete "${conversation.title}"?`)) onDelete(conversation.id);
+                    }}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    ×
+                  </button>
+                </span>
+              </div>
+            )}
+            {conversation.repositoryFullName && editingId !== conversation.id && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{conversation.repositoryFullName}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import { type GitHubQuota as Quota, type GitHubRateLimit, fetchGitHubQuota } from '@/lib/github';
+import { logger } from '@/lib/logger';
+
+const REFRESH_INTERVAL_MS = 60_000;
+// Share of the quota below which the indicator turns amber
+const LOW_QUOTA_RATIO = 0.1;
+
+function describe(limit: GitHubRateLimit): string {
+  return `${limit.resource}: ${limit.remaining.toLocaleString()} of ${limit.limit.toLocaleString()} left, resets ${new Date(limit.resetAt).toLocaleTimeString()}`;
+}
+
+/**
+ * Remaining GitHub API quota of the signed-in user, refreshed every minute and when the window regains focus.
+ */
+export default function GitHubQuota() {
+  const [quota, setQuota] = useState<Quota | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      fetchGitHubQuota()
+        .then((data) => {
+          if (!cancelled) setQuota(data);
+        })
+        .catch((error) => logger.warn('Failed to fetch GitHub rate limit:', error));
+    };
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    window.addEventListener('focus', refresh);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener('focus', refresh);
+    };
+  }, []);
+
+  if (!quota?.core) return null;
+
+  const low = [quota.core, quota.search].some(limit => limit && limit.remaining <= limit.limit * LOW_QUOTA_RATIO);
+  return (
+    <span
+      className={`text-xs ${low ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}
+      title={[quota.core, quota.search].filter((limit): limit is GitHubRateLimit => !!limit).map(describe).join('\n')}
+    >
+      GitHub API: {quota.core.remaining.toLocaleString()}/{quota.core.limit.toLocaleString()}
+    </span>
+  );
+}
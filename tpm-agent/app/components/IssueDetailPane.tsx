@@ -0,0 +1,403 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import ReactMarkdown from 'react-markdown';
+import type { Issue } from '@/lib/issues-client';
+import {
+  type IssueContext,
+  type IssueDetail,
+  type IssueOptions,
+  type IssueUpdate,
+  type TimelineEvent,
+  addIssueComment,
+  describeTimelineEvent,
+  fetchIssueDetail,
+  fetchIssueOptions,
+  isComment,
+  issueContextPrompt,
+  linkedPullRequests,
+  updateIssue,
+} from '@/lib/issue-detail';
+import { logger } from '@/lib/logger';
+
+interface IssueDetailPaneProps {
+  // owner/name the issue belongs to
+  repository: string;
+  number: number;
+  onClose: () => void;
+  // Called with the issue after each edit so the list can show it
+  onIssueUpdated?: (issue: Issue) => void;
+  // Open Chat with this issue as context; receives the prompt describing it
+  onAskAgent?: (context: IssueContext) => void;
+}
+
+type EditField = 'labels' | 'assignees' | 'milestone';
+
+const buttonClass = 'px-3 py-1 text-sm rounded transition-colors disabled:opacity-50';
+const secondaryButtonClass = `${buttonClass} bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300`;
+
+function Markdown({ children }: { children: string }) {
+  return (
+    <div className="prose prose-sm max-w-none text-gray-800 dark:text-gray-200 dark:prose-invert">
+      <ReactMarkdown
+        components={{
+          a: ({ href, children }) => (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+              {children}
+            </a>
+          ),
+        }}
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+function Avatar({ user }: { user?: { login: string; avatar_url: string } | null }) {
+  if (!user) return null;
+  return <Image src={user.avatar_url} alt={user.login} width={20} height={20} className="w-5 h-5 rounded-full" />;
+}
+
+function TimelineEntry({ event }: { event: TimelineEvent }) {
+  if (isComment(event)) {
+    return (
+      <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="flex items-center gap-2 px-3 py-2 text-xs text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/40 border-b border-gray-200 dark:border-gray-700 rounded-t-lg">
+          <Avatar user={event.user} />
+          <span className="font-medium text-gray-800 dark:text-gray-200">{event.user?.login}</span>
+          {event.created_at && (
+            <a href={event.html_url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              commented {new Date(event.created_at).toLocaleString()}
+            </a>
+          )}
+        </div>
+        <div className="p-3">
+          <Markdown>{event.body || '_No content._'}</Markdown>
+        </div>
+      </div>
+    );
+  }
+
+  const source = event.source?.issue;
+  return (
+    <div className="flex items-center gap-2 pl-3 text-xs text-gray-600 dark:text-gray-400">
+      <Avatar user={event.actor} />
+      <span>
+        <span className="font-medium text-gray-800 dark:text-gray-200">{event.actor?.login ?? 'Someone'}</span>{' '}
+        {event.event === 'cross-referenced' && source ? (
+          <a href={source.html_url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+            {describeTimelineEvent(event)}
+          </a>
+        ) : describeTimelineEvent(event)}
+      </span>
+      {event.created_at && <span className="text-gray-400">{new Date(event.created_at).toLocaleDateString()}</span>}
+    </div>
+  );
+}
+
+/**
+ * Slide-over with an issue's description, timeline and sidebar fields, editable in place.
+ */
+export default function IssueDetailPane({ repository, number, onClose, onIssueUpdated, onAskAgent }: IssueDetailPaneProps) {
+  const [owner, repo] = repository.split('/');
+  const [detail, setDetail] = useState<IssueDetail | null>(null);
+  const [options, setOptions] = useState<IssueOptions | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<EditField | null>(null);
+  // Selection being edited: label names, assignee logins, or the milestone number ('' for none)
+  const [selection, setSelection] = useState<string[]>([]);
+  const [comment, setComment] = useState('');
+
+  const reload = useCallback(async () => {
+    try {
+      setDetail(await fetchIssueDetail(owner, repo, number));
+    } catch (error) {
+      logger.error(`Failed to load ${repository}#${number}:`, error);
+      setError(error instanceof Error ? error.message : 'Failed to load the issue');
+    }
+  }, [owner, repo, number, repository]);
+
+  useEffect(() => {
+    setDetail(null);
+    setError(null);
+    setEditing(null);
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchIssueOptions(owner, repo)
+      .then((data) => {
+        if (!cancelled) setOptions(data);
+      })
+      .catch((error) => logger.warn(`Failed to load issue options for ${repository}:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, repo, repository]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  // Apply an edit, then reload so the timeline shows the events it caused
+  const applyUpdate = async (update: IssueUpdate) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const issue = await updateIssue(owner, repo, number, update);
+      setDetail(prev => prev && { ...prev, issue });
+      onIssueUpdated?.(issue);
+      setEditing(null);
+      await reload();
+    } catch (error) {
+      logger.error(`Failed to update ${repository}#${number}:`, error);
+      setError(error instanceof Error ? error.message : 'Failed to update the issue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submitComment = async () => {
+    if (!comment.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const event = await addIssueComment(owner, repo, number, comment);
+      setDetail(prev => prev && {
+        issue: { ...prev.issue, comments: (prev.issue.comments ?? 0) + 1 },
+        timeline: [...prev.timeline, event],
+      });
+      setComment('');
+    } catch (error) {
+      logger.error(`Failed to comment on ${repository}#${number}:`, error);
+      setError(error instanceof Error ? error.message : 'Failed to post the comment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (field: EditField) => {
+    if (!detail) return;
+    const { issue } = detail;
+    setEditing(field);
+    setSelection(field === 'labels'
+      ? issue.labels.map(l => l.name)
+      : field === 'assignees' ? issue.assignees?.map(a => a.login) ?? [] : [issue.milestone ? String(issue.milestone.number) : '']);
+  };
+
+  const saveEdit = () => {
+    if (editing === 'labels') applyUpdate({ labels: selection });
+    else if (editing === 'assignees') applyUpdate({ assignees: selection });
+    else if (editing === 'milestone') applyUpdate({ milestone: selection[0] ? Number(selection[0]) : null });
+  };
+
+  const toggleSelection = (value: string) => {
+    setSelection(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]);
+  };
+
+  const issue = detail?.issue;
+  const pullRequests = detail ? linkedPullRequests(detail.timeline) : [];
+  // Keep values set on the issue selectable even when they're not among the repository's options (e.g. a closed milestone)
+  const labelChoices = [...new Set([...(options?.labels.map(l => l.name) ?? []), ...(issue?.labels.map(l => l.name) ?? [])])];
+  const assigneeChoices = [...new Set([...(options?.assignees.map(a => a.login) ?? []), ...(issue?.assignees?.map(a => a.login) ?? [])])];
+  const milestoneChoices = [
+    ...(options?.milestones ?? []),
+    ...(issue?.milestone && !options?.milestones.some(m => m.number === issue.milestone?.number) ? [issue.milestone] : []),
+  ];
+
+  const sidebarSection = (field: EditField, title: string, content: React.ReactNode) => (
+    <div className="py-3 border-b border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">{title}</h3>
+        {editing === field ? (
+          <div className="flex gap-2 text-xs">
+            <button onClick={() => setEditing(null)} className="text-gray-500 hover:underline">Cancel</button>
+            <button onClick={saveEdit} disabled={saving} className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => startEditing(field)} disabled={!issue} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+            Edit
+          </button>
+        )}
+      </div>
+      {content}
+    </div>
+  );
+
+  const checklist = (choices: string[]) => (
+    <div className="max-h-48 overflow-y-auto space-y-1">
+      {choices.length === 0 && <p className="text-xs text-gray-500">Nothing to choose from</p>}
+      {choices.map(choice => (
+        <label key={choice} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={selection.includes(choice)} onChange={() => toggleSelection(choice)} />
+          {choice}
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40" onClick={onClose}>
+      <div className="w-full max-w-4xl h-full flex flex-col bg-white dark:bg-gray-800 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="min-w-0">
+            <div className="text-xs font-mono text-gray-500 dark:text-gray-400">{repository}#{number}</div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {issue ? issue.title : 'Loading...'}
+            </h2>
+            {issue && (
+              <div className="flex items-center gap-2 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                <span className={`px-2 py-0.5 rounded ${
+                  issue.state === 'open'
+                    ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+                    : 'bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200'
+                }`}>
+                  {issue.pull_request?.merged_at ? 'merged' : issue.state}
+                </span>
+                <span>{issue.user.login} opened this on {new Date(issue.created_at).toLocaleDateString()}</span>
+                <a href={issue.html_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                  View on GitHub
+                </a>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {onAskAgent && detail && (
+              <button
+                onClick={() => onAskAgent({ label: `${repository}#${number} ${detail.issue.title}`, prompt: issueContextPrompt(repository, detail) })}
+                className={`${buttonClass} bg-blue-500 hover:bg-blue-600 text-white`}
+              >
+                Ask the agent about this issue
+              </button>
+            )}
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300" aria-label="Close">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 px-4 py-2 text-sm rounded bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200">
+            {error}
+          </div>
+        )}
+
+        {!detail ? (
+          !error && <div className="flex items-center justify-center py-8 text-gray-600 dark:text-gray-400">Loading issue...</div>
+        ) : (
+          <div className="flex-1 min-h-0 flex">
+            <div className="flex-1 min-w-0 overflow-y-auto p-4 space-y-4">
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                <Markdown>{detail.issue.body?.trim() || '_No description provided._'}</Markdown>
+              </div>
+
+              {detail.timeline.map((event, index) => (
+                <TimelineEntry key={event.id ?? `${event.event}-${index}`} event={event} />
+              ))}
+
+              <div className="space-y-2 pt-2">
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Leave a comment (Markdown)"
+                  rows={4}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+                <div className="flex justify-end gap-2">
+                  {detail.issue.state === 'open' ? (
+                    <>
+                      <button onClick={() => applyUpdate({ state: 'closed', stateReason: 'not_planned' })} disabled={saving} className={secondaryButtonClass}>
+                        Close as not planned
+                      </button>
+                      <button onClick={() => applyUpdate({ state: 'closed', stateReason: 'completed' })} disabled={saving} className={secondaryButtonClass}>
+                        Close as completed
+                      </button>
+                    </>
+                  ) : !detail.issue.pull_request?.merged_at && (
+                    <button onClick={() => applyUpdate({ state: 'open', stateReason: 'reopened' })} disabled={saving} className={secondaryButtonClass}>
+                      Reopen
+                    </button>
+                  )}
+                  <button
+                    onClick={submitComment}
+                    disabled={saving || !comment.trim()}
+                    className={`${buttonClass} bg-green-600 hover:bg-green-700 text-white`}
+                  >
+                    Comment
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <aside className="w-64 shrink-0 overflow-y-auto px-4 border-l border-gray-200 dark:border-gray-700">
+              {sidebarSection('assignees', 'Assignees', editing === 'assignees' ? checklist(assigneeChoices) : (
+                detail.issue.assignees?.length ? (
+                  <div className="space-y-1">
+                    {detail.issue.assignees.map(a => (
+                      <div key={a.login} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <Avatar user={a} />
+                        {a.login}
+                      </div>
+                    ))}
+                  </div>
+                ) : <p className="text-sm text-gray-500">No one assigned</p>
+              ))}
+              {sidebarSection('labels', 'Labels', editing === 'labels' ? checklist(labelChoices) : (
+                detail.issue.labels.length ? (
+                  <div className="flex flex-wrap gap-1">
+                    {detail.issue.labels.map(label => (
+                      <span
+                        key={label.name}
+                        className="px-2 py-1 text-xs rounded"
+                        style={{ backgroundColor: `#${label.color}20`, color: `#${label.color}` }}
+                      >
+                        {label.name}
+                      </span>
+                    ))}
+                  </div>
+                ) : <p className="text-sm text-gray-500">None yet</p>
+              ))}
+              {sidebarSection('milestone', 'Milestone', editing === 'milestone' ? (
+                <select
+                  value={selection[0] ?? ''}
+                  onChange={(e) => setSelection([e.target.value])}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                >
+                  <option value="">No milestone</option>
+                  {milestoneChoices.map(m => <option key={m.number} value={m.number}>{m.title}</option>)}
+                </select>
+              ) : (
+                <p className="text-sm text-gray-700 dark:text-gray-300">{detail.issue.milestone?.title ?? 'No milestone'}</p>
+              ))}
+              <div className="py-3">
+                <h3 className="mb-2 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Linked pull requests</h3>
+                {pullRequests.length ? (
+                  <ul className="space-y-1">
+                    {pullRequests.map(pr => (
+                      <li key={pr.html_url} className="text-sm">
+                        <a href={pr.html_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                          {pr.repository?.full_name === repository ? '' : pr.repository?.full_name}#{pr.number} {pr.title}
+                        </a>
+                        <span className="ml-1 text-xs text-gray-500">{pr.pull_request?.merged_at ? 'merged' : pr.state}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : <p className="text-sm text-gray-500">None</p>}
+              </div>
+            </aside>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import { type Issue, createIssue } from '@/lib/issues-client';
+import { type IssueOptions, fetchIssueOptions } from '@/lib/issue-detail';
+import {
+  type IssueFormField,
+  type IssueFormValues,
+  type IssueTemplate,
+  fetchIssueTemplates,
+  initialFormValues,
+  missingRequiredFields,
+  renderFormBody,
+} from '@/lib/issue-templates';
+import { MAX_ISSUE_DESCRIPTION_LENGTH, composeIssueBody, draftIssue } from '@/lib/issue-composer';
+import { logger } from '@/lib/logger';
+
+interface NewIssueDialogProps {
+  // owner/name of each repository the issue can be filed in; the first is preselected
+  repositories: string[];
+  onClose: () => void;
+  onCreated: (issue: Issue, repository: string) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+const labelClass = 'block mb-1 text-xs font-medium text-gray-600 dark:text-gray-400';
+
+function FormField({ field, value, onChange }: { field: IssueFormField; value: string | string[] | undefined; onChange: (value: string | string[]) => void }) {
+  if (field.type === 'markdown') {
+    return <p className="text-xs text-gray-500 dark:text-gray-400 whitespace-pre-wrap">{field.value}</p>;
+  }
+  const selected = Array.isArray(value) ? value : [];
+  const toggle = (option: string) => onChange(selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]);
+  return (
+    <div>
+      <label className={labelClass}>
+        {field.label}{field.required && <span className="text-red-500"> *</span>}
+      </label>
+      {field.description && <p className="mb-1 text-xs text-gray-500 dark:text-gray-400">{field.description}</p>}
+      {field.type === 'textarea' && (
+        <textarea
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          rows={4}
+          className={`${inputClass} ${field.render ? 'font-mono' : ''}`}
+        />
+      )}
+      {field.type === 'input' && (
+        <input value={typeof value === 'string' ? value : ''} onChange={(e) => onChange(e.target.value)} placeholder={field.placeholder} className={inputClass} />
+      )}
+      {field.type === 'dropdown' && !field.multiple && (
+        <select value={typeof value === 'string' ? value : ''} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+          <option value="">Select...</option>
+          {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      )}
+      {(field.type === 'checkboxes' || (field.type === 'dropdown' && field.multiple)) && (
+        <div className="space-y-1">
+          {field.options.map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={selected.includes(option)} onChange={() => toggle(option)} />
+              {option}{field.requiredOptions.includes(option) && <span className="text-red-500"> *</span>}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Issue form that follows the repository's issue templates; the agent can draft it from a one-line description.
+ */
+export default function NewIssueDialog({ repositories, onClose, onCreated }: NewIssueDialogProps) {
+  const [repository, setRepository] = useState(repositories[0] ?? '');
+  const [templates, setTemplates] = useState<IssueTemplate[] | null>(null);
+  const [options, setOptions] = useState<IssueOptions | null>(null);
+  const [templateId, setTemplateId] = useState('');
+  const [description, setDescription] = useState('');
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [fieldValues, setFieldValues] = useState<IssueFormValues>({});
+  // One criterion per line
+  const [acceptanceCriteria, setAcceptanceCriteria] = useState('');
+  const [labels, setLabels] = useState<string[]>([]);
+  // Labels the agent suggested for the current draft
+  const [suggestedLabels, setSuggestedLabels] = useState<string[]>([]);
+  const [drafting, setDrafting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const template = templates?.find(t => t.id === templateId) ?? null;
+  const [owner, repo] = repository.split('/');
+
+  useEffect(() => {
+    if (!owner || !repo) return;
+    let cancelled = false;
+    setTemplates(null);
+    setOptions(null);
+    setTemplateId('');
+    Promise.all([
+      fetchIssueTemplates(owner, repo).catch((error) => {
+        logger.warn(`Failed to load issue templates for ${owner}/${repo}:`, error);
+        return [] as IssueTemplate[];
+      }),
+      fetchIssueOptions(owner, repo).catch((error) => {
+        logger.warn(`Failed to load labels for ${owner}/${repo}:`, error);
+        return null;
+      }),
+    ]).then(([loadedTemplates, loadedOptions]) => {
+      if (cancelled) return;
+      setTemplates(loadedTemplates);
+      setOptions(loadedOptions);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, repo]);
+
+  // Start over from the template's prefills
+  useEffect(() => {
+    setTitle(template?.title ?? '');
+    setBody(template?.kind === 'markdown' ? template.body : '');
+    setFieldValues(template?.kind === 'form' ? initialFormValues(template.fields) : {});
+    setLabels(template?.labels ?? []);
+    setSuggestedLabels([]);
+    setAcceptanceCriteria('');
+  }, [template]);
+
+  const handleDraft = async () => {
+    if (!description.trim() || drafting) return;
+    setDrafting(true);
+    setError(null);
+    try {
+      const draft = await draftIssue({ owner, repo, description: description.trim(), template });
+      setTitle(draft.title);
+      if (template?.kind === 'form') {
+        setFieldValues(prev => ({ ...prev, ...draft.fields }));
+      } else {
+        setBody(draft.body);
+      }
+      setAcceptanceCriteria(draft.acceptanceCriteria.join('\n'));
+      setSuggestedLabels(draft.labels);
+      setLabels(prev => [...new Set([...prev, ...draft.labels])]);
+    } catch (error) {
+      logger.error('Failed to draft issue:', error);
+      setError(error instanceof Error ? error.message : 'Failed to draft the issue');
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!title.trim() || submitting) return;
+    const missing = template?.kind === 'form' ? missingRequiredFields(template.fields, fieldValues) : [];
+    if (missing.length > 0) {
+      setError(`Fill in the required fields: ${missing.join(', ')}`);
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      const content = template?.kind === 'form' ? renderFormBody(template.fields, fieldValues) : body;
+      const issue = await createIssue(owner, repo, {
+        title: title.trim(),
+        body: composeIssueBody(content, acceptanceCriteria.split('\n')),
+        labels,
+        // Template assignees GitHub would set; dropped when they can't be assigned in this repository
+        assignees: (template?.assignees ?? []).filter(login => options?.assignees.some(a => a.login === login)),
+      });
+      onCreated(issue, repository);
+    } catch (error) {
+      logger.error('Failed to create issue:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create the issue');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleLabel = (name: string) => {
+    setLabels(prev => prev.includes(name) ? prev.filter(l => l !== name) : [...prev, name]);
+  };
+
+  // Template labels missing from the repository are still shown so they can be removed
+  const labelChoices = [
+    ...(options?.labels ?? []),
+    ...labels.filter(name => !options?.labels.some(l => l.name === name)).map(name => ({ name, color: '6b7280' })),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-3xl max-h-full flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-xl">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">New issue</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="flex gap-2">
+            {repositories.length > 1 && (
+              <div className="flex-1">
+                <label className={labelClass}>Repository</label>
+                <select value={repository} onChange={(e) => setRepository(e.target.value)} className={inputClass}>
+                  {repositories.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="flex-1">
+              <label className={labelClass}>Template</label>
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                disabled={templates === null}
+                className={inputClass}
+              >
+                <option value="">{templates === null ? 'Loading templates...' : 'Blank issue'}</option>
+                {templates?.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              {template?.about && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{template.about}</p>}
+            </div>
+          </div>
+
+          <div className="p-3 rounded bg-blue-50 dark:bg-blue-900/20">
+            <label className={labelClass}>Describe the issue in a sentence and let the agent draft it</label>
+            <div className="flex gap-2">
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleDraft();
+                }}
+                maxLength={MAX_ISSUE_DESCRIPTION_LENGTH}
+                placeholder="e.g. Exporting a roadmap with more than 50 tasks times out"
+                className={inputClass}
+              />
+              <button
+                onClick={handleDraft}
+                disabled={drafting || !description.trim() || templates === null}
+                className="shrink-0 px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded transition-colors"
+              >
+                {drafting ? 'Drafting...' : 'Draft with the agent'}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Title</label>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+          </div>
+
+          {template?.kind === 'form' ? (
+            <div className="space-y-3">
+              {template.fields.map(field => (
+                <FormField
+                  key={field.id}
+                  field={field}
+                  value={fieldValues[field.id]}
+                  onChange={(value) => setFieldValues(prev => ({ ...prev, [field.id]: value }))}
+                />
+              ))}
+            </div>
+          ) : (
+            <div>
+              <label className={labelClass}>Description (Markdown)</label>
+              <textarea value={body} onChange={(e) => setBody(e.target.value)} rows={10} className={`${inputClass} font-mono`} />
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Acceptance criteria (one per line, added as a checklist)</label>
+            <textarea value={acceptanceCriteria} onChange={(e) => setAcceptanceCriteria(e.target.value)} rows={3} className={inputClass} />
+          </div>
+
+          <div>
+            <label className={labelClass}>Labels</label>
+            {labelChoices.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">{options ? 'The repository has no labels' : 'Loading labels...'}</p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {labelChoices.map(label => {
+                  const active = labels.includes(label.name);
+                  return (
+                    <button
+                      key={label.name}
+                      onClick={() => toggleLabel(label.name)}
+                      title={suggestedLabels.includes(label.name) ? 'Suggested by the agent' : undefined}
+                      className={`px-2 py-1 text-xs rounded border ${active ? '' : 'opacity-50 border-transparent'}`}
+                      style={{ backgroundColor: `#${label.color}20`, color: `#${label.color}`, borderColor: active ? `#${label.color}` : undefined }}
+                    >
+                      {label.name}{suggestedLabels.includes(label.name) && ' ✨'}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="px-4 py-2 text-sm rounded bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200">{error}</div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button onClick={onClose} className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !title.trim()}
+            className="px-3 py-1 text-sm bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded transition-colors"
+          >
+            {submitting ? 'Creating...' : 'Create issue'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
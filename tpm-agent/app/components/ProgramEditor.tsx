@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react';
+import type { RepositorySummary } from '@/lib/conversations';
+import { type Program, MAX_PROGRAM_REPOSITORIES, newProgramId, validateProgram } from '@/lib/programs';
+
+interface ProgramEditorProps {
+  // Repositories that can be added to the program
+  repositories: RepositorySummary[];
+  // Program being edited; a new one is created when absent
+  program?: Program;
+  onSave: (program: Program) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function ProgramEditor({ repositories, program, onSave, onCancel }: ProgramEditorProps) {
+  const [name, setName] = useState(program?.name ?? '');
+  // In order of selection; the first one is the primary repository
+  const [members, setMembers] = useState<RepositorySummary[]>(program?.repositories ?? []);
+  const [filter, setFilter] = useState('');
+
+  const memberIds = new Set(members.map(r => r.id));
+  const problem = validateProgram({ name, repositories: members });
+  const visible = repositories.filter(repo => repo.full_name.toLowerCase().includes(filter.toLowerCase()));
+
+  const toggle = (repo: RepositorySummary) => {
+    setMembers(prev => (memberIds.has(repo.id) ? prev.filter(r => r.id !== repo.id) : [...prev, repo]));
+  };
+
+  const makePrimary = (repo: RepositorySummary) => {
+    setMembers(prev => [repo, ...prev.filter(r => r.id !== repo.id)]);
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50/50 dark:bg-blue-900/10">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Program name, e.g. Checkout revamp"
+        className={inputClass}
+      />
+
+      {members.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {members.map((repo, index) => (
+            <li
+              key={repo.id}
+              className="flex items-center gap-2 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+            >
+              <span>{repo.full_name}</span>
+              {index === 0 ? (
+                <span className="text-blue-600 dark:text-blue-400">primary</span>
+              ) : (
+                <button onClick={() => makePrimary(repo)} className="text-gray-500 hover:text-blue-600">
+                  make primary
+                </button>
+              )}
+              <button onClick={() => toggle(repo)} className="text-gray-500 hover:text-red-600" title="Remove">
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder={`Add repositories (up to ${MAX_PROGRAM_REPOSITORIES})...`}
+        className={inputClass}
+      />
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        {visible.map(repo => (
+          <li key={repo.id}>
+            <label className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={memberIds.has(repo.id)}
+                disabled={!memberIds.has(repo.id) && members.length >= MAX_PROGRAM_REPOSITORIES}
+                onChange={() => toggle(repo)}
+              />
+              {repo.full_name}
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-end gap-2">
+        {problem && <span className="mr-auto text-xs text-gray-500 dark:text-gray-400">{problem}</span>}
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ id: program?.id ?? newProgramId(), name: name.trim(), repositories: members })}
+          disabled={!!problem}
+          className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded transition-colors"
+        >
+          Save program
+        </button>
+      </div>
+    </div>
+  );
+}
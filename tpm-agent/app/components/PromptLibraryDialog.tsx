@@ -0,0 +1,334 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react';
+import { logger } from '@/lib/logger';
+import {
+  type PromptTemplate,
+  type PromptTemplateInput,
+  type PromptTemplateSummary,
+  CONTEXT_VARIABLES,
+  createPromptTemplate,
+  deletePromptTemplate,
+  fillTemplate,
+  getPromptTemplate,
+  importPromptTemplate,
+  listPromptTemplates,
+  promptTemplateExportUrl,
+  templateVariables,
+  updatePromptTemplate,
+  validateTemplate,
+} from '@/lib/prompt-templates';
+
+interface PromptLibraryDialogProps {
+  // Variable values from the active repository or program (see contextVariables)
+  contextValues: Record<string, string>;
+  // Receives the filled-in template text
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}
+
+type Pane = 'use' | 'edit' | 'history';
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClass = 'px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors';
+const primaryButtonClass = 'px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded transition-colors';
+
+const EMPTY_DRAFT: PromptTemplateInput = { name: '', description: '', body: '' };
+
+export default function PromptLibraryDialog({ contextValues, onInsert, onClose }: PromptLibraryDialogProps) {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pane, setPane] = useState<Pane>('use');
+  // Typed values carry over between templates that share a variable
+  const [values, setValues] = useState<Record<string, string>>(() => ({ ...contextValues }));
+  // Template being edited; editingId is null for a new template
+  const [draft, setDraft] = useState<PromptTemplateInput>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [history, setHistory] = useState<PromptTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = templates.find(t => t.id === selectedId) ?? null;
+  const variables = selected ? templateVariables(selected.body) : [];
+  const filled = selected ? fillTemplate(selected.body, values) : '';
+  const unfilled = variables.filter(name => !values[name]?.trim());
+  const visible = templates.filter(t => `${t.name} ${t.description}`.toLowerCase().includes(filter.toLowerCase()));
+  const draftProblem = validateTemplate(draft);
+
+  useEffect(() => {
+    listPromptTemplates()
+      .then(list => {
+        setTemplates(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch(err => {
+        logger.error('Failed to load prompt templates:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load prompt templates');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setPane('use');
+    setError(null);
+  };
+
+  // Replace or add a template in the list and select it
+  const upsert = (template: PromptTemplate) => {
+    const { id, version, name, description, body, createdAt, updatedAt } = template;
+    const summary = { id, version, name, description, body, createdAt, updatedAt };
+    setTemplates(prev => [...prev.filter(t => t.id !== template.id), summary].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedId(template.id);
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      logger.error(`${failure}:`, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEdit = (template: PromptTemplateSummary | null) => {
+    setEditingId(template?.id ?? null);
+    setDraft(template ? { name: template.name, description: template.description, body: template.body } : EMPTY_DRAFT);
+    setPane('edit');
+  };
+
+  const saveDraft = () => run(async () => {
+    upsert(editingId ? await updatePromptTemplate(editingId, draft) : await createPromptTemplate(draft));
+    setPane('use');
+  }, 'Failed to save template');
+
+  const showHistory = (id: string) => run(async () => {
+    setHistory(await getPromptTemplate(id));
+    setPane('history');
+  }, 'Failed to load template history');
+
+  // Restoring saves the old content as a new version, so nothing is lost
+  const restore = (version: PromptTemplateInput) => run(async () => {
+    if (!history) return;
+    const template = await updatePromptTemplate(history.id, version);
+    upsert(template);
+    setHistory(template);
+  }, 'Failed to restore version');
+
+  const remove = (template: PromptTemplateSummary) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    run(async () => {
+      await deletePromptTemplate(template.id);
+      const remaining = templates.filter(t => t.id !== template.id);
+      setTemplates(remaining);
+      setSelectedId(remaining[0]?.id ?? null);
+    }, 'Failed to delete template');
+  };
+
+  const importFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    run(async () => {
+      for (const file of Array.from(files)) {
+        upsert(await importPromptTemplate(await file.text(), file.name));
+      }
+      setPane('use');
+    }, 'Failed to import template');
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-5xl h-[80vh] flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-xl">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Prompt templates</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 text-xl"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-72 flex-shrink-0 flex flex-col border-r border-gray-200 dark:border-gray-700">
+            <div className="p-3 space-y-2 border-b border-gray-200 dark:border-gray-700">
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Search templates..."
+                className={inputClass}
+              />
+              <div className="flex gap-2">
+                <button onClick={() => startEdit(null)} className={buttonClass}>New</button>
+                <button onClick={() => importInputRef.current?.click()} disabled={isSaving} className={buttonClass}>
+                  Import .md
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".md,text/markdown"
+                  multiple
+                  onChange={(e) => importFiles(e.target.files)}
+                  className="hidden"
+                />
+              </div>
+            </div>
+            <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {isLoading && <li className="p-3 text-sm text-gray-500 dark:text-gray-400">Loading...</li>}
+              {!isLoading && visible.length === 0 && (
+                <li className="p-3 text-sm text-gray-500 dark:text-gray-400">No templates</li>
+              )}
+              {visible.map(template => (
+                <li key={template.id}>
+                  <button
+                    onClick={() => select(template.id)}
+                    className={`w-full text-left px-3 py-2 ${
+                      template.id === selectedId ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">{template.name}</div>
+                    {template.description && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{template.description}</div>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col p-4 overflow-y-auto space-y-3">
+            {error && (
+              <div className="p-2 text-sm rounded bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400">{error}</div>
+            )}
+
+            {pane === 'use' && selected && (
+              <>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{selected.name}</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Version {selected.version} · updated {new Date(selected.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button onClick={() => startEdit(selected)} className={buttonClass}>Edit</button>
+                    <button onClick={() => showHistory(selected.id)} disabled={isSaving} className={buttonClass}>History</button>
+                    <a href={promptTemplateExportUrl(selected.id)} download className={buttonClass}>Export</a>
+                    <button onClick={() => remove(selected)} disabled={isSaving} className={`${buttonClass} hover:text-red-600`}>
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {variables.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {variables.map(name => (
+                      <label key={name} className="text-xs text-gray-600 dark:text-gray-400">
+                        <span className="font-mono">{name}</span>
+                        {CONTEXT_VARIABLES[name] && contextValues[name] && <span> (from the active context)</span>}
+                        <input
+                          value={values[name] ?? ''}
+                          onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                          placeholder={CONTEXT_VARIABLES[name] ?? name.replace(/_/g, ' ')}
+                          className={inputClass}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                <pre className="flex-1 min-h-[8rem] whitespace-pre-wrap p-3 text-sm rounded border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200">
+                  {filled}
+                </pre>
+
+                <div className="flex items-center justify-end gap-2">
+                  {unfilled.length > 0 && (
+                    <span className="mr-auto text-xs text-gray-500 dark:text-gray-400">
+                      Left as placeholders: {unfilled.join(', ')}
+                    </span>
+                  )}
+                  <button onClick={() => onInsert(filled)} className={primaryButtonClass}>
+                    Insert into message
+                  </button>
+                </div>
+              </>
+            )}
+
+            {pane === 'use' && !selected && !isLoading && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Create a template or import a markdown file. Use {'{{variable}}'} placeholders; {Object.keys(CONTEXT_VARIABLES).join(', ')} are filled from the active repository or program.
+              </p>
+            )}
+
+            {pane === 'edit' && (
+              <>
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                  placeholder="Template name"
+                  className={inputClass}
+                />
+                <input
+                  value={draft.description}
+                  onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))}
+                  placeholder="Short description"
+                  className={inputClass}
+                />
+                <textarea
+                  value={draft.body}
+                  onChange={(e) => setDraft(d => ({ ...d, body: e.target.value }))}
+                  placeholder="Prompt text with {{variables}}, e.g. Plan {{project_name}} for {{stakeholders}}"
+                  className={`${inputClass} flex-1 min-h-[12rem] font-mono`}
+                />
+                <div className="flex items-center justify-end gap-2">
+                  <span className="mr-auto text-xs text-gray-500 dark:text-gray-400">
+                    {draftProblem ?? `Variables: ${templateVariables(draft.body).join(', ') || 'none'}`}
+                  </span>
+                  <button onClick={() => setPane('use')} className={buttonClass}>Cancel</button>
+                  <button onClick={saveDraft} disabled={!!draftProblem || isSaving} className={primaryButtonClass}>
+                    {editingId ? 'Save new version' : 'Create template'}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {pane === 'history' && history && (
+              <>
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-gray-900 dark:text-white">History of {history.name}</h3>
+                  <button onClick={() => setPane('use')} className={buttonClass}>Back</button>
+                </div>
+                {history.history.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">This is the first version.</p>
+                )}
+                <ul className="space-y-3">
+                  {history.history.map(version => (
+                    <li key={version.version} className="p-3 rounded border border-gray-200 dark:border-gray-700">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm text-gray-700 dark:text-gray-300">
+                          Version {version.version} · {version.name} · {new Date(version.updatedAt).toLocaleString()}
+                        </span>
+                        <button onClick={() => restore({ name: version.name, description: version.description, body: version.body })} disabled={isSaving} className={buttonClass}>
+                          Restore
+                        </button>
+                      </div>
+                      <pre className="whitespace-pre-wrap text-xs text-gray-600 dark:text-gray-400 max-h-40 overflow-y-auto">{version.body}</pre>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
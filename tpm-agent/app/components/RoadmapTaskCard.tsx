@@ -0,0 +1,126 @@
+'use client'
+
+import type { RoadmapTask } from '@/lib/roadmap';
+
+interface RoadmapTaskCardProps {
+  task: RoadmapTask;
+  // IDs of every task in the roadmap, offered as dependencies
+  taskIds: string[];
+  // Repositories of the active program (primary first); the repository picker is hidden without them
+  repositories?: string[];
+  onChange: (task: RoadmapTask) => void;
+  onRemove: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1';
+
+export default function RoadmapTaskCard({ task, taskIds, repositories = [], onChange, onRemove }: RoadmapTaskCardProps) {
+  const update = (patch: Partial<RoadmapTask>) => onChange({ ...task, ...patch });
+
+  const toggleDependency = (id: string) => {
+    update({
+      dependencies: task.dependencies.includes(id)
+        ? task.dependencies.filter(d => d !== id)
+        : [...task.dependencies, id],
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm border border-gray-200 dark:border-gray-700 space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="shrink-0 px-2 py-0.5 text-xs font-mono rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+          {task.id}
+        </span>
+        <input
+          value={task.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder="Task title"
+          className={`${inputClass} font-medium`}
+        />
+        <button
+          onClick={onRemove}
+          className="shrink-0 text-gray-400 hover:text-red-600"
+          title="Remove task"
+        >
+          ×
+        </button>
+      </div>
+
+      <div>
+        <label className={labelClass}>Description</label>
+        <textarea
+          value={task.description}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={2}
+          className={`${inputClass} resize-y`}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>Acceptance Criteria (one per line)</label>
+        <textarea
+          value={task.acceptanceCriteria.join('\n')}
+          onChange={(e) => update({ acceptanceCriteria: e.target.value.split('\n') })}
+          onBlur={() => update({ acceptanceCriteria: task.acceptanceCriteria.map(c => c.trim()).filter(Boolean) })}
+          rows={3}
+          className={`${inputClass} resize-y`}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>Implementation Prompt</label>
+        <textarea
+          value={task.implementationPrompt}
+          onChange={(e) => update({ implementationPrompt: e.target.value })}
+          rows={3}
+          className={`${inputClass} resize-y font-mono text-xs`}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={task.parallelizable}
+            onChange={(e) => update({ parallelizable: e.target.checked })}
+          />
+          Parallelizable
+        </label>
+        {(repositories.length > 1 || task.repository) && (
+          <label className="flex items-center gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Repository:</span>
+            <select
+              value={task.repository ?? ''}
+              onChange={(e) => update({ repository: e.target.value || null })}
+              className="px-1 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+            >
+              <option value="">{repositories[0] ? `${repositories[0]} (primary)` : 'Active repository'}</option>
+              {[...new Set([...repositories.slice(1), task.repository ?? ''])]
+                .filter(Boolean)
+                .map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+        )}
+        {taskIds.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Depends on:</span>
+            {taskIds.filter(id => id !== task.id).map(id => (
+              <button
+                key={id}
+                onClick={() => toggleDependency(id)}
+                className={`px-1.5 py-0.5 text-xs font-mono rounded border transition-colors ${
+                  task.dependencies.includes(id)
+                    ? 'bg-blue-500 border-blue-500 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {id}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
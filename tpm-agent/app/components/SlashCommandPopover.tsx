@@ -0,0 +1,52 @@
+'use client'
+
+import type { SlashSuggestion } from '@/lib/slash-commands';
+
+interface SlashCommandPopoverProps {
+  suggestions: SlashSuggestion[];
+  activeIndex: number;
+  // Usage line of the command being typed, once its name is complete
+  usage: string | null;
+  onSelect: (suggestion: SlashSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+export default function SlashCommandPopover({ suggestions, activeIndex, usage, onSelect, onHover }: SlashCommandPopoverProps) {
+  if (suggestions.length === 0 && !usage) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg text-sm">
+      {usage && (
+        <div className="px-3 py-2 font-mono text-xs text-gray-600 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+          {usage}
+        </div>
+      )}
+      {suggestions.length > 0 && (
+        <ul role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the textarea
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(suggestion);
+              }}
+              onMouseEnter={() => onHover(index)}
+              className={`flex items-baseline gap-3 px-3 py-1.5 cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+              }`}
+            >
+              <span className="font-mono text-gray-900 dark:text-white">{suggestion.label}</span>
+              <span className="truncate text-xs text-gray-500 dark:text-gray-400">{suggestion.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="px-3 py-1 text-[11px] text-gray-400 dark:text-gray-500 border-t border-gray-100 dark:border-gray-700">
+        Tab to complete · Esc to close · start with // to send a literal slash
+      </div>
+    </div>
+  );
+}
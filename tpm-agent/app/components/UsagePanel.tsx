@@ -0,0 +1,98 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import {
+  type PriceTable,
+  type UsageReport,
+  type UsageTotals,
+  combinedUsage,
+  estimateCost,
+  fetchUsage,
+  findPrice,
+} from '@/lib/usage';
+import { logger } from '@/lib/logger';
+
+interface UsagePanelProps {
+  conversationId: string | null;
+  // Changes whenever new usage arrives, to refetch while the panel is open
+  refreshKey: number;
+}
+
+function formatCost(cost: number | null): string {
+  if (cost === null) return 'n/a';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function UsageSection({ title, totals, prices }: { title: string; totals: UsageTotals; prices: PriceTable }) {
+  const usage = combinedUsage(totals);
+  const unpriced = Object.keys(totals.byModel).filter(model => !findPrice(prices, model));
+
+  return (
+    <div>
+      <div className="flex justify-between font-medium text-gray-900 dark:text-white">
+        <span>{title}</span>
+        <span title="Estimated from the configured price table">{formatCost(estimateCost(totals, prices))}</span>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 text-gray-600 dark:text-gray-400">
+        <dt>Responses</dt><dd className="text-right">{totals.responses.toLocaleString()}</dd>
+        <dt>Input tokens</dt><dd className="text-right">{usage.inputTokens.toLocaleString()}</dd>
+        <dt>Cached input</dt><dd className="text-right">{usage.cachedTokens.toLocaleString()}</dd>
+        <dt>Output tokens</dt><dd className="text-right">{usage.outputTokens.toLocaleString()}</dd>
+      </dl>
+      {unpriced.length > 0 && (
+        <div className="mt-1 text-amber-600 dark:text-amber-400">
+          No price configured for {unpriced.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePanel({ conversationId, refreshKey }: UsagePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    fetchUsage(conversationId)
+      .then((data) => {
+        if (cancelled) return;
+        setReport(data);
+        setError(null);
+      })
+      .catch((err) => {
+        logger.error('Failed to load usage:', err);
+        if (!cancelled) setError('Failed to load usage');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, conversationId, refreshKey]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors"
+      >
+        Usage
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-72 p-3 space-y-3 text-xs rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+          {!report && !error && <div className="text-gray-500 dark:text-gray-400">Loading usage...</div>}
+          {report && (
+            <>
+              {report.conversation && (
+                <UsageSection title="This conversation" totals={report.conversation} prices={report.prices} />
+              )}
+              <UsageSection title="All conversations" totals={report.user} prices={report.prices} />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 'use client'
 
-import { createContext, useContext, useState, ReactNode } from 'react'
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react'
+import { type ApprovalMode, DEFAULT_APPROVAL_MODE, fetchApprovalModes, isApprovalMode, saveApprovalMode } from '@/lib/approvals'
+import { logger } from '@/lib/logger'
+import type { Program } from '@/lib/programs'
 
 interface Repository {
   id: number
@@ -20,6 +23,18 @@ interface RepositoryContextType {
   setSelectedRepository: (repo: Repository | null) => void
   lastUpdatedRepositoryId: number | null
   markRepositoryContextUpdated: (repoId: number | null) => void
+  approvalMode: ApprovalMode
+  // Saved on the server, which applies it to the selected repository's chat requests
+  setApprovalMode: (mode: ApprovalMode) => Promise<void>
+  programs: Program[]
+  // Program whose repositories form the active context; selectedRepository is its primary repository
+  activeProgram: Program | null
+  // Returns false, changing nothing, when the program doesn't exist
+  setActiveProgram: (programId: string | null) => boolean
+  saveProgram: (program: Program) => void
+  deleteProgram: (programId: string) => void
+  // Repositories in the active context: the program's, or just the selected repository
+  contextRepositories: Repository[]
 }
 
 const RepositoryContext = createContext<RepositoryContextType | undefined>(undefined)
@@ -47,7 +62,54 @@ export function RepositoryProvider({ children }: { children: ReactNode }) {
     return null
   })
 
-  const handleSetSelectedRepository = (repo: Repository | null) => {
+  // Tool approval policy per repository, keyed by full_name; a copy of what /api/approvals keeps
+  const [approvalModes, setApprovalModes] = useState<Record<string, ApprovalMode>>({})
+
+  const [programs, setPrograms] = useState<Program[]>(() => {
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem('programs')
+      if (saved) {
+        try {
+          return JSON.parse(saved)
+        } catch {
+          return []
+        }
+      }
+    }
+    return []
+  })
+
+  const [activeProgramId, setActiveProgramId] = useState<string | null>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('activeProgramId')
+    }
+    return null
+  })
+
+  const activeProgram = programs.find(p => p.id === activeProgramId) ?? null
+  const contextRepositories = useMemo(
+    () => (activeProgram ? activeProgram.repositories : selectedRepository ? [selectedRepository] : []),
+    [activeProgram, selectedRepository]
+  )
+
+  const savedMode = selectedRepository ? approvalModes[selectedRepository.full_name] : undefined
+  const approvalMode = isApprovalMode(savedMode) ? savedMode : DEFAULT_APPROVAL_MODE
+
+  const selectedFullName = selectedRepository?.full_name
+  useEffect(() => {
+    if (!selectedFullName) return
+    fetchApprovalModes()
+      .then(setApprovalModes)
+      .catch((error) => logger.error('Failed to fetch approval policies:', error))
+  }, [selectedFullName])
+
+  const setApprovalMode = async (mode: ApprovalMode) => {
+    if (!selectedRepository) return
+    setApprovalModes(await saveApprovalMode(selectedRepository.full_name, mode))
+  }
+
+  // Select the repository and reset context tracking so the chat sends the new context
+  const selectRepository = useCallback((repo: Repository | null) => {
     setSelectedRepository(repo)
     if (typeof window !== 'undefined') {
       if (repo) {
@@ -62,9 +124,64 @@ export function RepositoryProvider({ children }: { children: ReactNode }) {
         localStorage.removeItem('lastUpdatedRepositoryId')
       }
     }
+  }, [])
+
+  const storeActiveProgramId = useCallback((programId: string | null) => {
+    setActiveProgramId(programId)
+    if (typeof window !== 'undefined') {
+      if (programId) {
+        localStorage.setItem('activeProgramId', programId)
+      } else {
+        localStorage.removeItem('activeProgramId')
+      }
+    }
+  }, [])
+
+  // Picking a single repository leaves program mode
+  const handleSetSelectedRepository = useCallback((repo: Repository | null) => {
+    storeActiveProgramId(null)
+    selectRepository(repo)
+  }, [storeActiveProgramId, selectRepository])
+
+  const setActiveProgram = useCallback((programId: string | null) => {
+    if (programId === null) {
+      // Back to the selected repository on its own; its context has to be sent again
+      storeActiveProgramId(null)
+      selectRepository(selectedRepository)
+      return true
+    }
+    const program = programs.find(p => p.id === programId)
+    if (!program) return false
+    storeActiveProgramId(program.id)
+    selectRepository(program.repositories[0] ?? null)
+    return true
+  }, [programs, selectedRepository, storeActiveProgramId, selectRepository])
+
+  const storePrograms = (next: Program[]) => {
+    setPrograms(next)
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('programs', JSON.stringify(next))
+    }
+  }
+
+  const saveProgram = (program: Program) => {
+    const exists = programs.some(p => p.id === program.id)
+    storePrograms(exists ? programs.map(p => (p.id === program.id ? program : p)) : [...programs, program])
+    if (program.id === activeProgramId) {
+      // Membership may have changed: re-send the program context
+      selectRepository(program.repositories[0] ?? null)
+    }
   }
 
-  const markRepositoryContextUpdated = (repoId: number | null) => {
+  const deleteProgram = (programId: string) => {
+    storePrograms(programs.filter(p => p.id !== programId))
+    if (programId === activeProgramId) {
+      storeActiveProgramId(null)
+      selectRepository(selectedRepository)
+    }
+  }
+
+  const markRepositoryContextUpdated = useCallback((repoId: number | null) => {
     setLastUpdatedRepositoryId(repoId)
     if (typeof window !== 'undefined') {
       if (repoId !== null) {
@@ -73,14 +190,22 @@ export function RepositoryProvider({ children }: { children: ReactNode }) {
         localStorage.removeItem('lastUpdatedRepositoryId')
       }
     }
-  }
+  }, [])
 
   return (
     <RepositoryContext.Provider value={{ 
       selectedRepository, 
       setSelectedRepository: handleSetSelectedRepository,
       lastUpdatedRepositoryId,
-      markRepositoryContextUpdated
+      markRepositoryContextUpdated,
+      approvalMode,
+      setApprovalMode,
+      programs,
+      activeProgram,
+      setActiveProgram,
+      saveProgram,
+      deleteProgram,
+      contextRepositories
     }}>
       {children}
     </RepositoryContext.Provider>
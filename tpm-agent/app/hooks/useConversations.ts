@@ -0,0 +1,183 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/app/utils/toast';
+import { logger } from '@/lib/logger';
+import { isRecord } from '@/lib/util';
+import {
+  type ChatMessage,
+  type Conversation,
+  type ConversationSummary,
+  type RepositorySummary,
+  createConversation,
+  deleteConversation,
+  listConversations,
+  updateConversation,
+} from '@/lib/conversations';
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    repositoryFullName: conversation.repository?.full_name ?? null,
+    messageCount: conversation.messages.length,
+  };
+}
+
+// Chat history from before threads were stored on the server
+const LEGACY_MESSAGES_KEY = 'chatMessages';
+const LEGACY_RESPONSE_ID_KEY = 'lastResponseId';
+
+let legacyImport: Promise<Conversation | null> | null = null;
+
+/**
+ * Move the chat kept in localStorage into a new thread, once; the old keys are removed after it is saved.
+ */
+function importLegacyChat(): Promise<Conversation | null> {
+  legacyImport ??= (async () => {
+    const saved = localStorage.getItem(LEGACY_MESSAGES_KEY);
+    if (saved === null) return null;
+
+    let parsed: unknown = [];
+    try {
+      parsed = JSON.parse(saved);
+    } catch {
+      logger.warn('Discarding unreadable chat history from localStorage');
+    }
+    const messages: ChatMessage[] = (Array.isArray(parsed) ? parsed : []).flatMap((message: unknown, index) =>
+      isRecord(message) && (message.role === 'user' || message.role === 'assistant') && typeof message.content === 'string'
+        ? [{ id: typeof message.id === 'string' ? message.id : `legacy-${index}`, role: message.role, content: message.content }]
+        : []
+    );
+
+    let conversation: Conversation | null = null;
+    if (messages.length > 0) {
+      const created = await createConversation();
+      conversation = await updateConversation(created.id, {
+        messages,
+        previousResponseId: localStorage.getItem(LEGACY_RESPONSE_ID_KEY),
+      });
+      logger.info(`Imported ${messages.length} messages from the previous chat history`);
+    }
+    localStorage.removeItem(LEGACY_MESSAGES_KEY);
+    localStorage.removeItem(LEGACY_RESPONSE_ID_KEY);
+    return conversation;
+  })().catch((error) => {
+    // Keep the old keys so the import is tried again next time
+    legacyImport = null;
+    throw error;
+  });
+  return legacyImport;
+}
+
+export function useConversations() {
+  const { showToast } = useToast();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('activeConversationId');
+    }
+    return null;
+  });
+  const [isLoading, setIsLoading] = useState(true);
+
+  const select = useCallback((id: string | null) => {
+    setActiveId(id);
+    if (id) {
+      localStorage.setItem('activeConversationId', id);
+    } else {
+      localStorage.removeItem('activeConversationId');
+    }
+  }, []);
+
+  // Keep the sidebar entry in sync after the thread is saved elsewhere
+  const applyUpdate = useCallback((conversation: Conversation) => {
+    const summary = toSummary(conversation);
+    setConversations(prev => [summary, ...prev.filter(c => c.id !== summary.id)]);
+  }, []);
+
+  const create = useCallback(async (repository?: RepositorySummary | null) => {
+    try {
+      const conversation = await createConversation({ repository });
+      applyUpdate(conversation);
+      select(conversation.id);
+      return conversation;
+    } catch (error) {
+      logger.error('Failed to create conversation:', error);
+      showToast('Failed to create conversation', 'error');
+      return null;
+    }
+  }, [applyUpdate, select, showToast]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    try {
+      applyUpdate(await updateConversation(id, { title }));
+    } catch (error) {
+      logger.error('Failed to rename conversation:', error);
+      showToast('Failed to rename conversation', 'error');
+    }
+  }, [applyUpdate, showToast]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteConversation(id);
+      const remaining = conversations.filter(c => c.id !== id);
+      setConversations(remaining);
+      if (remaining.length === 0) {
+        await create();
+      } else if (id === activeId) {
+        select(remaining[0].id);
+      }
+    } catch (error) {
+      logger.error('Failed to delete conversation:', error);
+      showToast('Failed to delete conversation', 'error');
+    }
+  }, [conversations, activeId, create, select, showToast]);
+
+  useEffect(() => {
+    let cancelled = false;
+    importLegacyChat()
+      .catch((error) => {
+        logger.error('Failed to import the previous chat history:', error);
+        return null;
+      })
+      .then(async (imported) => {
+        const list = await listConversations();
+        if (cancelled) return;
+        setConversations(list);
+        if (imported) {
+          select(imported.id);
+        } else if (list.length === 0) {
+          const conversation = await createConversation();
+          if (cancelled) return;
+          setConversations([toSummary(conversation)]);
+          select(conversation.id);
+        } else if (!list.some(c => c.id === localStorage.getItem('activeConversationId'))) {
+          select(list[0].id);
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to load conversations:', error);
+        showToast('Failed to load conversations', 'error');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [select, showToast]);
+
+  return {
+    conversations,
+    activeId,
+    isLoading,
+    select,
+    create,
+    rename,
+    remove,
+    applyUpdate,
+  };
+}
@@ -1,14 +1,22 @@
 'use client'
 
 import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
 import Chat from "./chat";
 import Repo from "./repo";
 import RepoIssues from "./repo-issues";
+import RoadmapView from "./roadmap";
+import Sprints from "./sprints";
 import { useRepository } from "./context/repository";
+import GitHubQuota from "./components/GitHubQuota";
+import type { IssueContext } from "@/lib/issue-detail";
 
 export default function Home() {
-  const [currentView, setCurrentView] = useState<'repo' | 'chat' | 'repo-issues'>('repo');
-  const { selectedRepository } = useRepository();
+  const [currentView, setCurrentView] = useState<'repo' | 'chat' | 'repo-issues' | 'sprints' | 'roadmap'>('repo');
+  const { selectedRepository, activeProgram } = useRepository();
+  const { status } = useSession();
+  // Issue handed from the issues view to Chat
+  const [issueContext, setIssueContext] = useState<IssueContext | null>(null);
   const [mounted, setMounted] = useState(false);
   useEffect(() => setMounted(true), []);
 
@@ -38,6 +46,16 @@ export default function Home() {
             >
               Repo Issues
             </button>
+            <button
+              onClick={() => setCurrentView('sprints')}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                currentView === 'sprints'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              Sprints
+            </button>
             <button
               onClick={() => setCurrentView('chat')}
               className={`px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -48,25 +66,61 @@ export default function Home() {
             >
               Chat
             </button>
-          </div>
-          {mounted && selectedRepository && (
-            <a
-              href={selectedRepository.html_url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors cursor-pointer"
+            <button
+              onClick={() => setCurrentView('roadmap')}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                currentView === 'roadmap'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
             >
-              Active repository: {selectedRepository.full_name}
-            </a>
-          )}
+              Roadmap
+            </button>
+          </div>
+          <div className="flex items-center gap-4">
+            {mounted && status === 'authenticated' && <GitHubQuota />}
+            {mounted && activeProgram && (
+              <span
+                className="text-sm text-blue-600 dark:text-blue-400"
+                title={activeProgram.repositories.map(r => r.full_name).join(', ')}
+              >
+                Active program: {activeProgram.name} ({activeProgram.repositories.length} repositories)
+              </span>
+            )}
+            {mounted && !activeProgram && selectedRepository && (
+              <a
+                href={selectedRepository.html_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors cursor-pointer"
+              >
+                Active repository: {selectedRepository.full_name}
+              </a>
+            )}
+          </div>
         </div>
       </nav>
 
       {/* Content */}
       <div className="flex-1 overflow-hidden">
         {currentView === 'repo' && <Repo />}
-        {currentView === 'repo-issues' && <RepoIssues />}
-        {currentView === 'chat' && <Chat />}
+        {currentView === 'repo-issues' && (
+          <RepoIssues
+            onAskAgent={(context) => {
+              setIssueContext(context);
+              setCurrentView('chat');
+            }}
+          />
+        )}
+        {currentView === 'sprints' && <Sprints />}
+        {currentView === 'chat' && (
+          <Chat
+            onOpenRoadmap={() => setCurrentView('roadmap')}
+            issueContext={issueContext}
+            onIssueContextUsed={() => setIssueContext(null)}
+          />
+        )}
+        {currentView === 'roadmap' && <RoadmapView onOpenChat={() => setCurrentView('chat')} />}
       </div>
     </div>
   );
@@ -1,38 +1,239 @@
 'use client'
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { useSession } from "next-auth/react"
 import { useRepository } from "./context/repository"
 import Image from "next/image"
-import { fetchIssues as fetchIssuesFromApi, type Issue } from "@/lib/issues-client"
+import {
+  type Issue,
+  type IssueFilters,
+  type IssueKind,
+  type IssueSort,
+  type IssueState,
+  compareIssues,
+  fetchIssuePage,
+  isPullRequest,
+} from "@/lib/issues-client"
+import type { IssueContext } from "@/lib/issue-detail"
+import { fetchSprintMilestones, type SprintMilestone } from "@/lib/sprints"
+import IssueDetailPane from "./components/IssueDetailPane"
+import NewIssueDialog from "./components/NewIssueDialog"
 
+// Sprint filter values besides a sprint title
+const ALL_SPRINTS = 'all'
+const NO_SPRINT = 'none'
+// Typed filters are applied once the user stops typing for this long
+const FILTER_DEBOUNCE_MS = 400
 
-export default function RepoIssues() {
+const SORT_OPTIONS: Array<{ value: string; label: string; sort: IssueSort; direction: 'asc' | 'desc' }> = [
+  { value: 'updated-desc', label: 'Recently updated', sort: 'updated', direction: 'desc' },
+  { value: 'created-desc', label: 'Newest', sort: 'created', direction: 'desc' },
+  { value: 'created-asc', label: 'Oldest', sort: 'created', direction: 'asc' },
+  { value: 'comments-desc', label: 'Most commented', sort: 'comments', direction: 'desc' },
+]
+
+// Free-text filters, comma-separated for labels
+interface TextFilters {
+  q: string
+  labels: string
+  assignee: string
+  author: string
+  milestone: string
+}
+
+const EMPTY_TEXT_FILTERS: TextFilters = { q: '', labels: '', assignee: '', author: '', milestone: '' }
+
+const inputClass = "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+
+interface RepoIssuesProps {
+  // Open Chat with an issue as context
+  onAskAgent?: (context: IssueContext) => void
+}
+
+export default function RepoIssues({ onAskAgent }: RepoIssuesProps) {
   const { data: session } = useSession()
-  const { selectedRepository } = useRepository()
+  const { selectedRepository, activeProgram, contextRepositories } = useRepository()
   const [issues, setIssues] = useState<Issue[]>([])
   const [loading, setLoading] = useState(false)
+  const [sprints, setSprints] = useState<SprintMilestone[]>([])
+  const [sprintFilter, setSprintFilter] = useState<string>(ALL_SPRINTS)
+  // Program repositories whose issues could not be loaded
+  const [failedRepositories, setFailedRepositories] = useState<string[]>([])
+  const [kind, setKind] = useState<IssueKind>('issues')
+  const [issueState, setIssueState] = useState<IssueState>('open')
+  const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value)
+  const [textFilters, setTextFilters] = useState<TextFilters>(EMPTY_TEXT_FILTERS)
+  const [appliedTextFilters, setAppliedTextFilters] = useState<TextFilters>(EMPTY_TEXT_FILTERS)
+  // Next page cursor per repository; null once its last page is loaded
+  const [cursors, setCursors] = useState<Record<string, string | null>>({})
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Number of search matches; only known when searching
+  const [totalCount, setTotalCount] = useState<number | null>(null)
+  // Bumped on every reload so pages of a previous filter set are dropped
+  const requestRef = useRef(0)
+  const listRef = useRef<HTMLDivElement>(null)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  // Issue shown in the detail pane
+  const [openIssue, setOpenIssue] = useState<{ repository: string; number: number } | null>(null)
+  const [showNewIssue, setShowNewIssue] = useState(false)
 
-const fetchIssues = useCallback(async () => {
-    if (!selectedRepository || !session) return
-    
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedTextFilters(textFilters), FILTER_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [textFilters])
+
+  const filters = useMemo<IssueFilters>(() => {
+    const { sort, direction } = SORT_OPTIONS.find(o => o.value === sortOption) ?? SORT_OPTIONS[0]
+    return {
+      state: issueState,
+      kind,
+      sort,
+      direction,
+      q: appliedTextFilters.q.trim() || undefined,
+      labels: appliedTextFilters.labels.split(',').map(label => label.trim()).filter(Boolean),
+      assignee: appliedTextFilters.assignee.trim() || undefined,
+      author: appliedTextFilters.author.trim() || undefined,
+      milestone: appliedTextFilters.milestone.trim() || undefined,
+    }
+  }, [issueState, kind, sortOption, appliedTextFilters])
+
+  const fetchIssues = useCallback(async () => {
+    if (contextRepositories.length === 0 || !session) return
+
+    const request = ++requestRef.current
     setLoading(true)
     try {
-      const [owner, repo] = selectedRepository.full_name.split("/");
-      const issuesData = await fetchIssuesFromApi(owner, repo)
-      setIssues(issuesData)
+      // Programs list the issues of every repository together, each page merged in sort order
+      const perRepository = await Promise.all(contextRepositories.map(async (repository) => {
+        const [owner, repo] = repository.full_name.split("/")
+        const page = await fetchIssuePage(owner, repo, filters).catch((error) => {
+          console.error(`Failed to fetch issues for ${repository.full_name}:`, error)
+          return null
+        })
+        return { repository: repository.full_name, page }
+      }))
+      if (request !== requestRef.current) return
+      setIssues(perRepository
+        .flatMap(r => (r.page?.items ?? []).map(issue => ({ ...issue, repository: r.repository })))
+        .sort(compareIssues(filters.sort, filters.direction)))
+      setCursors(Object.fromEntries(perRepository.map(r => [r.repository, r.page?.nextCursor ?? null])))
+      setTotalCount(perRepository.every(r => r.page?.totalCount != null)
+        ? perRepository.reduce((sum, r) => sum + (r.page?.totalCount ?? 0), 0)
+        : null)
+      setFailedRepositories(perRepository.filter(r => r.page === null).map(r => r.repository))
     } catch (error) {
       console.error('Failed to fetch issues:', error)
     } finally {
-      setLoading(false)
+      if (request === requestRef.current) setLoading(false)
     }
-  }, [selectedRepository, session])
+  }, [contextRepositories, session, filters])
+
+  const hasMore = Object.values(cursors).some(Boolean)
+
+  const loadMore = useCallback(async () => {
+    const pending = Object.entries(cursors).filter((entry): entry is [string, string] => !!entry[1])
+    if (pending.length === 0 || loading || loadingMore) return
+
+    const request = requestRef.current
+    setLoadingMore(true)
+    try {
+      const pages = await Promise.all(pending.map(async ([repository, cursor]) => {
+        const [owner, repo] = repository.split("/")
+        const page = await fetchIssuePage(owner, repo, filters, cursor).catch((error) => {
+          console.error(`Failed to fetch more issues for ${repository}:`, error)
+          return null
+        })
+        return { repository, page }
+      }))
+      if (request !== requestRef.current) return
+      setIssues(prev => {
+        const seen = new Set(prev.map(issue => issue.id))
+        const added = pages.flatMap(p => (p.page?.items ?? [])
+          .filter(issue => !seen.has(issue.id))
+          .map(issue => ({ ...issue, repository: p.repository })))
+        return [...prev, ...added].sort(compareIssues(filters.sort, filters.direction))
+      })
+      // A repository whose next page failed stops paging rather than retrying on every scroll
+      setCursors(prev => ({ ...prev, ...Object.fromEntries(pages.map(p => [p.repository, p.page?.nextCursor ?? null])) }))
+      const failed = pages.filter(p => p.page === null).map(p => p.repository)
+      if (failed.length > 0) setFailedRepositories(prev => [...new Set([...prev, ...failed])])
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [cursors, filters, loading, loadingMore])
 
   useEffect(() => {
-    if (selectedRepository && session) {
+    if (contextRepositories.length > 0 && session) {
       fetchIssues()
     }
-  }, [selectedRepository, session, fetchIssues])
+  }, [contextRepositories, session, fetchIssues])
+
+  useEffect(() => {
+    if (contextRepositories.length === 0 || !session) return
+    setSprintFilter(ALL_SPRINTS)
+    let cancelled = false
+    Promise.all(contextRepositories.map(repository => {
+      const [owner, repo] = repository.full_name.split("/")
+      return fetchSprintMilestones(owner, repo).catch((error) => {
+        console.error('Failed to fetch sprints:', error)
+        return [] as SprintMilestone[]
+      })
+    })).then(perRepository => {
+      if (cancelled) return
+      // Sprints are matched by title, so "Sprint 2" covers that sprint in every repository
+      const sprintTitles = new Set<string>()
+      setSprints(perRepository.flat().filter(sprint => {
+        if (sprintTitles.has(sprint.title)) return false
+        sprintTitles.add(sprint.title)
+        return true
+      }))
+    })
+    return () => { cancelled = true }
+  }, [contextRepositories, session])
+
+  // Infinite scroll: load the next pages when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore()
+    }, { root: listRef.current, rootMargin: '200px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
+
+  const handleIssueUpdated = useCallback((updated: Issue) => {
+    setIssues(prev => prev.map(issue => issue.id === updated.id ? { ...updated, repository: issue.repository } : issue))
+  }, [])
+
+  const closeIssue = useCallback(() => setOpenIssue(null), [])
+
+  const handleIssueCreated = (issue: Issue, repository: string) => {
+    setShowNewIssue(false)
+    setIssues(prev => [{ ...issue, repository }, ...prev])
+    setOpenIssue({ repository, number: issue.number })
+  }
+
+  const setTextFilter = (name: keyof TextFilters, value: string) => {
+    setTextFilters(prev => ({ ...prev, [name]: value }))
+  }
+
+  const clearFilters = () => {
+    setIssueState('open')
+    setSortOption(SORT_OPTIONS[0].value)
+    setTextFilters(EMPTY_TEXT_FILTERS)
+    setAppliedTextFilters(EMPTY_TEXT_FILTERS)
+    setSprintFilter(ALL_SPRINTS)
+  }
+
+  const sprintTitles = new Set(sprints.map(s => s.title))
+  const visibleIssues = issues.filter(issue => {
+    if (sprintFilter === ALL_SPRINTS) return true
+    if (sprintFilter === NO_SPRINT) return !issue.milestone || !sprintTitles.has(issue.milestone.title)
+    return issue.milestone?.title === sprintFilter
+  })
+  const filtered = issueState !== 'open' || sprintFilter !== ALL_SPRINTS || Object.values(appliedTextFilters).some(v => v.trim())
+  const noun = kind === 'pulls' ? 'pull requests' : 'issues'
 
   if (!selectedRepository) {
     return (
@@ -48,28 +249,136 @@ const fetchIssues = useCallback(async () => {
     <div className="p-6 max-w-6xl mx-auto h-full flex flex-col">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-          Issues for {selectedRepository.full_name}
+          {kind === 'pulls' ? 'Pull requests' : 'Issues'} for {activeProgram ? `${activeProgram.name} (${activeProgram.repositories.length} repositories)` : selectedRepository.full_name}
         </h1>
-        <button
-          onClick={fetchIssues}
-          disabled={loading}
-          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-md font-medium transition-colors"
-        >
-          {loading ? 'Refreshing...' : 'Refresh'}
-        </button>
+        <div className="flex items-center gap-2">
+          {sprints.length > 0 && (
+            <select
+              value={sprintFilter}
+              onChange={(e) => setSprintFilter(e.target.value)}
+              className={inputClass}
+            >
+              <option value={ALL_SPRINTS}>All sprints</option>
+              {sprints.map(sprint => (
+                <option key={sprint.title} value={sprint.title}>
+                  {sprint.title} ({sprint.startDate} → {sprint.endDate})
+                </option>
+              ))}
+              <option value={NO_SPRINT}>No sprint</option>
+            </select>
+          )}
+          <button
+            onClick={() => setShowNewIssue(true)}
+            className="px-3 py-1 text-sm bg-green-600 hover:bg-green-700 text-white rounded-md font-medium transition-colors"
+          >
+            New issue
+          </button>
+          <button
+            onClick={fetchIssues}
+            disabled={loading}
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-md font-medium transition-colors"
+          >
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+          {(['issues', 'pulls'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setKind(value)}
+              className={`px-3 py-1 text-sm ${kind === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+            >
+              {value === 'pulls' ? 'Pull requests' : 'Issues'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="search"
+          value={textFilters.q}
+          onChange={(e) => setTextFilter('q', e.target.value)}
+          placeholder={`Search ${noun}...`}
+          className={`${inputClass} flex-1 min-w-48`}
+        />
+        <select value={issueState} onChange={(e) => setIssueState(e.target.value as IssueState)} className={inputClass}>
+          <option value="open">Open</option>
+          <option value="closed">Closed</option>
+          <option value="all">All</option>
+        </select>
+        <select value={sortOption} onChange={(e) => setSortOption(e.target.value)} className={inputClass}>
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <input
+          value={textFilters.labels}
+          onChange={(e) => setTextFilter('labels', e.target.value)}
+          placeholder="Labels (comma-separated)"
+          className={inputClass}
+        />
+        <input
+          value={textFilters.assignee}
+          onChange={(e) => setTextFilter('assignee', e.target.value)}
+          placeholder="Assignee (login or none)"
+          className={inputClass}
+        />
+        <input
+          value={textFilters.author}
+          onChange={(e) => setTextFilter('author', e.target.value)}
+          placeholder="Author"
+          className={inputClass}
+        />
+        <input
+          value={textFilters.milestone}
+          onChange={(e) => setTextFilter('milestone', e.target.value)}
+          placeholder="Milestone (title or none)"
+          list="issue-milestones"
+          className={inputClass}
+        />
+        <datalist id="issue-milestones">
+          {sprints.map(sprint => <option key={sprint.title} value={sprint.title} />)}
+        </datalist>
+        {filtered && (
+          <button onClick={clearFilters} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Clear filters
+          </button>
+        )}
+        {totalCount !== null && !loading && (
+          <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+            {totalCount} {totalCount === 1 ? 'match' : 'matches'}
+          </span>
+        )}
+      </div>
+
+      {failedRepositories.length > 0 && (
+        <div className="mb-4 px-4 py-2 text-sm rounded bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200">
+          Could not load issues for {failedRepositories.join(', ')}
+        </div>
+      )}
+
       {loading ? (
         <div className="flex items-center justify-center py-8">
-          <div className="text-gray-600 dark:text-gray-400">Loading issues...</div>
-        </div>
-      ) : issues.length === 0 ? (
-        <div className="text-center py-8 text-gray-600 dark:text-gray-400">
-          No issues found for this repository
+          <div className="text-gray-600 dark:text-gray-400">Loading {noun}...</div>
         </div>
       ) : (
-        <div className="space-y-4 flex-1 overflow-y-auto">
-          {issues.map((issue) => (
+        <div ref={listRef} className="space-y-4 flex-1 overflow-y-auto">
+          {/* Later pages may still match, e.g. when a page held only pull requests, so load more stays available */}
+          {visibleIssues.length === 0 && (
+            <div className="text-center py-8 text-gray-600 dark:text-gray-400">
+              {hasMore
+                ? `No ${noun} ${issues.length === 0 ? 'on the pages loaded so far' : 'in this sprint on the pages loaded so far'}`
+                : issues.length === 0
+                  ? filtered ? `No ${noun} match these filters` : `No ${noun} found for this repository`
+                  : `No ${noun} in this sprint`}
+            </div>
+          )}
+          {visibleIssues.map((issue) => (
             <div
               key={issue.id}
               className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm border border-gray-200 dark:border-gray-700"
@@ -77,21 +386,29 @@ const fetchIssues = useCallback(async () => {
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-2">
-                    <a
-                      href={issue.html_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 font-medium"
+                    {activeProgram && issue.repository && (
+                      <span className="w-40 shrink-0 truncate text-xs font-mono text-gray-500 dark:text-gray-400" title={issue.repository}>
+                        {issue.repository}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => setOpenIssue({ repository: issue.repository ?? selectedRepository.full_name, number: issue.number })}
+                      className="text-left text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 font-medium"
                     >
                       #{issue.number} {issue.title}
-                    </a>
+                    </button>
                     <span className={`px-2 py-1 text-xs rounded ${
                       issue.state === 'open' 
                         ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' 
                         : 'bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200'
                     }`}>
-                      {issue.state}
+                      {issue.pull_request?.merged_at ? 'merged' : issue.state}
                     </span>
+                    {isPullRequest(issue) && kind !== 'pulls' && (
+                      <span className="px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                        pull request
+                      </span>
+                    )}
                   </div>
                   
                   {issue.body && (
@@ -127,13 +444,47 @@ const fetchIssues = useCallback(async () => {
                     </div>
                     <span>Created {new Date(issue.created_at).toLocaleDateString()}</span>
                     <span>Updated {new Date(issue.updated_at).toLocaleDateString()}</span>
+                    {issue.milestone && <span>Milestone {issue.milestone.title}</span>}
+                    {issue.assignees && issue.assignees.length > 0 && (
+                      <span>Assigned to {issue.assignees.map(a => a.login).join(', ')}</span>
+                    )}
+                    {!!issue.comments && <span>{issue.comments} {issue.comments === 1 ? 'comment' : 'comments'}</span>}
                   </div>
                 </div>
               </div>
             </div>
           ))}
+          {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-4">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-3 py-1 text-sm text-gray-600 dark:text-gray-400 hover:underline"
+              >
+                {loadingMore ? 'Loading more...' : 'Load more'}
+              </button>
+            </div>
+          )}
         </div>
       )}
+
+      {showNewIssue && (
+        <NewIssueDialog
+          repositories={contextRepositories.map(r => r.full_name)}
+          onClose={() => setShowNewIssue(false)}
+          onCreated={handleIssueCreated}
+        />
+      )}
+
+      {openIssue && (
+        <IssueDetailPane
+          repository={openIssue.repository}
+          number={openIssue.number}
+          onClose={closeIssue}
+          onIssueUpdated={handleIssueUpdated}
+          onAskAgent={onAskAgent}
+        />
+      )}
     </div>
   )
 }
@@ -1,11 +1,22 @@
 'use client'
 
 import { useSession, signIn, signOut } from "next-auth/react"
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import Image from "next/image"
 import { useRepository } from "./context/repository"
 import { useToast } from './utils/toast'
 import { logger } from '@/lib/logger'
+import type { Program } from '@/lib/programs'
+import {
+  type RepositoryOwner,
+  type RepositoryPreferences,
+  EMPTY_REPOSITORY_PREFERENCES,
+  fetchRepositories as fetchRepositoriesFromApi,
+  fetchRepositoryPreferences,
+  fuzzyFilter,
+  updateRepositoryPreferences,
+} from '@/lib/repository-preferences'
+import ProgramEditor from './components/ProgramEditor'
 
 interface Repository {
   id: number
@@ -18,16 +29,37 @@ interface Repository {
   language: string | null
   stargazers_count: number
   forks_count: number
+  owner: RepositoryOwner
+}
+
+// A titled group of the repository list
+interface RepositorySection {
+  key: string
+  title: string
+  repositories: Repository[]
 }
 
 export default function Repo() {
   const { data: session, status } = useSession()
-  const { selectedRepository, setSelectedRepository } = useRepository()
+  const {
+    selectedRepository,
+    setSelectedRepository,
+    programs,
+    activeProgram,
+    setActiveProgram,
+    saveProgram,
+    deleteProgram,
+  } = useRepository()
   const { showToast } = useToast()
   // removed MCP test loading state
   const [repositories, setRepositories] = useState<Repository[]>([])
   const [reposLoading, setReposLoading] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
+  // Login of the signed-in user; their own repositories are grouped first
+  const [login, setLogin] = useState<string | null>(null)
+  const [preferences, setPreferences] = useState<RepositoryPreferences>(EMPTY_REPOSITORY_PREFERENCES)
+  // Program open in the editor; 'new' while creating one
+  const [editingProgram, setEditingProgram] = useState<Program | 'new' | null>(null)
 
   // Simple hash function to generate consistent colors for languages
   const getLanguageColor = (language: string) => {
@@ -51,14 +83,16 @@ export default function Repo() {
     
     setReposLoading(true)
     try {
-      const response = await fetch('/api/repos')
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch repositories: ${response.status}`)
-      }
-      
-      const repos = await response.json()
-      setRepositories(repos)
+      const [listing, savedPreferences] = await Promise.all([
+        fetchRepositoriesFromApi<Repository>(),
+        fetchRepositoryPreferences().catch((error) => {
+          logger.error('Failed to fetch repository preferences:', error)
+          return EMPTY_REPOSITORY_PREFERENCES
+        }),
+      ])
+      setRepositories(listing.repositories)
+      setLogin(listing.login)
+      setPreferences(savedPreferences)
     } catch (error) {
       logger.error('Failed to fetch repositories:', error)
     } finally {
@@ -74,16 +108,66 @@ export default function Repo() {
 
   const handleRepositorySelect = (repo: Repository) => {
     // Only show toast if we're actually changing the repository
-    if (!selectedRepository || selectedRepository.id !== repo.id) {
+    if (activeProgram || !selectedRepository || selectedRepository.id !== repo.id) {
       setSelectedRepository(repo)
       showToast(`Active repository set to: ${repo.full_name}`, 'success')
+      updateRepositoryPreferences({ fullName: repo.full_name, used: true })
+        .then(setPreferences)
+        .catch((error) => logger.error('Failed to record recent repository:', error))
     }
   }
 
-  const filteredRepositories = repositories.filter(repo =>
-    repo.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    repo.full_name.toLowerCase().includes(searchTerm.toLowerCase())
-  )
+  const handlePinToggle = (repo: Repository) => {
+    const pinned = !preferences.pinned.includes(repo.full_name)
+    updateRepositoryPreferences({ fullName: repo.full_name, pinned })
+      .then(setPreferences)
+      .catch((error) => {
+        logger.error('Failed to update pinned repositories:', error)
+        showToast(`Failed to ${pinned ? 'pin' : 'unpin'} ${repo.full_name}`, 'error')
+      })
+  }
+
+  const handleProgramActivate = (program: Program) => {
+    if (activeProgram?.id === program.id) return
+    setActiveProgram(program.id)
+    showToast(`Active program set to: ${program.name} (${program.repositories.length} repositories)`, 'success')
+  }
+
+  const handleProgramSave = (program: Program) => {
+    saveProgram(program)
+    setEditingProgram(null)
+    showToast(`Program saved: ${program.name}`, 'success')
+  }
+
+  const handleProgramDelete = (program: Program) => {
+    if (!window.confirm(`Delete the program "${program.name}"? The repositories are not affected.`)) return
+    deleteProgram(program.id)
+  }
+
+  // Search results ranked by match; otherwise pinned, recent, then one group per owner with the user's own first
+  const sections = useMemo<RepositorySection[]>(() => {
+    if (searchTerm.trim()) {
+      const matches = fuzzyFilter(repositories, searchTerm, repo => [repo.name, repo.full_name])
+      return matches.length ? [{ key: 'matches', title: 'Best matches', repositories: matches }] : []
+    }
+
+    const byName = new Map(repositories.map(repo => [repo.full_name, repo]))
+    const pinned = preferences.pinned.flatMap(name => byName.get(name) ?? [])
+    const recent = preferences.recent
+      .filter(r => !preferences.pinned.includes(r.fullName))
+      .flatMap(r => byName.get(r.fullName) ?? [])
+    const owners = [...new Set(repositories.map(repo => repo.owner.login))]
+      .sort((a, b) => Number(b === login) - Number(a === login) || a.localeCompare(b))
+    return [
+      { key: 'pinned', title: 'Pinned', repositories: pinned },
+      { key: 'recent', title: 'Recently used', repositories: recent },
+      ...owners.map(owner => ({
+        key: `owner:${owner}`,
+        title: owner === login ? `${owner} (you)` : owner,
+        repositories: repositories.filter(repo => repo.owner.login === owner),
+      })),
+    ].filter(section => section.repositories.length > 0)
+  }, [repositories, searchTerm, preferences, login])
 
   if (status === "loading") {
     return (
@@ -144,6 +228,74 @@ export default function Repo() {
 
       <div className="flex-1 flex flex-col gap-6 min-h-0">
 
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm shrink-0 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Programs</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Group the repositories of one initiative so the agent plans across all of them.
+              </p>
+            </div>
+            <button
+              onClick={() => setEditingProgram('new')}
+              disabled={editingProgram !== null || repositories.length < 2}
+              className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-700 dark:text-gray-300 rounded-md font-medium transition-colors"
+            >
+              New program
+            </button>
+          </div>
+
+          {editingProgram && (
+            <ProgramEditor
+              repositories={repositories}
+              program={editingProgram === 'new' ? undefined : editingProgram}
+              onSave={handleProgramSave}
+              onCancel={() => setEditingProgram(null)}
+            />
+          )}
+
+          {programs.length > 0 && (
+            <ul className="space-y-2">
+              {programs.map(program => (
+                <li
+                  key={program.id}
+                  className={`flex items-center justify-between gap-3 border rounded-lg px-4 py-2 ${
+                    activeProgram?.id === program.id
+                      ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-600'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white">{program.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {program.repositories.map(r => r.full_name).join(', ')}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0 text-sm">
+                    {activeProgram?.id === program.id ? (
+                      <span className="text-blue-600 dark:text-blue-400">Active</span>
+                    ) : (
+                      <button onClick={() => handleProgramActivate(program)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                        Activate
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setEditingProgram(program)}
+                      disabled={editingProgram !== null}
+                      className="text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => handleProgramDelete(program)} className="text-red-600 dark:text-red-400 hover:underline">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
         <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm flex-1 flex flex-col min-h-0">
           <div className="flex items-center justify-between mb-4 shrink-0">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
@@ -161,7 +313,7 @@ export default function Repo() {
           <div className="mb-4 shrink-0">
             <input
               type="text"
-              placeholder="Search repositories..."
+              placeholder="Search repositories (fuzzy)..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -177,57 +329,76 @@ export default function Repo() {
               <div className="text-center py-8 text-gray-600 dark:text-gray-400">
                 No repositories with write access found
               </div>
-            ) : filteredRepositories.length === 0 ? (
+            ) : sections.length === 0 ? (
               <div className="text-center py-8 text-gray-600 dark:text-gray-400">
                 No repositories match your search
               </div>
             ) : (
               <div className="h-full overflow-y-auto">
-                <div className="space-y-3">
-                  {filteredRepositories.map((repo) => (
-                    <div 
-                      key={repo.id} 
-                      className={`border border-gray-200 dark:border-gray-700 rounded-lg p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer ${
-                        selectedRepository?.id === repo.id ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-600' : ''
-                      }`}
-                      onClick={() => handleRepositorySelect(repo)}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-2">
-                            <a
-                              href={repo.html_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 font-medium"
-                            >
-                              {repo.full_name}
-                            </a>
-                            {repo.private && (
-                              <span className="px-2 py-1 text-xs bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded">
-                                Private
-                              </span>
-                            )}
-                          </div>
-                          {repo.description && (
-                            <p className="text-gray-600 dark:text-gray-400 text-sm mb-2">
-                              {repo.description}
-                            </p>
-                          )}
-                          <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-500">
-                            {repo.language && (
-                              <span className="flex items-center gap-1">
-                                <div className={`w-3 h-3 rounded-full ${getLanguageColor(repo.language)}`}></div>
-                                {repo.language}
-                              </span>
-                            )}
-                            <span>⭐ {repo.stargazers_count}</span>
-                            <span>🍴 {repo.forks_count}</span>
-                            <span>Updated {new Date(repo.updated_at).toLocaleDateString()}</span>
+                <div className="space-y-6">
+                  {sections.map(section => (
+                    <section key={section.key}>
+                      <h3 className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                        {section.title} <span className="font-normal text-gray-500 dark:text-gray-400">({section.repositories.length})</span>
+                      </h3>
+                      <div className="space-y-3">
+                        {section.repositories.map((repo) => (
+                          <div
+                            key={`${section.key}-${repo.id}`}
+                            className={`border border-gray-200 dark:border-gray-700 rounded-lg p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer ${
+                              !activeProgram && selectedRepository?.id === repo.id ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-600' : ''
+                            }`}
+                            onClick={() => handleRepositorySelect(repo)}
+                          >
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1">
+                                <div className="flex items-center gap-2 mb-2">
+                                  <a
+                                    href={repo.html_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 font-medium"
+                                  >
+                                    {repo.full_name}
+                                  </a>
+                                  {repo.private && (
+                                    <span className="px-2 py-1 text-xs bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded">
+                                      Private
+                                    </span>
+                                  )}
+                                </div>
+                                {repo.description && (
+                                  <p className="text-gray-600 dark:text-gray-400 text-sm mb-2">
+                                    {repo.description}
+                                  </p>
+                                )}
+                                <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-500">
+                                  {repo.language && (
+                                    <span className="flex items-center gap-1">
+                                      <div className={`w-3 h-3 rounded-full ${getLanguageColor(repo.language)}`}></div>
+                                      {repo.language}
+                                    </span>
+                                  )}
+                                  <span>⭐ {repo.stargazers_count}</span>
+                                  <span>🍴 {repo.forks_count}</span>
+                                  <span>Updated {new Date(repo.updated_at).toLocaleDateString()}</span>
+                                </div>
+                              </div>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handlePinToggle(repo)
+                                }}
+                                title={preferences.pinned.includes(repo.full_name) ? 'Unpin' : 'Pin to the top of the list'}
+                                className="ml-2 px-1 text-lg leading-none text-gray-400 hover:text-yellow-500"
+                              >
+                                {preferences.pinned.includes(repo.full_name) ? '★' : '☆'}
+                              </button>
+                            </div>
                           </div>
-                        </div>
+                        ))}
                       </div>
-                    </div>
+                    </section>
                   ))}
                 </div>
               </div>
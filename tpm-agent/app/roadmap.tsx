@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useEffect, useMemo } from "react";
+import ReactMarkdown from 'react-markdown';
+import { type ChatMessage, getConversation, updateConversation } from "@/lib/conversations";
+import {
+  type Roadmap,
+  type RoadmapPhase,
+  type RoadmapTask,
+  roadmapTasks,
+  roadmapToMarkdown,
+  validateRoadmap,
+} from "@/lib/roadmap";
+import { logger } from '@/lib/logger';
+import { useToast } from './utils/toast';
+import { useRepository } from './context/repository';
+import { useConversations } from './hooks/useConversations';
+import RoadmapTaskCard from './components/RoadmapTaskCard';
+import BulkIssueDialog from './components/BulkIssueDialog';
+
+// Debounce for saving card edits back to the conversation
+const SAVE_DELAY = 800; // ms
+
+interface RoadmapViewProps {
+  // Switch to the Chat view
+  onOpenChat?: () => void;
+}
+
+function lastRoadmapIndex(messages: ChatMessage[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].roadmap) return i;
+  }
+  return -1;
+}
+
+function nextTaskId(phase: RoadmapPhase): string {
+  const used = new Set(phase.tasks.map(t => t.id));
+  let n = phase.tasks.length + 1;
+  while (used.has(`${phase.id}.${n}`)) n++;
+  return `${phase.id}.${n}`;
+}
+
+export default function RoadmapView({ onOpenChat }: RoadmapViewProps) {
+  const { showToast } = useToast();
+  const { activeId } = useConversations();
+  const { selectedRepository, activeProgram } = useRepository();
+  const programRepositories = useMemo(
+    () => activeProgram?.repositories.map(r => r.full_name) ?? [],
+    [activeProgram]
+  );
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messageIndex, setMessageIndex] = useState(-1);
+  const [roadmap, setRoadmap] = useState<Roadmap | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [showIssueDialog, setShowIssueDialog] = useState(false);
+
+  const errors = useMemo(() => (roadmap ? validateRoadmap(roadmap).errors : []), [roadmap]);
+  const taskIds = useMemo(() => (roadmap ? roadmapTasks(roadmap).map(t => t.id) : []), [roadmap]);
+
+  // Load the newest roadmap of the active conversation
+  useEffect(() => {
+    if (!activeId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getConversation(activeId)
+      .then((conversation) => {
+        if (cancelled) return;
+        const index = lastRoadmapIndex(conversation.messages);
+        setMessages(conversation.messages);
+        setMessageIndex(index);
+        setRoadmap(index === -1 ? null : conversation.messages[index].roadmap ?? null);
+        setIsDirty(false);
+      })
+      .catch((error) => {
+        logger.error('Failed to load conversation:', error);
+        showToast('Failed to load roadmap', 'error');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId, showToast]);
+
+  // Save edits onto the message the roadmap came from
+  useEffect(() => {
+    if (!isDirty || !activeId || !roadmap || messageIndex === -1) return;
+    const timer = setTimeout(() => {
+      const updated = messages.map((message, i) =>
+        i === messageIndex ? { ...message, roadmap, roadmapErrors: errors } : message
+      );
+      updateConversation(activeId, { messages: updated })
+        .then(() => {
+          setMessages(updated);
+          setIsDirty(false);
+        })
+        .catch((error) => {
+          logger.error('Failed to save roadmap:', error);
+          showToast('Failed to save roadmap', 'error');
+        });
+    }, SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isDirty, activeId, roadmap, errors, messages, messageIndex, showToast]);
+
+  const edit = (update: (current: Roadmap) => Roadmap) => {
+    setRoadmap(current => (current ? update(current) : current));
+    setIsDirty(true);
+  };
+
+  const updatePhase = (phaseIndex: number, update: (phase: RoadmapPhase) => RoadmapPhase) => {
+    edit(current => ({
+      ...current,
+      phases: current.phases.map((phase, i) => (i === phaseIndex ? update(phase) : phase)),
+    }));
+  };
+
+  const updateTask = (phaseIndex: number, taskIndex: number, task: RoadmapTask) => {
+    updatePhase(phaseIndex, phase => ({
+      ...phase,
+      tasks: phase.tasks.map((t, i) => (i === taskIndex ? task : t)),
+    }));
+  };
+
+  const removeTask = (phaseIndex: number, taskIndex: number) => {
+    const removedId = roadmap?.phases[phaseIndex]?.tasks[taskIndex]?.id;
+    edit(current => ({
+      ...current,
+      phases: current.phases.map((phase, i) => ({
+        ...phase,
+        tasks: phase.tasks
+          .filter((_, t) => i !== phaseIndex || t !== taskIndex)
+          .map(task => ({ ...task, dependencies: task.dependencies.filter(d => d !== removedId) })),
+      })),
+    }));
+  };
+
+  const addTask = (phaseIndex: number) => {
+    updatePhase(phaseIndex, phase => ({
+      ...phase,
+      tasks: [...phase.tasks, {
+        id: nextTaskId(phase),
+        title: '',
+        description: '',
+        acceptanceCriteria: [],
+        implementationPrompt: '',
+        dependencies: [],
+        parallelizable: false,
+        repository: null,
+      }],
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-gray-600 dark:text-gray-400">Loading roadmap...</div>
+      </div>
+    );
+  }
+
+  if (!roadmap) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3">
+        <p className="text-lg text-gray-600 dark:text-gray-400 text-center">
+          No structured roadmap in this conversation yet.
+        </p>
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center max-w-md">
+          Pick the Roadmap Planner persona in Chat, turn on Roadmap mode and ask for a roadmap.
+        </p>
+        {onOpenChat && (
+          <button
+            onClick={onOpenChat}
+            className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors"
+          >
+            Go to Chat
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex-1 min-w-0 space-y-1">
+          <input
+            value={roadmap.title}
+            onChange={(e) => edit(current => ({ ...current, title: e.target.value }))}
+            placeholder="Roadmap title"
+            className="w-full text-xl font-semibold bg-transparent text-gray-900 dark:text-white focus:outline-none"
+          />
+          <textarea
+            value={roadmap.summary}
+            onChange={(e) => edit(current => ({ ...current, summary: e.target.value }))}
+            placeholder="Summary"
+            rows={2}
+            className="w-full text-sm bg-transparent text-gray-600 dark:text-gray-400 resize-none focus:outline-none"
+          />
+        </div>
+        <div className="shrink-0 flex flex-col items-end gap-2">
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {roadmap.phases.length} phases · {taskIds.length} tasks · {isDirty ? 'Saving...' : 'Saved'}
+          </div>
+          <button
+            onClick={() => setShowIssueDialog(true)}
+            disabled={!selectedRepository || taskIds.length === 0}
+            title={activeProgram ? `Create issues in ${activeProgram.name}` : selectedRepository ? `Create issues in ${selectedRepository.full_name}` : 'Select a repository first'}
+            className="px-3 py-1 text-sm bg-green-500 hover:bg-green-600 disabled:bg-green-300 text-white rounded transition-colors"
+          >
+            Create issues
+          </button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <details className="bg-amber-50 dark:bg-amber-900/30 border-b border-amber-200 dark:border-amber-800 px-4 py-2 text-sm text-amber-800 dark:text-amber-200">
+          <summary className="cursor-pointer">
+            ⚠ {errors.length} validation {errors.length === 1 ? 'problem' : 'problems'}
+          </summary>
+          <ul className="list-disc ml-5 mt-1">
+            {errors.map((problem, i) => <li key={i}>{problem}</li>)}
+          </ul>
+        </details>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        {/* Editable cards */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 bg-gray-50 dark:bg-gray-900">
+          {roadmap.questions.length > 0 && (
+            <div className="p-3 rounded border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/30 text-sm text-blue-900 dark:text-blue-100">
+              <div className="font-medium mb-1">Open questions</div>
+              <ul className="list-disc ml-5">
+                {roadmap.questions.map((question, i) => <li key={i}>{question}</li>)}
+              </ul>
+            </div>
+          )}
+          {roadmap.phases.map((phase, phaseIndex) => (
+            <section key={`${phase.id}-${phaseIndex}`} className="space-y-3">
+              <div>
+                <input
+                  value={phase.name}
+                  onChange={(e) => updatePhase(phaseIndex, p => ({ ...p, name: e.target.value }))}
+                  className="w-full text-lg font-semibold bg-transparent text-gray-900 dark:text-white focus:outline-none"
+                />
+                <input
+                  value={phase.goal}
+                  onChange={(e) => updatePhase(phaseIndex, p => ({ ...p, goal: e.target.value }))}
+                  placeholder="Phase goal"
+                  className="w-full text-sm bg-transparent text-gray-600 dark:text-gray-400 focus:outline-none"
+                />
+              </div>
+              {phase.tasks.map((task, taskIndex) => (
+                <RoadmapTaskCard
+                  key={`${task.id}-${taskIndex}`}
+                  task={task}
+                  taskIds={taskIds}
+                  repositories={programRepositories}
+                  onChange={(updated) => updateTask(phaseIndex, taskIndex, updated)}
+                  onRemove={() => removeTask(phaseIndex, taskIndex)}
+                />
+              ))}
+              <button
+                onClick={() => addTask(phaseIndex)}
+                className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors"
+              >
+                + Add task
+              </button>
+            </section>
+          ))}
+        </div>
+
+        {/* Markdown rendering of the edited roadmap */}
+        <div className="w-[40%] shrink-0 overflow-y-auto p-4 border-l border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <div className="prose prose-sm max-w-none text-gray-800 dark:text-gray-200 dark:prose-invert">
+            <ReactMarkdown>{roadmapToMarkdown(roadmap)}</ReactMarkdown>
+          </div>
+        </div>
+      </div>
+      {showIssueDialog && selectedRepository && (
+        <BulkIssueDialog
+          roadmap={roadmap}
+          repositoryFullName={selectedRepository.full_name}
+          repositories={programRepositories}
+          targetName={activeProgram ? `${activeProgram.name} (${programRepositories.length} repositories)` : undefined}
+          onClose={() => setShowIssueDialog(false)}
+        />
+      )}
+    </div>
+  );
+}
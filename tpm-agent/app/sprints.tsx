@@ -0,0 +1,265 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useSession } from "next-auth/react"
+import { useRepository } from "./context/repository"
+import { useToast } from "./utils/toast"
+import { logger } from "@/lib/logger"
+import { fetchIssues, type Issue } from "@/lib/issues-client"
+import {
+  type SprintApplyResult,
+  type SprintMilestone,
+  DEFAULT_SPRINT_LENGTH_DAYS,
+  MAX_SPRINT_COUNT,
+  applySprintPlan,
+  distributeIssues,
+  fetchSprintMilestones,
+  parseIssueDependencies,
+  planSprints,
+  validateSprintPlan,
+} from "@/lib/sprints"
+
+const inputClass = "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+
+export default function Sprints() {
+  const { data: session } = useSession()
+  const { selectedRepository } = useRepository()
+  const { showToast } = useToast()
+  const [issues, setIssues] = useState<Issue[]>([])
+  const [sprintMilestones, setSprintMilestones] = useState<SprintMilestone[]>([])
+  const [loading, setLoading] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [startDate, setStartDate] = useState(() => new Date().toISOString().slice(0, 10))
+  const [lengthDays, setLengthDays] = useState(DEFAULT_SPRINT_LENGTH_DAYS)
+  const [count, setCount] = useState(3)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [result, setResult] = useState<SprintApplyResult | null>(null)
+
+  const load = useCallback(async () => {
+    if (!selectedRepository || !session) return
+
+    setLoading(true)
+    try {
+      const [owner, repo] = selectedRepository.full_name.split("/")
+      const [issuesData, milestones] = await Promise.all([
+        fetchIssues(owner, repo, { state: 'open', perPage: 100 }),
+        fetchSprintMilestones(owner, repo),
+      ])
+      setIssues(issuesData.filter(issue => issue.state === 'open'))
+      setSprintMilestones(milestones)
+    } catch (error) {
+      logger.error('Failed to load sprint data:', error)
+      showToast('Failed to load issues and milestones', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedRepository, session, showToast])
+
+  useEffect(() => {
+    setSelected(new Set())
+    setResult(null)
+    load()
+  }, [load])
+
+  const plan = useMemo(() => ({ startDate, lengthDays, count }), [startDate, lengthDays, count])
+  const planError = validateSprintPlan(plan)
+  const sprints = useMemo(() => (planError ? [] : planSprints(plan)), [plan, planError])
+
+  // Oldest first (GitHub lists newest first) so roadmap issues keep their creation order
+  const assignments = useMemo(() => {
+    if (planError) return []
+    const chosen = issues.filter(issue => selected.has(issue.number)).reverse()
+    return distributeIssues(
+      chosen.map(issue => ({ number: issue.number, dependencies: parseIssueDependencies(issue.body) })),
+      count
+    )
+  }, [issues, selected, count, planError])
+
+  const toggle = (number: number) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(number)) next.delete(number)
+      else next.add(number)
+      return next
+    })
+  }
+
+  const apply = async () => {
+    if (!selectedRepository || planError) return
+    setApplying(true)
+    try {
+      const [owner, repo] = selectedRepository.full_name.split("/")
+      const applied = await applySprintPlan(owner, repo, plan, assignments)
+      setResult(applied)
+      showToast(`Sprints updated: ${applied.assigned.length} issues assigned`, applied.failed.length ? 'error' : 'success')
+      load()
+    } catch (error) {
+      logger.error('Failed to apply sprint plan:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to apply sprint plan', 'error')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  if (!selectedRepository) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-lg text-gray-600 dark:text-gray-400 text-center">
+          Please select a repository to plan sprints.
+        </p>
+      </div>
+    )
+  }
+
+  const issueTitle = (number: number) => issues.find(issue => issue.number === number)?.title ?? ''
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto h-full flex flex-col gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Sprints for {selectedRepository.full_name}
+        </h1>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-md font-medium transition-colors"
+        >
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {sprintMilestones.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {sprintMilestones.map(milestone => (
+            <a
+              key={milestone.number}
+              href={milestone.html_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-3 py-2 text-xs rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-blue-400"
+            >
+              <div className="font-medium text-gray-900 dark:text-white">{milestone.title}</div>
+              <div className="text-gray-500 dark:text-gray-400">
+                {milestone.startDate} → {milestone.endDate} · {milestone.open_issues} open / {milestone.closed_issues} closed
+              </div>
+            </a>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4 p-4 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex flex-col gap-1">
+          Start date
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Sprint length (days)
+          <input
+            type="number"
+            min={1}
+            max={60}
+            value={lengthDays}
+            onChange={(e) => setLengthDays(Number(e.target.value))}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Sprints
+          <input
+            type="number"
+            min={1}
+            max={MAX_SPRINT_COUNT}
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        <button
+          onClick={apply}
+          disabled={applying || !!planError}
+          className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded transition-colors"
+        >
+          {applying ? 'Applying...' : `Create/update ${count} milestones${selected.size ? ` and assign ${selected.size} issues` : ''}`}
+        </button>
+        {planError && <span className="text-red-600 dark:text-red-400">{planError}</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 min-h-0">
+        <div className="rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-sm">
+            <span className="font-medium text-gray-900 dark:text-white">Open issues</span>
+            <button
+              onClick={() => setSelected(selected.size === issues.length ? new Set() : new Set(issues.map(i => i.number)))}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {selected.size === issues.length && issues.length > 0 ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          {loading ? (
+            <div className="p-4 text-sm text-gray-600 dark:text-gray-400">Loading issues...</div>
+          ) : issues.length === 0 ? (
+            <div className="p-4 text-sm text-gray-600 dark:text-gray-400">No open issues</div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {issues.map(issue => (
+                <li key={issue.id}>
+                  <label className="flex items-center gap-2 px-4 py-2 text-sm text-gray-800 dark:text-gray-200 cursor-pointer">
+                    <input type="checkbox" checked={selected.has(issue.number)} onChange={() => toggle(issue.number)} />
+                    <span className="text-gray-500">#{issue.number}</span>
+                    <span className="truncate">{issue.title}</span>
+                    {issue.milestone && (
+                      <span className="ml-auto shrink-0 text-xs text-gray-500 dark:text-gray-400">{issue.milestone.title}</span>
+                    )}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {sprints.map(sprint => {
+            const planned = assignments.filter(a => a.sprint === sprint.index)
+            return (
+              <div key={sprint.index} className="rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-3 text-sm">
+                <div className="flex justify-between font-medium text-gray-900 dark:text-white">
+                  <span>{sprint.title}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{sprint.startDate} → {sprint.endDate}</span>
+                </div>
+                {planned.length > 0 ? (
+                  <ul className="mt-1 text-gray-700 dark:text-gray-300">
+                    {planned.map(a => (
+                      <li key={a.issueNumber} className="truncate">#{a.issueNumber} {issueTitle(a.issueNumber)}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">No issues</div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {result && (
+        <div className="rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-4 text-sm text-gray-700 dark:text-gray-300">
+          <div className="font-medium text-gray-900 dark:text-white mb-1">Result</div>
+          <ul>
+            {result.milestones.map(m => (
+              <li key={m.number}>
+                <a href={m.html_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                  {m.title}
+                </a>{' '}
+                {m.status}
+              </li>
+            ))}
+          </ul>
+          <div className="mt-1">{result.assigned.length} issues assigned</div>
+          {result.failed.map(f => (
+            <div key={f.issueNumber} className="text-red-600 dark:text-red-400">#{f.issueNumber}: {f.error}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
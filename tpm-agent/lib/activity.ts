@@ -0,0 +1,210 @@
+// Tool activity events streamed from /api/responses and folded into a per-message timeline
+import type { ResponseStreamEvent } from 'openai/resources/responses/responses';
+import { isRecord } from './util';
+
+export type ActivityStatus = 'in_progress' | 'awaiting_approval' | 'completed' | 'failed';
+
+export interface GitHubRef {
+  kind: 'issue' | 'pull';
+  owner: string;
+  repo: string;
+  number: number;
+  url: string;
+}
+
+export type ActivityEvent =
+  | { kind: 'list_tools'; id: string; serverLabel: string; status: ActivityStatus; tools?: string[]; error?: string }
+  | {
+      kind: 'tool_call';
+      id: string;
+      source: 'mcp' | 'function';
+      name: string;
+      status: ActivityStatus;
+      arguments?: string;
+      output?: string;
+      error?: string;
+      refs?: GitHubRef[];
+    }
+  | { kind: 'reasoning'; id: string; delta: string }
+  | { kind: 'status'; id: string; status: string };
+
+export type ActivityEntry =
+  | Exclude<ActivityEvent, { kind: 'reasoning' }>
+  | { kind: 'reasoning'; id: string; text: string };
+
+// Tool output shown in the timeline is capped; refs are extracted from the full output first
+const MAX_OUTPUT_LENGTH = 2000;
+
+const GITHUB_URL_PATTERN = /https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/(issues|pull)\/(\d+)/g;
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_LENGTH ? `${text.slice(0, MAX_OUTPUT_LENGTH)}…` : text;
+}
+
+/**
+ * Find the issues and pull requests a tool call touched, from its arguments and output.
+ * @param args JSON-encoded tool arguments
+ * @param output Raw tool output
+ * @returns De-duplicated issue/PR references
+ */
+export function extractGitHubRefs(args: string, output?: string | null): GitHubRef[] {
+  const refs = new Map<string, GitHubRef>();
+  const add = (ref: GitHubRef) => refs.set(`${ref.owner}/${ref.repo}#${ref.number}`, ref);
+
+  try {
+    const parsed: unknown = JSON.parse(args);
+    if (isRecord(parsed) && typeof parsed.owner === 'string' && typeof parsed.repo === 'string') {
+      const issueNumber = parsed.issue_number ?? parsed.issueNumber;
+      const pullNumber = parsed.pull_number ?? parsed.pullNumber;
+      const number = Number(issueNumber ?? pullNumber);
+      if (Number.isInteger(number) && number > 0) {
+        const kind = pullNumber !== undefined ? 'pull' : 'issue';
+        add({
+          kind,
+          owner: parsed.owner,
+          repo: parsed.repo,
+          number,
+          url: `https://github.com/${parsed.owner}/${parsed.repo}/${kind === 'pull' ? 'pull' : 'issues'}/${number}`,
+        });
+      }
+    }
+  } catch {
+    // Arguments may be partial or not JSON
+  }
+
+  for (const match of (output ?? '').matchAll(GITHUB_URL_PATTERN)) {
+    const [url, owner, repo, kind, number] = match;
+    add({ kind: kind === 'pull' ? 'pull' : 'issue', owner, repo, number: Number(number), url });
+  }
+
+  return [...refs.values()];
+}
+
+/**
+ * Map a Responses API stream event to a timeline event, or null if it is not tool activity.
+ */
+export function activityFromStreamEvent(event: ResponseStreamEvent): ActivityEvent | null {
+  switch (event.type) {
+    case 'response.created':
+    case 'response.queued':
+    case 'response.completed':
+    case 'response.incomplete':
+    case 'response.failed':
+      return { kind: 'status', id: `${event.response.id}-${event.type}`, status: event.type.replace('response.', '') };
+
+    case 'response.reasoning_summary_text.delta':
+      return { kind: 'reasoning', id: event.item_id, delta: event.delta };
+
+    case 'response.output_item.added':
+    case 'response.output_item.done': {
+      const done = event.type === 'response.output_item.done';
+      const item = event.item;
+
+      if (item.type === 'mcp_list_tools') {
+        return {
+          kind: 'list_tools',
+          id: item.id,
+          serverLabel: item.server_label,
+          status: !done ? 'in_progress' : item.error ? 'failed' : 'completed',
+          tools: done ? item.tools.map(t => t.name) : undefined,
+          error: item.error ?? undefined,
+        };
+      }
+
+      if (item.type === 'mcp_call') {
+        return {
+          kind: 'tool_call',
+          id: item.id,
+          source: 'mcp',
+          name: item.name,
+          status: !done ? 'in_progress' : item.error ? 'failed' : 'completed',
+          arguments: done ? item.arguments : undefined,
+          output: done && item.output ? truncate(item.output) : undefined,
+          error: item.error ?? undefined,
+          refs: done ? extractGitHubRefs(item.arguments, item.output) : undefined,
+        };
+      }
+
+      // Function calls finish on our side; the route reports their results separately
+      if (item.type === 'function_call') {
+        return {
+          kind: 'tool_call',
+          id: item.call_id,
+          source: 'function',
+          name: item.name,
+          status: 'in_progress',
+          arguments: done ? item.arguments : undefined,
+        };
+      }
+
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the timeline event for a function call the server ran itself.
+ */
+export function functionResultActivity(callId: string, name: string, output: string): ActivityEvent {
+  let error: string | undefined;
+  try {
+    const parsed: unknown = JSON.parse(output);
+    if (isRecord(parsed) && parsed.success === false) {
+      error = typeof parsed.error === 'string' ? parsed.error : 'Tool call failed';
+    }
+  } catch {
+    // Non-JSON output is shown as-is
+  }
+  return {
+    kind: 'tool_call',
+    id: callId,
+    source: 'function',
+    name,
+    status: error ? 'failed' : 'completed',
+    output: truncate(output),
+    error,
+  };
+}
+
+/**
+ * Fold an activity event into a message's timeline, merging updates for the same item.
+ */
+export function applyActivityEvent(entries: ActivityEntry[], event: ActivityEvent): ActivityEntry[] {
+  const index = entries.findIndex(e => e.id === event.id && e.kind === event.kind);
+
+  if (event.kind === 'reasoning') {
+    if (index === -1) {
+      return [...entries, { kind: 'reasoning', id: event.id, text: event.delta }];
+    }
+    return entries.map((e, i) => i === index && e.kind === 'reasoning' ? { ...e, text: e.text + event.delta } : e);
+  }
+
+  if (index === -1) {
+    return [...entries, event];
+  }
+
+  return entries.map((e, i) => {
+    if (i !== index) return e;
+    // Later events only carry what they know; keep earlier fields they leave out
+    const defined = Object.fromEntries(Object.entries(event).filter(([, v]) => v !== undefined));
+    return { ...e, ...defined } as ActivityEntry;
+  });
+}
+
+/**
+ * All issues and pull requests touched by the tool calls in a timeline.
+ */
+export function touchedRefs(entries: ActivityEntry[]): GitHubRef[] {
+  const refs = new Map<string, GitHubRef>();
+  for (const entry of entries) {
+    if (entry.kind === 'tool_call') {
+      for (const ref of entry.refs ?? []) {
+        refs.set(`${ref.owner}/${ref.repo}#${ref.number}`, ref);
+      }
+    }
+  }
+  return [...refs.values()];
+}
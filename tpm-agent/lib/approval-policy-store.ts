@@ -0,0 +1,26 @@
+// File-backed tool approval policy per repository: one JSON file per GitHub user.
+// /api/responses reads the policy from here, so a client can't skip approval by sending its own
+import { join } from 'path';
+import { type ApprovalMode, DEFAULT_APPROVAL_MODE, isApprovalMode } from './approvals';
+import { readJsonFile, userFile, withFileLock, writeJsonFile } from './json-store';
+
+const STORE_DIR = process.env.APPROVAL_POLICY_STORE_DIR || join(process.cwd(), '.data', 'approval-policies');
+
+// Approval mode of each repository the user has set one for, keyed by full_name
+export async function getApprovalModes(userId: string): Promise<Record<string, ApprovalMode>> {
+  return (await readJsonFile<Record<string, ApprovalMode>>(userFile(STORE_DIR, userId))) ?? {};
+}
+
+export async function getApprovalMode(userId: string, repository: string): Promise<ApprovalMode> {
+  const mode = (await getApprovalModes(userId))[repository];
+  return isApprovalMode(mode) ? mode : DEFAULT_APPROVAL_MODE;
+}
+
+export function setApprovalMode(userId: string, repository: string, mode: ApprovalMode): Promise<Record<string, ApprovalMode>> {
+  const file = userFile(STORE_DIR, userId);
+  return withFileLock(file, async () => {
+    const modes = { ...(await getApprovalModes(userId)), [repository]: mode };
+    await writeJsonFile(file, modes);
+    return modes;
+  });
+}
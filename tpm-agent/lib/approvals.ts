@@ -0,0 +1,111 @@
+// Human-in-the-loop approval types and policy helpers shared by the chat UI and /api/responses,
+// and client helpers for the per-repository policies kept by /api/approvals
+
+/**
+ * Which tool calls run without asking the user first.
+ * - `ask-all`: every tool call needs approval
+ * - `read-only`: reads run automatically, anything that changes state needs approval
+ * - `auto-all`: nothing needs approval
+ */
+export type ApprovalMode = 'ask-all' | 'read-only' | 'auto-all';
+
+export const DEFAULT_APPROVAL_MODE: ApprovalMode = 'read-only';
+
+export const APPROVAL_MODE_LABELS: Record<ApprovalMode, string> = {
+  'ask-all': 'Ask before every tool',
+  'read-only': 'Auto-approve reads',
+  'auto-all': 'Auto-approve every tool',
+};
+
+export type ApprovalKind = 'mcp' | 'function';
+
+export interface ApprovalRequest {
+  // mcp_approval_request item ID for MCP tools, call_id for function tools
+  id: string;
+  kind: ApprovalKind;
+  name: string;
+  arguments: string;
+  serverLabel?: string;
+}
+
+export interface ApprovalDecision {
+  id: string;
+  approve: boolean;
+}
+
+// Read-only tools exposed by the GitHub remote MCP server
+export const GITHUB_READ_ONLY_TOOLS = [
+  'get_me',
+  'get_issue',
+  'get_issue_comments',
+  'list_issues',
+  'search_issues',
+  'get_pull_request',
+  'get_pull_request_files',
+  'get_pull_request_comments',
+  'get_pull_request_reviews',
+  'get_pull_request_status',
+  'list_pull_requests',
+  'get_file_contents',
+  'get_commit',
+  'list_commits',
+  'list_branches',
+  'list_tags',
+  'get_tag',
+  'search_code',
+  'search_repositories',
+  'search_users',
+  'list_notifications',
+  'get_notification_details',
+];
+
+export const O365_READ_ONLY_TOOLS = ['getAvailability'];
+
+export function isApprovalMode(value: unknown): value is ApprovalMode {
+  return value === 'ask-all' || value === 'read-only' || value === 'auto-all';
+}
+
+export function isReadOnlyTool(name: string): boolean {
+  return GITHUB_READ_ONLY_TOOLS.includes(name) || O365_READ_ONLY_TOOLS.includes(name);
+}
+
+export function requiresApproval(mode: ApprovalMode, toolName: string): boolean {
+  switch (mode) {
+    case 'auto-all': return false;
+    case 'read-only': return !isReadOnlyTool(toolName);
+    case 'ask-all': return true;
+  }
+}
+
+/**
+ * Translate an approval mode into the MCP tool's `require_approval` setting.
+ */
+export function mcpRequireApproval(mode: ApprovalMode): 'always' | 'never' | { never: { tool_names: string[] } } {
+  switch (mode) {
+    case 'auto-all': return 'never';
+    case 'read-only': return { never: { tool_names: GITHUB_READ_ONLY_TOOLS } };
+    case 'ask-all': return 'always';
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    cache: 'no-store',
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+// Approval mode of each repository the user has set one for, keyed by full_name
+export function fetchApprovalModes(): Promise<Record<string, ApprovalMode>> {
+  return request('/api/approvals');
+}
+
+export function saveApprovalMode(repository: string, mode: ApprovalMode): Promise<Record<string, ApprovalMode>> {
+  return request('/api/approvals', { method: 'PUT', body: JSON.stringify({ repository, mode }) });
+}
@@ -0,0 +1,104 @@
+// File-backed attachment store: extracted text of uploaded documents, one JSON file per attachment
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import mammoth from 'mammoth';
+import { extractText as extractPdfText, getDocumentProxy } from 'unpdf';
+import type { ResponseInputText } from 'openai/resources/responses/responses';
+import {
+  type AttachmentKind,
+  type AttachmentSummary,
+  MAX_ATTACHMENT_CHARACTERS,
+  chunkText,
+} from './attachments';
+import { readJsonFile, userFile, writeJsonFile } from './json-store';
+
+const STORE_DIR = process.env.ATTACHMENT_STORE_DIR || join(process.cwd(), '.data', 'attachments');
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+interface StoredAttachment extends AttachmentSummary {
+  createdAt: string;
+  chunks: string[];
+}
+
+// One directory of attachments per user
+function userDir(userId: string): string {
+  return userFile(STORE_DIR, userId, '');
+}
+
+async function extractText(kind: AttachmentKind, data: Buffer): Promise<string> {
+  switch (kind) {
+    case 'pdf': {
+      const pdf = await getDocumentProxy(new Uint8Array(data));
+      const { text } = await extractPdfText(pdf, { mergePages: false });
+      return text.map(page => page.trim()).filter(Boolean).join('\n\n');
+    }
+    case 'docx':
+      return (await mammoth.extractRawText({ buffer: data })).value;
+    default:
+      return data.toString('utf-8');
+  }
+}
+
+export type SaveAttachmentResult =
+  | { status: 'saved'; attachment: AttachmentSummary }
+  | { status: 'empty' }
+  // The text is longer than the room left in the message; nothing was stored
+  | { status: 'too_long'; characters: number };
+
+/**
+ * Extract, truncate and chunk the text of an uploaded file and store it for the user,
+ * unless it has no text or more than maxCharacters. Throws when the document can't be read.
+ */
+export async function saveAttachment(
+  userId: string,
+  file: { name: string; kind: AttachmentKind; data: Buffer },
+  maxCharacters = MAX_ATTACHMENT_CHARACTERS
+): Promise<SaveAttachmentResult> {
+  const text = (await extractText(file.kind, file.data)).replace(/\r\n/g, '\n').trim();
+  if (!text) return { status: 'empty' };
+  const truncated = text.length > MAX_ATTACHMENT_CHARACTERS;
+  const kept = truncated ? text.slice(0, MAX_ATTACHMENT_CHARACTERS) : text;
+  if (kept.length > maxCharacters) return { status: 'too_long', characters: kept.length };
+  const chunks = chunkText(kept);
+
+  const summary: AttachmentSummary = {
+    id: randomUUID(),
+    name: file.name,
+    kind: file.kind,
+    size: file.data.length,
+    characters: kept.length,
+    chunkCount: chunks.length,
+    truncated,
+  };
+  const attachment: StoredAttachment = { ...summary, createdAt: new Date().toISOString(), chunks };
+
+  await writeJsonFile(join(userDir(userId), `${attachment.id}.json`), attachment);
+  return { status: 'saved', attachment: summary };
+}
+
+/**
+ * Load the user's attachments in the given order; null if any of them doesn't exist.
+ */
+export async function getAttachments(userId: string, ids: string[]): Promise<StoredAttachment[] | null> {
+  const attachments: StoredAttachment[] = [];
+  for (const id of ids) {
+    if (!ID_PATTERN.test(id)) return null;
+    const attachment = await readJsonFile<StoredAttachment>(join(userDir(userId), `${id}.json`));
+    if (!attachment) return null;
+    attachments.push(attachment);
+  }
+  return attachments;
+}
+
+/**
+ * Input content parts for the attachments: one input_text part per chunk, labelled with the
+ * file name and position so the model can cite which document (and part) it draws from.
+ */
+export function attachmentContent(attachments: StoredAttachment[]): ResponseInputText[] {
+  return attachments.flatMap(attachment =>
+    attachment.chunks.map((chunk, index) => ({
+      type: 'input_text' as const,
+      text: `Attached file "${attachment.name}" (part ${index + 1} of ${attachment.chunks.length}${attachment.truncated ? ', truncated' : ''}):\n\n${chunk}`,
+    }))
+  );
+}
@@ -0,0 +1,85 @@
+// Chat attachment types, text chunking and the client for /api/attachments
+
+export type AttachmentKind = 'markdown' | 'text' | 'pdf' | 'docx';
+
+export interface AttachmentSummary {
+  id: string;
+  name: string;
+  kind: AttachmentKind;
+  // Size of the uploaded file in bytes
+  size: number;
+  // Length of the extracted text that is sent to the model
+  characters: number;
+  chunkCount: number;
+  // Whether the extracted text was cut at MAX_ATTACHMENT_CHARACTERS
+  truncated: boolean;
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Upper bound on the text kept per attachment (roughly 50k tokens)
+export const MAX_ATTACHMENT_CHARACTERS = 200_000;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+// Upper bound on the attachment text sent with one message (roughly 75k tokens), so it fits the context window
+export const MAX_MESSAGE_ATTACHMENT_CHARACTERS = 300_000;
+export const ATTACHMENT_CHUNK_CHARACTERS = 8_000;
+
+// Value for the file input's accept attribute
+export const ATTACHMENT_ACCEPT = '.md,.markdown,.txt,.pdf,.docx';
+
+const EXTENSION_KINDS: Record<string, AttachmentKind> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  pdf: 'pdf',
+  docx: 'docx',
+};
+
+/**
+ * Attachment kind from the file extension, or null for unsupported files.
+ */
+export function attachmentKind(fileName: string): AttachmentKind | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_KINDS[extension] ?? null;
+}
+
+// Extracted text the attachments add to a message
+export function attachmentCharacters(attachments: AttachmentSummary[]): number {
+  return attachments.reduce((sum, attachment) => sum + attachment.characters, 0);
+}
+
+/**
+ * Split text into chunks of at most `size` characters, preferring paragraph, then line,
+ * then word boundaries so chunks don't end mid-sentence when it can be avoided.
+ */
+export function chunkText(text: string, size = ATTACHMENT_CHUNK_CHARACTERS): string[] {
+  const chunks: string[] = [];
+  let rest = text.trim();
+  while (rest.length > size) {
+    const window = rest.slice(0, size);
+    const cut = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf(' ')]
+      .find(index => index > size / 2) ?? size;
+    chunks.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// maxCharacters is the room left in the message; the server stores nothing when the text doesn't fit
+export async function uploadAttachment(file: File, maxCharacters = MAX_MESSAGE_ATTACHMENT_CHARACTERS): Promise<AttachmentSummary> {
+  const form = new FormData();
+  form.append('file', file);
+  form.append('maxCharacters', String(maxCharacters));
+  const res = await fetch('/api/attachments', { method: 'POST', body: form });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
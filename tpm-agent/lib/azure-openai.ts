@@ -1,5 +1,12 @@
 // Client-side Azure OpenAI integration via API routes
 import { logger } from './logger';
+import type { ApprovalDecision, ApprovalRequest } from './approvals';
+import type { ActivityEvent } from './activity';
+import type { Roadmap } from './roadmap';
+import { readSseData } from './sse';
+import type { UsageRecord } from './usage';
+import { LLMRequestError, isLLMErrorCode } from './llm-errors';
+import type { Program } from './programs';
 
 interface RepositoryContext {
   id: number;
@@ -11,10 +18,68 @@ interface RepositoryContext {
   language: string | null;
 }
 
+export type StreamEvent =
+  | { type: 'response_id'; id: string }
+  | { type: 'content'; content: string }
+  | { type: 'approval_request'; approval: ApprovalRequest }
+  | { type: 'activity'; activity: ActivityEvent }
+  | { type: 'roadmap'; roadmap: Roadmap | null; errors: string[] }
+  | { type: 'usage'; record: UsageRecord }
+  // Strict format: the reply so far is being replaced by a repaired one
+  | { type: 'format_repair'; problems: string[] }
+  | { type: 'format_report'; fixed: string[]; remaining: string[] }
+  // Something the user should know about the reply, e.g. a limit that cut it short
+  | { type: 'notice'; message: string };
+
+export interface StreamOptions {
+  // Decisions for approval requests left open by previousResponseId
+  approvals?: ApprovalDecision[];
+  // Repository whose tool approval policy the server applies (see /api/approvals)
+  repository?: string;
+  // Persona whose instructions and tools the server uses (see lib/personas.ts)
+  personaId?: string;
+  // Ask for a structured roadmap (personas with structuredOutput: roadmap)
+  structuredRoadmap?: boolean;
+  // Validate roadmap replies and have the model repair them; defaults to the persona's setting
+  strictFormat?: boolean;
+  // Thread the server records token usage on
+  conversationId?: string;
+  // Uploaded attachments (see lib/attachments.ts) sent with the message
+  attachmentIds?: string[];
+  // Stops the request; the server aborts the upstream model call
+  signal?: AbortSignal;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Error body of a failed request, or the payload of an SSE error event
+interface ErrorPayload {
+  error?: string;
+  message?: string;
+  code?: unknown;
+  retryable?: boolean;
+  retryAfter?: number;
+}
+
+function requestError(data: ErrorPayload, fallback: string): Error {
+  if (!isLLMErrorCode(data.code)) {
+    return new Error(data.error || fallback);
+  }
+  return new LLMRequestError({
+    code: data.code,
+    message: data.message || fallback,
+    retryable: data.retryable === true,
+    retryAfter: typeof data.retryAfter === 'number' ? data.retryAfter : undefined,
+  });
+}
+
 export async function* streamResponses(
   message: string, 
-  previousResponseId?: string
-): AsyncGenerator<{ type: 'response_id' | 'content', id?: string, content?: string }> {
+  previousResponseId?: string,
+  { signal, ...options }: StreamOptions = {}
+): AsyncGenerator<StreamEvent> {
   try {
     logger.info('Starting Responses API route...');
     
@@ -23,65 +88,73 @@ export async function* streamResponses(
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ message, previousResponseId }),
+      body: JSON.stringify({ message, previousResponseId, ...options }),
+      signal,
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(errorData.error || `HTTP ${response.status}`);
+      const errorData: ErrorPayload = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw requestError(errorData, `HTTP ${response.status}`);
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
+    if (!response.body) {
       throw new Error('No response body');
     }
 
-    const decoder = new TextDecoder();
-    
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    for await (const data of readSseData(response.body)) {
+      let parsed: ErrorPayload & { type?: string; id?: string; content?: string; approval?: ApprovalRequest; activity?: ActivityEvent; roadmap?: Roadmap | null; errors?: string[]; record?: UsageRecord; problems?: string[]; fixed?: string[]; remaining?: string[] };
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        // Ignore parsing errors for partial chunks
+        continue;
+      }
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              logger.info('Stream completed successfully');
-              return;
-            }
-            
-            try {
-              const parsed = JSON.parse(data) as { type?: string; id?: string; content?: string };
-              if (parsed.type === 'response_id' && parsed.id) {
-                logger.debug('Received response ID:', parsed.id);
-                yield { type: 'response_id', id: parsed.id };
-              } else if (parsed.type === 'content' && parsed.content) {
-                logger.debug('Received content chunk:', parsed.content);
-                yield { type: 'content', content: parsed.content };
-              }
-            } catch {
-              // Ignore parsing errors for partial chunks
-            }
-          }
-        }
+      if (parsed.type === 'error') {
+        throw requestError(parsed, 'Unknown stream error');
+      } else if (parsed.type === 'response_id' && parsed.id) {
+        logger.debug('Received response ID:', parsed.id);
+        yield { type: 'response_id', id: parsed.id };
+      } else if (parsed.type === 'content' && parsed.content) {
+        logger.debug('Received content chunk:', parsed.content);
+        yield { type: 'content', content: parsed.content };
+      } else if (parsed.type === 'approval_request' && parsed.approval) {
+        logger.debug('Received approval request:', parsed.approval.name);
+        yield { type: 'approval_request', approval: parsed.approval };
+      } else if (parsed.type === 'activity' && parsed.activity) {
+        yield { type: 'activity', activity: parsed.activity };
+      } else if (parsed.type === 'roadmap') {
+        yield { type: 'roadmap', roadmap: parsed.roadmap ?? null, errors: parsed.errors ?? [] };
+      } else if (parsed.type === 'usage' && parsed.record) {
+        yield { type: 'usage', record: parsed.record };
+      } else if (parsed.type === 'format_repair') {
+        logger.debug('Reply failed format validation:', parsed.problems);
+        yield { type: 'format_repair', problems: parsed.problems ?? [] };
+      } else if (parsed.type === 'format_report') {
+        yield { type: 'format_report', fixed: parsed.fixed ?? [], remaining: parsed.remaining ?? [] };
+      } else if (parsed.type === 'notice' && parsed.message) {
+        yield { type: 'notice', message: parsed.message };
       }
-    } finally {
-      reader.releaseLock();
     }
+    logger.info('Stream completed successfully');
   } catch (error: unknown) {
-    logger.error('Responses error:', error);
+    if (isAbortError(error)) {
+      logger.info('Stream cancelled by user');
+    } else {
+      logger.error('Responses error:', error);
+    }
     throw error;
   }
 }
 
 export async function updateRepositoryContext(
   repositoryContext: RepositoryContext,
-  previousResponseId?: string
-): Promise<{ success: boolean; responseId?: string; error?: string }> {
+  previousResponseId?: string,
+  // Sends every repository of the program; repositoryContext should be its primary repository
+  program?: Program | null,
+  // Thread to record the update's token usage on
+  conversationId?: string
+): Promise<{ success: boolean; responseId?: string; refreshedAt?: string; usage?: UsageRecord | null; error?: string }> {
   try {
     logger.info('Updating repository context...');
     
@@ -90,7 +163,12 @@ export async function updateRepositoryContext(
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ repositoryContext, previousResponseId }),
+      body: JSON.stringify({
+        repositoryContext,
+        previousResponseId,
+        conversationId,
+        ...(program ? { program: { name: program.name, repositories: program.repositories } } : {}),
+      }),
     });
 
     if (!response.ok) {
@@ -99,7 +177,7 @@ export async function updateRepositoryContext(
     }
 
     const result = await response.json();
-    return { success: true, responseId: result.responseId };
+    return { success: true, responseId: result.responseId, refreshedAt: result.refreshedAt, usage: result.usage };
   } catch (error) {
     logger.error('Repository context update error:', error);
     return { 
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatMessage } from './conversations';
+import { editMessage, parentResponseIdOf, switchBranch } from './branches';
+
+const user = (id: string, content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({ id, role: 'user', content, ...extra });
+const assistant = (id: string, content: string): ChatMessage => ({ id, role: 'assistant', content });
+
+// u1 -> resp-1 -> u2 -> resp-2
+const thread: ChatMessage[] = [
+  user('u1', 'Plan a CLI', { parentResponseId: null }),
+  assistant('resp-1', 'Which language?'),
+  user('u2', 'TypeScript', { parentResponseId: 'resp-1' }),
+  assistant('resp-2', 'Here is the plan'),
+];
+
+describe('parentResponseIdOf', () => {
+  it('uses the ID recorded on the message', () => {
+    assert.equal(parentResponseIdOf(thread, 2), 'resp-1');
+    assert.equal(parentResponseIdOf(thread, 0), null);
+  });
+
+  it('falls back to the preceding assistant message for messages saved before branching', () => {
+    const legacy = [user('u1', 'a'), assistant('resp-1', 'b'), user('u2', 'c')];
+    assert.equal(parentResponseIdOf(legacy, 2), 'resp-1');
+    assert.equal(parentResponseIdOf(legacy, 0), null);
+  });
+
+  it('ignores placeholder IDs that never reached the server', () => {
+    const failed = [user('u1', 'a'), assistant('error-1', 'Failed'), user('u2', 'c')];
+    assert.equal(parentResponseIdOf(failed, 2), null);
+  });
+});
+
+describe('editMessage', () => {
+  it('ends the thread at the edited message and keeps the old continuation as a branch', () => {
+    const { messages, responseId } = editMessage(thread, 2, 'Rust', 'resp-2');
+    assert.equal(responseId, 'resp-1');
+    assert.equal(messages.length, 3);
+    const edited = messages[2];
+    assert.equal(edited.content, 'Rust');
+    assert.equal(edited.parentResponseId, 'resp-1');
+    assert.equal(edited.branchIndex, 1);
+    assert.deepEqual(edited.branches, [
+      { messages: [thread[2], thread[3]], responseId: 'resp-2' },
+      { messages: [], responseId: null },
+    ]);
+  });
+
+  it('adds a sibling to an existing fork without nesting the fork in the stored branch', () => {
+    const first = editMessage(thread, 2, 'Rust', 'resp-2');
+    const shown = [...first.messages, assistant('resp-3', 'Rust plan')];
+    const { messages } = editMessage(shown, 2, 'Go', 'resp-3');
+    const fork = messages[2];
+    assert.equal(fork.branches?.length, 3);
+    assert.equal(fork.branchIndex, 2);
+    const stored = fork.branches![1].messages;
+    assert.equal(stored[0].content, 'Rust');
+    assert.equal(stored[0].branches, undefined);
+    assert.equal(stored[0].branchIndex, undefined);
+    assert.equal(fork.branches![1].responseId, 'resp-3');
+  });
+});
+
+describe('switchBranch', () => {
+  const edited = editMessage(thread, 2, 'Rust', 'resp-2');
+  const shown = [...edited.messages, assistant('resp-3', 'Rust plan')];
+
+  it('shows the target branch and stores the current one in its slot', () => {
+    const { messages, responseId } = switchBranch(shown, 2, 0, 'resp-3');
+    assert.equal(responseId, 'resp-2');
+    assert.deepEqual(messages.map(m => m.content), ['Plan a CLI', 'Which language?', 'TypeScript', 'Here is the plan']);
+    assert.equal(messages[2].branchIndex, 0);
+    assert.deepEqual(messages[2].branches?.[0], { messages: [], responseId: null });
+    assert.deepEqual(messages[2].branches?.[1].messages.map(m => m.content), ['Rust', 'Rust plan']);
+  });
+
+  it('round-trips back to the branch it came from', () => {
+    const away = switchBranch(shown, 2, 0, 'resp-3');
+    const back = switchBranch(away.messages, 2, 1, away.responseId);
+    assert.equal(back.responseId, 'resp-3');
+    assert.deepEqual(back.messages.map(m => m.content), shown.map(m => m.content));
+    assert.equal(back.messages[2].branchIndex, 1);
+  });
+
+  it('leaves the thread alone for the current, an empty or a missing branch', () => {
+    for (const target of [1, 5]) {
+      const result = switchBranch(shown, 2, target, 'resp-3');
+      assert.equal(result.messages, shown);
+      assert.equal(result.responseId, 'resp-3');
+    }
+    assert.equal(switchBranch(thread, 2, 1, 'resp-2').messages, thread);
+  });
+});
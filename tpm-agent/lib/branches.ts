@@ -0,0 +1,107 @@
+// Branching conversation history: editing a user message forks the thread at that message.
+// The fork point (the user message) carries every sibling branch; the one being shown lives
+// in the message list itself and its slot in `branches` is left empty.
+import type { ChatBranch, ChatMessage } from './conversations';
+
+export interface BranchResult {
+  messages: ChatMessage[];
+  // Response ID to continue the conversation from
+  responseId: string | null;
+}
+
+function stripFork(message: ChatMessage): ChatMessage {
+  const rest = { ...message };
+  delete rest.branches;
+  delete rest.branchIndex;
+  return rest;
+}
+
+/**
+ * Response ID a user message was chained to. Messages saved before branching existed
+ * fall back to the ID of the preceding assistant message.
+ */
+export function parentResponseIdOf(messages: ChatMessage[], index: number): string | null {
+  const message = messages[index];
+  if (message.parentResponseId !== undefined) {
+    return message.parentResponseId;
+  }
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === 'assistant') {
+      const id = messages[i].id;
+      return id.startsWith('temp-') || id.startsWith('error-') ? null : id;
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace a user message with an edited copy, keeping the old continuation as a sibling branch.
+ * @param messages Currently shown messages
+ * @param index Index of the user message being edited
+ * @param content Edited message text
+ * @param currentResponseId Last response ID of the currently shown branch
+ * @returns Messages ending in the edited user message, and the response ID to regenerate from
+ */
+export function editMessage(
+  messages: ChatMessage[],
+  index: number,
+  content: string,
+  currentResponseId: string | null
+): BranchResult {
+  const original = messages[index];
+  const parentResponseId = parentResponseIdOf(messages, index);
+  const branches: ChatBranch[] = original.branches ? [...original.branches] : [{ messages: [], responseId: null }];
+  const currentIndex = original.branchIndex ?? 0;
+
+  branches[currentIndex] = {
+    messages: [stripFork(original), ...messages.slice(index + 1)],
+    responseId: currentResponseId,
+  };
+  branches.push({ messages: [], responseId: null });
+
+  const edited: ChatMessage = {
+    id: `user-${Date.now()}-${Math.random()}`,
+    role: 'user',
+    content,
+    ...(original.attachments ? { attachments: original.attachments } : {}),
+    parentResponseId,
+    branches,
+    branchIndex: branches.length - 1,
+  };
+
+  return { messages: [...messages.slice(0, index), edited], responseId: parentResponseId };
+}
+
+/**
+ * Show a different sibling branch at a fork point.
+ * @param messages Currently shown messages
+ * @param index Index of the fork point (a user message with branches)
+ * @param target Index of the branch to show
+ * @param currentResponseId Last response ID of the currently shown branch
+ */
+export function switchBranch(
+  messages: ChatMessage[],
+  index: number,
+  target: number,
+  currentResponseId: string | null
+): BranchResult {
+  const fork = messages[index];
+  const currentIndex = fork.branchIndex ?? 0;
+  if (!fork.branches || target === currentIndex || !fork.branches[target]?.messages.length) {
+    return { messages, responseId: currentResponseId };
+  }
+
+  const branches = [...fork.branches];
+  branches[currentIndex] = {
+    messages: [stripFork(fork), ...messages.slice(index + 1)],
+    responseId: currentResponseId,
+  };
+  const next = branches[target];
+  branches[target] = { messages: [], responseId: null };
+
+  const [head, ...tail] = next.messages;
+  return {
+    messages: [...messages.slice(0, index), { ...head, branches, branchIndex: target }, ...tail],
+    responseId: next.responseId,
+  };
+}
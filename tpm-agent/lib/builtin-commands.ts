@@ -0,0 +1,108 @@
+// Slash commands that ship with the chat; other modules add theirs with registerSlashCommand
+import type { SlashCommand } from './slash-commands';
+
+const DEFAULT_MEETING_MINUTES = 30;
+const DEFAULT_DECK_SLIDES = 6;
+
+function repositoryScope(repositories: string[], repo: string | undefined): string {
+  if (repo) return repo;
+  if (repositories.length === 0) return 'the active repository';
+  return repositories.length === 1 ? repositories[0] : `each of ${repositories.join(', ')}`;
+}
+
+export const builtinCommands: SlashCommand[] = [
+  {
+    name: 'email',
+    description: 'Send an email through Microsoft 365',
+    args: [
+      { name: 'to', type: 'emails', description: 'Recipients, comma-separated', required: true },
+      { name: 'subject', type: 'string', description: 'Subject line', required: true },
+      { name: 'body', type: 'text', description: 'Message text', required: true, rest: true },
+    ],
+    run: args => ({
+      type: 'sendEmail',
+      to: args.to as string[],
+      subject: args.subject as string,
+      body: args.body as string,
+    }),
+  },
+  {
+    name: 'meeting',
+    description: 'Schedule a Teams meeting',
+    args: [
+      { name: 'with', type: 'emails', description: 'Attendees, comma-separated', required: true },
+      { name: 'at', type: 'datetime', description: 'Start, e.g. "tomorrow 10:00" or "2026-11-03 14:30"', required: true },
+      { name: 'for', type: 'duration', description: 'Length, e.g. 30m or 1h', default: DEFAULT_MEETING_MINUTES },
+      { name: 'subject', type: 'text', description: 'Meeting subject', required: true, rest: true },
+    ],
+    run: args => {
+      const start = new Date(args.at as string);
+      const end = new Date(start.getTime() + (args.for as number) * 60 * 1000);
+      return {
+        type: 'createMeeting',
+        subject: args.subject as string,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        attendees: args.with as string[],
+      };
+    },
+  },
+  {
+    name: 'task',
+    description: 'Create a Microsoft Planner task',
+    args: [
+      { name: 'plan', type: 'string', description: 'Planner plan ID', required: true },
+      { name: 'title', type: 'text', description: 'Task title', required: true, rest: true },
+    ],
+    run: args => ({ type: 'createPlannerTask', planId: args.plan as string, title: args.title as string }),
+  },
+  {
+    name: 'deck',
+    description: 'Ask the agent to build a PowerPoint deck',
+    args: [
+      { name: 'slides', type: 'number', description: 'Number of slides', default: DEFAULT_DECK_SLIDES },
+      { name: 'audience', type: 'string', description: 'Who the deck is for' },
+      { name: 'topic', type: 'text', description: 'What the deck covers', required: true, rest: true },
+    ],
+    run: args => ({
+      type: 'prompt',
+      message: [
+        `Create a PowerPoint presentation about: ${args.topic}`,
+        `Use ${args.slides} slides${args.audience ? `, written for ${args.audience}` : ''}, drawing on this conversation and the repository context.`,
+        'Create it with the createPresentation tool.',
+      ].join('\n'),
+    }),
+  },
+  {
+    name: 'issues',
+    description: 'Ask the agent to review GitHub issues',
+    args: [
+      { name: 'state', type: 'enum', description: 'Issue state', options: ['open', 'closed', 'all'], default: 'open' },
+      { name: 'label', type: 'string', description: 'Only issues with this label' },
+      { name: 'assignee', type: 'string', description: 'Only issues assigned to this GitHub user' },
+      { name: 'repo', type: 'enum', description: 'Repository, when a program is active', options: context => context.repositories },
+      { name: 'question', type: 'text', description: 'What you want to know about them', rest: true },
+    ],
+    run: (args, context) => {
+      const filters = [
+        args.label ? `labelled "${args.label}"` : null,
+        args.assignee ? `assigned to @${args.assignee}` : null,
+      ].filter(Boolean);
+      return {
+        type: 'prompt',
+        message: [
+          `Look up the ${args.state === 'all' ? '' : `${args.state} `}issues in ${repositoryScope(context.repositories, args.repo as string | undefined)}${filters.length ? `, ${filters.join(' and ')}` : ''}.`,
+          args.question ? String(args.question) : 'Summarize them in a table with number, title, labels and assignee, then call out anything stale or blocked.',
+        ].join('\n'),
+      };
+    },
+  },
+  {
+    name: 'persona',
+    description: 'Switch the agent persona',
+    args: [
+      { name: 'id', type: 'enum', description: 'Persona', required: true, positional: true, options: context => context.personas.map(p => p.id) },
+    ],
+    run: args => ({ type: 'setPersona', personaId: args.id as string }),
+  },
+];
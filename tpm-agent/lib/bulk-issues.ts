@@ -0,0 +1,118 @@
+// Issue drafts built from a roadmap, and the client for /api/issues/bulk
+import { type Roadmap, roadmapTasks } from './roadmap';
+import { readSseData } from './sse';
+
+export interface IssueDraft {
+  // Roadmap task the issue is created from; used to link dependencies
+  taskId?: string;
+  title: string;
+  body: string;
+  labels: string[];
+  // Milestone title; created on confirm if the repository doesn't have it
+  milestone: string | null;
+  assignees: string[];
+  // Task IDs this issue depends on, rewritten to issue links when those already exist
+  dependencies: string[];
+  // owner/name to create the issue in; null for the repository the request names
+  repository?: string | null;
+}
+
+export type BulkIssueStatus = 'created' | 'failed' | 'dry_run';
+
+export interface BulkIssueResult {
+  index: number;
+  taskId?: string;
+  title: string;
+  // owner/name the issue was (or would be) created in
+  repository: string;
+  status: BulkIssueStatus;
+  number?: number;
+  html_url?: string;
+  error?: string;
+}
+
+export interface BulkIssueSummary {
+  dryRun: boolean;
+  created: number;
+  failed: number;
+  // Milestones that were (or in a dry run would be) created, as "owner/name: title"
+  createdMilestones: string[];
+  results: BulkIssueResult[];
+}
+
+export type BulkIssueEvent =
+  | { type: 'progress'; completed: number; total: number; result: BulkIssueResult }
+  | { type: 'summary'; summary: BulkIssueSummary }
+  | { type: 'error'; message: string };
+
+// Placeholder the server replaces with the dependency's issue number
+export function dependencyPlaceholder(taskId: string): string {
+  return `{{task:${taskId}}}`;
+}
+
+/**
+ * One issue draft per roadmap task, with the task sections as the issue body.
+ */
+export function draftsFromRoadmap(roadmap: Roadmap): IssueDraft[] {
+  return roadmap.phases.flatMap(phase => phase.tasks.map((task): IssueDraft => {
+    const sections = [
+      task.description,
+      '## Acceptance Criteria',
+      task.acceptanceCriteria.map(c => `- [ ] ${c}`).join('\n'),
+      '## Implementation Prompt',
+      task.implementationPrompt,
+    ];
+    if (task.dependencies.length > 0) {
+      sections.push('## Dependencies', task.dependencies.map(id => `- ${dependencyPlaceholder(id)}`).join('\n'));
+    }
+    sections.push(`_Roadmap task ${task.id} · ${phase.name}${task.parallelizable ? ' · parallelizable' : ''}_`);
+    return {
+      taskId: task.id,
+      title: task.title,
+      body: sections.filter(Boolean).join('\n\n'),
+      labels: [],
+      milestone: null,
+      assignees: [],
+      dependencies: task.dependencies,
+      repository: task.repository,
+    };
+  }));
+}
+
+/**
+ * Issue body as it will be shown before creation, with dependencies named by task.
+ */
+export function previewBody(draft: IssueDraft, roadmap?: Roadmap | null): string {
+  const titles = new Map(roadmap ? roadmapTasks(roadmap).map(t => [t.id, t.title]) : []);
+  return draft.dependencies.reduce(
+    (body, id) => body.split(dependencyPlaceholder(id)).join(`Task ${id}${titles.has(id) ? `: ${titles.get(id)}` : ''}`),
+    draft.body
+  );
+}
+
+/**
+ * Create the drafts as issues in owner/repo (or each draft's own repository), reporting
+ * progress as each one finishes.
+ * With dryRun the server validates the drafts and writes nothing.
+ */
+export async function* bulkCreateIssues(
+  owner: string,
+  repo: string,
+  issues: IssueDraft[],
+  { dryRun, signal }: { dryRun: boolean; signal?: AbortSignal }
+): AsyncGenerator<BulkIssueEvent> {
+  const res = await fetch('/api/issues/bulk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ owner, repo, issues, dryRun }),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+
+  for await (const data of readSseData(res.body)) {
+    yield JSON.parse(data) as BulkIssueEvent;
+  }
+}
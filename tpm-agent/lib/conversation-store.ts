@@ -0,0 +1,145 @@
+// File-backed conversation store: one JSON file of threads per GitHub user
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+import { readJsonFile, userFile, withFileLock, writeJsonFile } from './json-store';
+import {
+  type Conversation,
+  type ConversationSummary,
+  type ConversationUpdate,
+  DEFAULT_CONVERSATION_TITLE,
+} from './conversations';
+import type { UsageRecord } from './usage';
+
+const STORE_DIR = process.env.CONVERSATION_STORE_DIR || join(process.cwd(), '.data', 'conversations');
+// Per-user usage ledger; kept apart from the threads so deleting one doesn't erase what it spent
+const USAGE_DIR = process.env.USAGE_STORE_DIR || join(process.cwd(), '.data', 'usage');
+const TITLE_MAX_LENGTH = 60;
+
+function withUserLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+  return withFileLock(userFile(STORE_DIR, userId), fn);
+}
+
+async function readThreads(userId: string): Promise<Conversation[]> {
+  return (await readJsonFile<Conversation[]>(userFile(STORE_DIR, userId))) ?? [];
+}
+
+function writeThreads(userId: string, threads: Conversation[]): Promise<void> {
+  return writeJsonFile(userFile(STORE_DIR, userId), threads);
+}
+
+// Null for users whose usage predates the ledger; their thread records stand in for it
+function readLedger(userId: string): Promise<UsageRecord[] | null> {
+  return readJsonFile<UsageRecord[]>(userFile(USAGE_DIR, userId));
+}
+
+function summarize(thread: Conversation): ConversationSummary {
+  return {
+    id: thread.id,
+    title: thread.title,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+    repositoryFullName: thread.repository?.full_name ?? null,
+    messageCount: thread.messages.length,
+  };
+}
+
+function titleFromMessages(thread: Conversation): string {
+  const firstUserMessage = thread.messages.find(m => m.role === 'user')?.content.trim();
+  if (!firstUserMessage) return thread.title;
+  const line = firstUserMessage.split('\n')[0];
+  return line.length > TITLE_MAX_LENGTH ? `${line.slice(0, TITLE_MAX_LENGTH - 1)}…` : line;
+}
+
+export async function listConversations(userId: string): Promise<ConversationSummary[]> {
+  const threads = await readThreads(userId);
+  return threads
+    .map(summarize)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getConversation(userId: string, id: string): Promise<Conversation | null> {
+  const threads = await readThreads(userId);
+  return threads.find(t => t.id === id) ?? null;
+}
+
+export function createConversation(
+  userId: string,
+  init: Pick<ConversationUpdate, 'title' | 'repository'> = {}
+): Promise<Conversation> {
+  return withUserLock(userId, async () => {
+    const now = new Date().toISOString();
+    const thread: Conversation = {
+      id: randomUUID(),
+      title: init.title?.trim() || DEFAULT_CONVERSATION_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      previousResponseId: null,
+      repository: init.repository ?? null,
+      personaId: null,
+      messages: [],
+      usage: [],
+    };
+    const threads = await readThreads(userId);
+    await writeThreads(userId, [...threads, thread]);
+    logger.info(`Created conversation ${thread.id}`);
+    return thread;
+  });
+}
+
+export function updateConversation(userId: string, id: string, update: ConversationUpdate): Promise<Conversation | null> {
+  return withUserLock(userId, async () => {
+    const threads = await readThreads(userId);
+    const index = threads.findIndex(t => t.id === id);
+    if (index === -1) return null;
+
+    const thread: Conversation = {
+      ...threads[index],
+      ...Object.fromEntries(Object.entries(update).filter(([, v]) => v !== undefined)),
+    };
+    if (update.title !== undefined) {
+      thread.title = update.title.trim() || DEFAULT_CONVERSATION_TITLE;
+    } else if (thread.title === DEFAULT_CONVERSATION_TITLE) {
+      // Name untitled threads after their first message
+      thread.title = titleFromMessages(thread);
+    }
+    // Updates that change nothing leave the thread, and its place in the list, as it was
+    if (JSON.stringify(thread) === JSON.stringify(threads[index])) return threads[index];
+
+    thread.updatedAt = new Date().toISOString();
+    threads[index] = thread;
+    await writeThreads(userId, threads);
+    return thread;
+  });
+}
+
+export function deleteConversation(userId: string, id: string): Promise<boolean> {
+  return withUserLock(userId, async () => {
+    const threads = await readThreads(userId);
+    const remaining = threads.filter(t => t.id !== id);
+    if (remaining.length === threads.length) return false;
+    await writeThreads(userId, remaining);
+    logger.info(`Deleted conversation ${id}`);
+    return true;
+  });
+}
+
+export function recordUsage(userId: string, id: string, record: UsageRecord): Promise<boolean> {
+  return withUserLock(userId, async () => {
+    const threads = await readThreads(userId);
+    const ledger = (await readLedger(userId)) ?? threads.flatMap(t => t.usage ?? []);
+    await writeJsonFile(userFile(USAGE_DIR, userId), [...ledger, record]);
+    const thread = threads.find(t => t.id === id);
+    if (!thread) return false;
+    thread.usage = [...(thread.usage ?? []), record];
+    await writeThreads(userId, threads);
+    return true;
+  });
+}
+
+/**
+ * Every usage record of a user, including those of deleted threads, for per-user totals.
+ */
+export async function listUsage(userId: string): Promise<UsageRecord[]> {
+  return (await readLedger(userId)) ?? (await readThreads(userId)).flatMap(t => t.usage ?? []);
+}
@@ -0,0 +1,113 @@
+// Conversation thread types and client-safe helpers for /api/conversations
+import type { ApprovalRequest } from './approvals';
+import type { ActivityEntry } from './activity';
+import type { Roadmap } from './roadmap';
+import type { UsageRecord } from './usage';
+import type { AttachmentSummary } from './attachments';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  approvals?: Array<ApprovalRequest & { decision?: boolean }>;
+  activity?: ActivityEntry[];
+  // Assistant messages the user stopped before the reply finished
+  interrupted?: boolean;
+  // Assistant messages answered in roadmap mode: the parsed roadmap and its validation problems
+  roadmap?: Roadmap | null;
+  roadmapErrors?: string[];
+  // Assistant messages repaired under strict format validation: the problems fixed and any left
+  formatRepair?: { fixed: string[]; remaining: string[] };
+  // User messages: files sent along with the text
+  attachments?: AttachmentSummary[];
+  // User messages: response the message was chained to when sent
+  parentResponseId?: string | null;
+  // User messages that were edited: every sibling branch from this point (see lib/branches.ts)
+  branches?: ChatBranch[];
+  branchIndex?: number;
+}
+
+export interface ChatBranch {
+  // The branch's messages from the fork point on; empty for the branch currently shown
+  messages: ChatMessage[];
+  // Last response ID of the branch, to resume the conversation chain
+  responseId: string | null;
+}
+
+export interface RepositorySummary {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  private: boolean;
+  html_url: string;
+  updated_at: string;
+  language: string | null;
+  stargazers_count: number;
+  forks_count: number;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  previousResponseId: string | null;
+  // Repository whose context has been sent into this thread
+  repository: RepositorySummary | null;
+  // When that context was last sent; it is sent again once stale (see lib/repository-context.ts)
+  repositoryContextAt?: string | null;
+  // Program (see lib/programs.ts) whose repositories were sent, with `repository` as its primary
+  programId?: string | null;
+  // Persona selected for this thread (see lib/personas.ts); null uses the default
+  personaId: string | null;
+  messages: ChatMessage[];
+  // Token usage of every response in the thread, recorded by the server (absent on older threads)
+  usage?: UsageRecord[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  repositoryFullName: string | null;
+  messageCount: number;
+}
+
+export type ConversationUpdate = Partial<Pick<Conversation, 'title' | 'previousResponseId' | 'repository' | 'repositoryContextAt' | 'programId' | 'personaId' | 'messages'>>;
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    cache: 'no-store',
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+export function listConversations(): Promise<ConversationSummary[]> {
+  return request('/api/conversations');
+}
+
+export function createConversation(init: { title?: string; repository?: RepositorySummary | null } = {}): Promise<Conversation> {
+  return request('/api/conversations', { method: 'POST', body: JSON.stringify(init) });
+}
+
+export function getConversation(id: string): Promise<Conversation> {
+  return request(`/api/conversations/${encodeURIComponent(id)}`);
+}
+
+export function updateConversation(id: string, update: ConversationUpdate): Promise<Conversation> {
+  return request(`/api/conversations/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(update) });
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await request(`/api/conversations/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
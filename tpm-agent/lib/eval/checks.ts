@@ -0,0 +1,87 @@
+// Format checks run on each reply of an eval scenario
+import { type ExtractedTask, extractTasks, replyMarkdown } from '../roadmap-format';
+import type { TurnExpectation } from './scenarios';
+
+export interface EvalCheck {
+  id: 'task-sections' | 'testable-criteria' | 'clarifying-questions';
+  passed: boolean;
+  // 0-1
+  score: number;
+  details: string[];
+}
+
+// A vague reply should get at least this many questions back
+export const MIN_CLARIFYING_QUESTIONS = 2;
+// Share of acceptance criteria that must read as testable
+export const TESTABLE_CRITERIA_THRESHOLD = 0.8;
+
+// Wording that can't be checked by a test
+const VAGUE_WORDING = /\b(proper(ly)?|correctly|appropriate(ly)?|as expected|user[- ]friendly|robust|efficient(ly)?|good|nice|clean|seamless(ly)?|intuitive|adequate(ly)?|comprehensive|various|etc)\b/i;
+
+export function isTestableCriterion(criterion: string): boolean {
+  return criterion.split(/\s+/).length >= 3 && !VAGUE_WORDING.test(criterion);
+}
+
+function questionCount(markdown: string): number {
+  return markdown.split('\n').filter(line => line.includes('?')).length;
+}
+
+export function checkTaskSections(tasks: ExtractedTask[]): EvalCheck {
+  if (tasks.length === 0) {
+    return { id: 'task-sections', passed: false, score: 0, details: ['No tasks found'] };
+  }
+  const incomplete = tasks.filter(t => t.missing.length > 0);
+  return {
+    id: 'task-sections',
+    passed: incomplete.length === 0,
+    score: (tasks.length - incomplete.length) / tasks.length,
+    details: [
+      `${tasks.length - incomplete.length} of ${tasks.length} tasks have Description, Acceptance Criteria and Implementation Prompt`,
+      ...incomplete.map(t => `${t.heading}: missing ${t.missing.join(', ')}`),
+    ],
+  };
+}
+
+export function checkTestableCriteria(tasks: ExtractedTask[]): EvalCheck {
+  const criteria = tasks.flatMap(t => t.acceptanceCriteria.map(text => ({ task: t.heading, text })));
+  if (criteria.length === 0) {
+    return { id: 'testable-criteria', passed: false, score: 0, details: ['No acceptance criteria found'] };
+  }
+  const vague = criteria.filter(c => !isTestableCriterion(c.text));
+  const score = (criteria.length - vague.length) / criteria.length;
+  return {
+    id: 'testable-criteria',
+    passed: score >= TESTABLE_CRITERIA_THRESHOLD,
+    score,
+    details: [
+      `${criteria.length - vague.length} of ${criteria.length} acceptance criteria read as testable (threshold ${Math.round(TESTABLE_CRITERIA_THRESHOLD * 100)}%)`,
+      ...vague.map(c => `${c.task}: "${c.text}"`),
+    ],
+  };
+}
+
+export function checkClarifyingQuestions(markdown: string, tasks: ExtractedTask[]): EvalCheck {
+  const questions = questionCount(markdown);
+  const asked = questions >= MIN_CLARIFYING_QUESTIONS;
+  const details = [`${questions} question(s) asked; at least ${MIN_CLARIFYING_QUESTIONS} expected`];
+  if (tasks.length > 0) details.push(`Planned ${tasks.length} task(s) before the questions were answered`);
+  return {
+    id: 'clarifying-questions',
+    passed: asked && tasks.length === 0,
+    score: asked ? (tasks.length === 0 ? 1 : 0.5) : 0,
+    details,
+  };
+}
+
+/**
+ * Checks for one reply. A turn expecting "any" is checked as a roadmap when it has tasks,
+ * otherwise as clarifying questions.
+ */
+export function checkReply(reply: string, expect: TurnExpectation): EvalCheck[] {
+  const markdown = replyMarkdown(reply);
+  const tasks = extractTasks(markdown);
+  const asRoadmap = expect === 'roadmap' || (expect === 'any' && tasks.length > 0);
+  return asRoadmap
+    ? [checkTaskSections(tasks), checkTestableCriteria(tasks)]
+    : [checkClarifyingQuestions(markdown, tasks)];
+}
@@ -0,0 +1,92 @@
+// Scored eval report, written as JSON for tooling and markdown for people
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { EvalMode, ScenarioResult } from './runner';
+
+export interface EvalReport {
+  createdAt: string;
+  mode: EvalMode;
+  // Provider and model of live runs; null for replays
+  provider: string | null;
+  model: string | null;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    errors: number;
+    // Mean score of the scenarios that ran, 0-1
+    score: number;
+  };
+  scenarios: ScenarioResult[];
+}
+
+const REPLY_PREVIEW_LENGTH = 400;
+
+export function buildReport(
+  scenarios: ScenarioResult[],
+  mode: EvalMode,
+  provider: { name: string; model: string } | null
+): EvalReport {
+  const ran = scenarios.filter(s => s.status === 'passed' || s.status === 'failed');
+  return {
+    createdAt: new Date().toISOString(),
+    mode,
+    provider: provider?.name ?? null,
+    model: provider?.model ?? null,
+    summary: {
+      total: scenarios.length,
+      passed: scenarios.filter(s => s.status === 'passed').length,
+      failed: scenarios.filter(s => s.status === 'failed').length,
+      errors: scenarios.filter(s => s.status === 'error').length,
+      score: ran.length ? ran.reduce((sum, s) => sum + s.score, 0) / ran.length : 0,
+    },
+    scenarios,
+  };
+}
+
+function percent(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+export function reportToMarkdown(report: EvalReport): string {
+  const { summary } = report;
+  const lines = [
+    '# Planning prompt eval',
+    '',
+    `- Run: ${report.createdAt} (${report.mode}${report.provider ? `, ${report.provider} ${report.model}` : ''})`,
+    `- Score: ${percent(summary.score)}`,
+    `- Scenarios: ${summary.passed} passed, ${summary.failed} failed, ${summary.errors} errors`,
+    '',
+    '| Scenario | Status | Score |',
+    '| --- | --- | --- |',
+    ...report.scenarios.map(s => `| ${s.name} | ${s.status} | ${s.status === 'passed' || s.status === 'failed' ? percent(s.score) : '-'} |`),
+  ];
+
+  for (const scenario of report.scenarios) {
+    lines.push('', `## ${scenario.name}`, '');
+    lines.push(...scenario.notes.map(note => `> ${note}`));
+    if (scenario.notes.length) lines.push('');
+    scenario.turns.forEach((turn, index) => {
+      lines.push(`### Turn ${index + 1} (expects ${turn.expect}): ${percent(turn.score)}`, '');
+      for (const check of turn.checks) {
+        lines.push(`- ${check.passed ? 'PASS' : 'FAIL'} ${check.id} (${percent(check.score)})`, ...check.details.map(d => `  - ${d}`));
+      }
+      const preview = turn.reply.length > REPLY_PREVIEW_LENGTH ? `${turn.reply.slice(0, REPLY_PREVIEW_LENGTH)}…` : turn.reply;
+      lines.push('', '<details><summary>Reply</summary>', '', '```markdown', preview, '```', '', '</details>', '');
+    });
+  }
+  return `${lines.join('\n').trim()}\n`;
+}
+
+/**
+ * Write report.json and report.md under a timestamped directory; returns their paths.
+ */
+export async function writeReport(report: EvalReport, outDir: string): Promise<{ json: string; markdown: string }> {
+  const dir = join(outDir, report.createdAt.replace(/[:.]/g, '-'));
+  await mkdir(dir, { recursive: true });
+  const json = join(dir, 'report.json');
+  const markdown = join(dir, 'report.md');
+  await writeFile(json, `${JSON.stringify(report, null, 2)}\n`, 'utf-8');
+  await writeFile(markdown, reportToMarkdown(report), 'utf-8');
+  return { json, markdown };
+}
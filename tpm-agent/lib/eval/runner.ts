@@ -0,0 +1,198 @@
+// Replays eval scenarios against the configured LLM provider or recorded fixtures and scores the replies
+import { join } from 'path';
+import { createHash } from 'crypto';
+import type { ResponseStreamEvent } from 'openai/resources/responses/responses';
+import { type LLMProvider, getLLMProvider, withRetry } from '../llm';
+import { buildInstructions, getPersona } from '../persona-store';
+import { ROADMAP_RESPONSE_FORMAT } from '../roadmap';
+import { readJsonFile, writeJsonFile } from '../json-store';
+import { type EvalCheck, checkReply } from './checks';
+import type { EvalScenario, TurnExpectation } from './scenarios';
+
+// replay: recorded fixtures only, no network; live: call the provider; record: live, then save fixtures
+export type EvalMode = 'replay' | 'live' | 'record';
+
+export interface EvalFixture {
+  scenario: string;
+  provider: string;
+  model: string;
+  // null for hand-made fixtures
+  recordedAt: string | null;
+  // Hash of the instructions the replies were recorded with; null when unknown
+  instructionsHash: string | null;
+  // Where a hand-made fixture's replies came from
+  source?: string;
+  turns: Array<{ input: string; reply: string }>;
+}
+
+export interface TurnResult {
+  expect: TurnExpectation;
+  input: string;
+  reply: string;
+  checks: EvalCheck[];
+  score: number;
+  passed: boolean;
+}
+
+export interface ScenarioResult {
+  id: string;
+  name: string;
+  status: 'passed' | 'failed' | 'error';
+  score: number;
+  turns: TurnResult[];
+  // Error reasons, stale fixture warnings
+  notes: string[];
+}
+
+export interface EvalRunOptions {
+  mode: EvalMode;
+  fixturesDir: string;
+}
+
+export function hashInstructions(instructions: string): string {
+  return createHash('sha256').update(instructions).digest('hex').slice(0, 12);
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+export function readFixture(dir: string, scenarioId: string): Promise<EvalFixture | null> {
+  return readJsonFile<EvalFixture>(join(dir, `${scenarioId}.json`));
+}
+
+function writeFixture(dir: string, fixture: EvalFixture): Promise<void> {
+  return writeJsonFile(join(dir, `${fixture.scenario}.json`), fixture, { pretty: true });
+}
+
+// One model turn without tools; returns the reply text and the response ID to chain the next turn to
+async function collectReply(
+  provider: LLMProvider,
+  input: string,
+  instructions: string,
+  previousResponseId: string | undefined,
+  structuredRoadmap: boolean
+): Promise<{ text: string; responseId: string | undefined }> {
+  return withRetry(async () => {
+    let text = '';
+    let responseId: string | undefined;
+    const stream: AsyncIterable<ResponseStreamEvent> = provider.streamResponse({
+      input: [{ role: 'user', content: input }],
+      instructions,
+      previousResponseId,
+      text: structuredRoadmap ? { format: ROADMAP_RESPONSE_FORMAT } : undefined,
+    });
+    for await (const event of stream) {
+      if (event.type === 'response.output_text.delta') {
+        text += event.delta;
+      } else if (event.type === 'response.completed') {
+        responseId = event.response.id;
+      } else if (event.type === 'response.failed') {
+        throw new Error(event.response.error?.message || 'Response failed');
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+    }
+    return { text, responseId };
+  });
+}
+
+function scoreTurn(expect: TurnExpectation, input: string, reply: string): TurnResult {
+  const checks = checkReply(reply, expect);
+  return {
+    expect,
+    input,
+    reply,
+    checks,
+    score: average(checks.map(c => c.score)),
+    passed: checks.every(c => c.passed),
+  };
+}
+
+function result(scenario: EvalScenario, turns: TurnResult[], notes: string[]): ScenarioResult {
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    status: turns.every(t => t.passed) ? 'passed' : 'failed',
+    score: average(turns.map(t => t.score)),
+    turns,
+    notes,
+  };
+}
+
+async function replayScenario(scenario: EvalScenario, instructionsHash: string, fixturesDir: string): Promise<ScenarioResult> {
+  const fixture = await readFixture(fixturesDir, scenario.id);
+  // A scenario that can't be replayed is an error, so an offline run never passes without checking it
+  if (!fixture) throw new Error('No recorded fixture; run with --mode record to create one');
+  if (fixture.turns.length < scenario.turns.length) {
+    throw new Error(`Fixture has ${fixture.turns.length} of ${scenario.turns.length} turns; record it again`);
+  }
+
+  const notes: string[] = [];
+  if (fixture.instructionsHash === null) {
+    notes.push(`Fixture doesn't record which instructions it was made with${fixture.source ? ` (${fixture.source})` : ''}`);
+  } else if (fixture.instructionsHash !== instructionsHash) {
+    notes.push('Recorded with different instructions than the current ones; run in live or record mode to measure the change');
+  }
+  const turns = scenario.turns.map((turn, index) => {
+    if (fixture.turns[index].input.trim() !== turn.input) {
+      notes.push(`Turn ${index + 1} input changed since the fixture was recorded`);
+    }
+    return scoreTurn(turn.expect, turn.input, fixture.turns[index].reply);
+  });
+  return result(scenario, turns, notes);
+}
+
+async function runLiveScenario(
+  scenario: EvalScenario,
+  provider: LLMProvider,
+  instructions: string,
+  options: EvalRunOptions
+): Promise<ScenarioResult> {
+  const turns: TurnResult[] = [];
+  let previousResponseId: string | undefined;
+  for (const turn of scenario.turns) {
+    const { text, responseId } = await collectReply(provider, turn.input, instructions, previousResponseId, scenario.structuredRoadmap);
+    previousResponseId = responseId;
+    turns.push(scoreTurn(turn.expect, turn.input, text));
+  }
+
+  if (options.mode === 'record') {
+    await writeFixture(options.fixturesDir, {
+      scenario: scenario.id,
+      provider: provider.name,
+      model: provider.model,
+      recordedAt: new Date().toISOString(),
+      instructionsHash: hashInstructions(instructions),
+      turns: turns.map(({ input, reply }) => ({ input, reply })),
+    });
+  }
+  return result(scenario, turns, []);
+}
+
+/**
+ * Run one scenario. Failures to reach the provider are reported as an error result
+ * rather than thrown, so the rest of the suite still runs.
+ */
+export async function runScenario(scenario: EvalScenario, options: EvalRunOptions): Promise<ScenarioResult> {
+  try {
+    const instructions = await buildInstructions(await getPersona(scenario.persona));
+    if (options.mode === 'replay') {
+      return await replayScenario(scenario, hashInstructions(instructions), options.fixturesDir);
+    }
+    const provider = getLLMProvider();
+    if (!provider) {
+      throw new Error('No LLM provider configured; set LLM_PROVIDER and its environment variables, or use --mode replay');
+    }
+    return await runLiveScenario(scenario, provider, instructions, options);
+  } catch (error) {
+    return {
+      id: scenario.id,
+      name: scenario.name,
+      status: 'error',
+      score: 0,
+      turns: [],
+      notes: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+}
@@ -0,0 +1,77 @@
+// Eval scenarios: markdown files under evals/scenarios with one section per user turn
+//
+// ---
+// name: MCP server for GitHub issues
+// persona: roadmap
+// structuredOutput: roadmap    (optional: ask for the JSON roadmap, as the chat's roadmap mode does)
+// ---
+// ## Turn 1
+// expect: questions
+//
+// I want to write an MCP server...
+import { readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+import { parseFrontMatter } from '../front-matter';
+import { DEFAULT_PERSONA_ID } from '../personas';
+
+// What a turn's reply should be: clarifying questions, a roadmap, or either
+export type TurnExpectation = 'questions' | 'roadmap' | 'any';
+
+export interface EvalTurn {
+  input: string;
+  expect: TurnExpectation;
+}
+
+export interface EvalScenario {
+  // File name without .md; also names the scenario's fixture
+  id: string;
+  name: string;
+  description: string;
+  persona: string;
+  // Replies are requested as JSON matching ROADMAP_RESPONSE_FORMAT
+  structuredRoadmap: boolean;
+  turns: EvalTurn[];
+}
+
+const TURN_HEADING = /^## Turn\b.*$/m;
+const EXPECTATIONS: TurnExpectation[] = ['questions', 'roadmap', 'any'];
+
+export function parseScenario(id: string, source: string): EvalScenario {
+  const { attributes, body } = parseFrontMatter(source);
+  const turns = body.split(TURN_HEADING).slice(1).map((section, index): EvalTurn => {
+    const match = /^\s*expect:\s*(\w+)\s*\n/.exec(section);
+    const expect = (match?.[1] ?? 'any') as TurnExpectation;
+    if (!EXPECTATIONS.includes(expect)) {
+      throw new Error(`Scenario ${id}, turn ${index + 1}: expect must be one of ${EXPECTATIONS.join(', ')}`);
+    }
+    const input = section.slice(match?.[0].length ?? 0).trim();
+    if (!input) {
+      throw new Error(`Scenario ${id}, turn ${index + 1} has no input`);
+    }
+    return { input, expect };
+  });
+  if (turns.length === 0) {
+    throw new Error(`Scenario ${id} has no "## Turn" sections`);
+  }
+  if (attributes.structuredOutput && attributes.structuredOutput !== 'roadmap') {
+    throw new Error(`Scenario ${id}: structuredOutput must be roadmap`);
+  }
+
+  return {
+    id,
+    name: attributes.name || id,
+    description: attributes.description || '',
+    persona: attributes.persona || DEFAULT_PERSONA_ID,
+    structuredRoadmap: attributes.structuredOutput === 'roadmap',
+    turns,
+  };
+}
+
+/**
+ * Load every scenario in a directory, optionally only those whose ID contains `filter`.
+ */
+export async function loadScenarios(dir: string, filter?: string): Promise<EvalScenario[]> {
+  const files = (await readdir(dir)).filter(f => f.endsWith('.md')).sort();
+  const scenarios = await Promise.all(files.map(async file => parseScenario(file.replace(/\.md$/, ''), await readFile(join(dir, file), 'utf-8'))));
+  return filter ? scenarios.filter(s => s.id.includes(filter)) : scenarios;
+}
@@ -0,0 +1,86 @@
+// Minimal front-matter parser for markdown config files.
+// Supports `key: value` pairs and `key: |` block values indented under the key.
+
+export interface FrontMatterDocument {
+  attributes: Record<string, string>;
+  body: string;
+}
+
+const DELIMITER = '---';
+
+export function parseFrontMatter(source: string): FrontMatterDocument {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  if (lines[0]?.trim() !== DELIMITER) {
+    return { attributes: {}, body: source };
+  }
+
+  const end = lines.indexOf(DELIMITER, 1);
+  if (end === -1) {
+    return { attributes: {}, body: source };
+  }
+
+  const attributes: Record<string, string> = {};
+  let blockKey: string | null = null;
+  let blockLines: string[] = [];
+
+  const flushBlock = () => {
+    if (blockKey) {
+      const indent = Math.min(...blockLines.filter(l => l.trim()).map(l => l.length - l.trimStart().length));
+      attributes[blockKey] = blockLines.map(l => l.slice(Number.isFinite(indent) ? indent : 0)).join('\n').trim();
+    }
+    blockKey = null;
+    blockLines = [];
+  };
+
+  for (const line of lines.slice(1, end)) {
+    if (blockKey && (line.startsWith(' ') || line.trim() === '')) {
+      blockLines.push(line);
+      continue;
+    }
+    flushBlock();
+
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!match) continue;
+    const [, key, value] = match;
+    if (value === '|') {
+      blockKey = key;
+    } else {
+      attributes[key] = value.trim().replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  flushBlock();
+
+  return { attributes, body: lines.slice(end + 1).join('\n').replace(/^\n+/, '') };
+}
+
+/**
+ * Split a list attribute written as `a, b` or `[a, b]`.
+ */
+export function parseList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map(item => item.trim().replace(/^(["'])(.*)\1$/, '$2'))
+    .filter(Boolean);
+}
+
+/**
+ * Serialize attributes and a body into the format parseFrontMatter reads. Multi-line values
+ * are written as `key: |` blocks; empty values are left out.
+ */
+export function stringifyFrontMatter(attributes: Record<string, string>, body: string): string {
+  const lines = [DELIMITER];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (!value) continue;
+    if (value.includes('\n')) {
+      lines.push(`${key}: |`, ...value.split('\n').map(line => (line ? `  ${line}` : '')));
+    } else if (value === '|' || /^["']|^\s|\s$/.test(value)) {
+      lines.push(`${key}: "${value}"`);
+    } else {
+      lines.push(`${key}: ${value}`);
+    }
+  }
+  lines.push(DELIMITER, '', body.trim(), '');
+  return lines.join('\n');
+}
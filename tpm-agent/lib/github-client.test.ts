@@ -0,0 +1,168 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { GitHubError, githubFailure, githubPaginate, githubRequest, nextLink } from './github-client';
+
+interface Call {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+}
+
+// Replaces fetch with handlers answering the calls in order; returns the calls made
+function stubFetch(...handlers: Array<(call: Call) => Response>): Call[] {
+  const calls: Call[] = [];
+  mock.method(globalThis, 'fetch', async (input: URL | string, init: RequestInit = {}) => {
+    const call = { url: String(input), method: init.method ?? 'GET', headers: init.headers as Record<string, string> };
+    calls.push(call);
+    const handler = handlers[calls.length - 1];
+    if (!handler) throw new Error(`Unexpected request ${call.method} ${call.url}`);
+    return handler(call);
+  });
+  return calls;
+}
+
+function json(body: unknown, { status = 200, headers = {} }: { status?: number; headers?: Record<string, string> } = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+}
+
+// The cache and rate limits are kept per token, so each test signs in as its own user
+let users = 0;
+const newToken = () => `token-${++users}`;
+
+afterEach(() => mock.restoreAll());
+
+describe('nextLink', () => {
+  it('picks the rel="next" URL of a Link header', () => {
+    const header = '<https://api.github.com/repos/a/b/issues?page=1>; rel="prev", <https://api.github.com/repos/a/b/issues?page=3>; rel="next"';
+    assert.equal(nextLink(header), 'https://api.github.com/repos/a/b/issues?page=3');
+  });
+
+  it('is null without a next page', () => {
+    assert.equal(nextLink('<https://api.github.com/x?page=1>; rel="first"'), null);
+    assert.equal(nextLink(null), null);
+  });
+});
+
+describe('githubRequest', () => {
+  it('revalidates a cached GET with its ETag and serves the cached body after a 304', async () => {
+    const token = newToken();
+    const calls = stubFetch(
+      () => json({ name: 'api' }, { headers: { etag: '"v1"' } }),
+      () => new Response(null, { status: 304 })
+    );
+    const first = await githubRequest<{ name: string }>(token, '/repos/acme/api');
+    const second = await githubRequest<{ name: string }>(token, '/repos/acme/api');
+
+    assert.equal(calls[0].headers['If-None-Match'], undefined);
+    assert.equal(calls[1].headers['If-None-Match'], '"v1"');
+    assert.deepEqual(first, { data: { name: 'api' }, status: 200, nextUrl: null, cached: false });
+    assert.deepEqual(second, { data: { name: 'api' }, status: 200, nextUrl: null, cached: true });
+  });
+
+  it('does not share cached responses between users', async () => {
+    const calls = stubFetch(
+      () => json({ private: true }, { headers: { etag: '"v1"' } }),
+      () => json({ private: false })
+    );
+    await githubRequest(newToken(), '/repos/acme/api');
+    await githubRequest(newToken(), '/repos/acme/api');
+    assert.equal(calls[1].headers['If-None-Match'], undefined);
+  });
+
+  it('refuses URLs outside the GitHub API', async () => {
+    await assert.rejects(
+      githubRequest(newToken(), 'https://example.com/repos'),
+      (error: unknown) => error instanceof GitHubError && error.code === 'bad_request'
+    );
+  });
+
+  it('reports an exhausted rate limit and skips requests until it resets', async () => {
+    const token = newToken();
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    const calls = stubFetch(() => json({ message: 'API rate limit exceeded' }, {
+      status: 403,
+      headers: { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset), 'x-ratelimit-resource': 'core' },
+    }));
+
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(
+        githubRequest(token, '/repos/acme/api/issues'),
+        (error: unknown) => error instanceof GitHubError && error.code === 'rate_limit' && (error.retryAfter ?? 0) > 3500
+      );
+    }
+    assert.equal(calls.length, 1);
+  });
+
+  it('reads a secondary rate limit from retry-after and does not sleep through a long one', async () => {
+    stubFetch(() => json({ message: 'You have exceeded a secondary rate limit' }, { status: 403, headers: { 'retry-after': '120' } }));
+    await assert.rejects(
+      githubRequest(newToken(), '/search/issues?q=x'),
+      (error: unknown) => error instanceof GitHubError && error.code === 'rate_limit' && error.retryAfter === 120
+    );
+  });
+
+  it('retries a GET after a server error', async () => {
+    const calls = stubFetch(
+      () => json({ message: 'Bad gateway' }, { status: 502 }),
+      () => json([])
+    );
+    const { data } = await githubRequest<unknown[]>(newToken(), '/repos/acme/api/labels', { retries: 1 });
+    assert.deepEqual(data, []);
+    assert.equal(calls.length, 2);
+  });
+
+  it('does not retry a POST after a server error', async () => {
+    const calls = stubFetch(() => json({ message: 'Bad gateway' }, { status: 502 }));
+    await assert.rejects(
+      githubRequest(newToken(), '/repos/acme/api/issues', { method: 'POST', body: { title: 'x' } }),
+      (error: unknown) => error instanceof GitHubError && error.code === 'server' && error.status === 502
+    );
+    assert.equal(calls.length, 1);
+  });
+
+  it('includes GitHub\'s validation details in the error', async () => {
+    stubFetch(() => json(
+      { message: 'Validation Failed', errors: [{ field: 'title', code: 'missing_field' }] },
+      { status: 422 }
+    ));
+    await assert.rejects(
+      githubRequest(newToken(), '/repos/acme/api/issues', { method: 'POST', body: {} }),
+      { message: 'GitHub API error 422: Validation Failed (title missing_field)' }
+    );
+  });
+});
+
+describe('githubPaginate', () => {
+  it('asks for 100 per page and follows Link headers', async () => {
+    const calls = stubFetch(
+      () => json([1, 2], { headers: { link: '<https://api.github.com/repos/acme/api/labels?per_page=100&page=2>; rel="next"' } }),
+      () => json([3])
+    );
+    assert.deepEqual(await githubPaginate<number>(newToken(), '/repos/acme/api/labels'), [1, 2, 3]);
+    assert.equal(calls[0].url, 'https://api.github.com/repos/acme/api/labels?per_page=100');
+    assert.equal(calls[1].url, 'https://api.github.com/repos/acme/api/labels?per_page=100&page=2');
+  });
+
+  it('unwraps search results and stops after maxPages', async () => {
+    const page = (n: number) => () => json(
+      { total_count: 9, items: [n] },
+      { headers: { link: `<https://api.github.com/search/issues?q=x&page=${n + 1}>; rel="next"` } }
+    );
+    const calls = stubFetch(page(1), page(2));
+    assert.deepEqual(await githubPaginate<number>(newToken(), '/search/issues?q=x&per_page=50', { maxPages: 2 }), [1, 2]);
+    assert.equal(calls.length, 2);
+    assert.equal(new URL(calls[0].url).searchParams.get('per_page'), '50');
+  });
+});
+
+describe('githubFailure', () => {
+  it('maps GitHub errors to a status and keeps the retry hint', () => {
+    const error = new GitHubError({ code: 'rate_limit', status: 403, message: 'Slow down', retryAfter: 30 });
+    assert.deepEqual(githubFailure(error), { status: 429, body: { error: 'Slow down', code: 'rate_limit', retryAfter: 30 } });
+    assert.equal(githubFailure(new GitHubError({ code: 'network', status: 0, message: 'x' })).status, 502);
+  });
+
+  it('answers other errors with 500', () => {
+    assert.deepEqual(githubFailure(new Error('boom')), { status: 500, body: { error: 'boom' } });
+  });
+});
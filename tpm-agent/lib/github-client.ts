@@ -0,0 +1,326 @@
+// Server-side GitHub REST client used by every API route: conditional requests against an ETag cache,
+// rate-limit tracking and retries, Link-header pagination and typed errors
+import { createHash } from 'crypto';
+import { logger } from './logger';
+import { sleep } from './util';
+import type { GitHubErrorCode, GitHubQuota, GitHubRateLimit } from './github';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+const DEFAULT_ACCEPT = 'application/vnd.github.v3+json';
+const MAX_CACHE_ENTRIES = 500;
+// Larger bodies aren't worth holding in memory
+const MAX_CACHED_BODY_LENGTH = 512 * 1024;
+const DEFAULT_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+// Rate limits asking for a longer wait are reported to the caller instead of slept through
+const MAX_RETRY_AFTER_SECONDS = 20;
+// GitHub asks clients to wait a minute after a secondary rate limit without a retry-after header
+const SECONDARY_LIMIT_WAIT_SECONDS = 60;
+const DEFAULT_MAX_PAGES = 10;
+
+const STATUS_BY_CODE: Record<GitHubErrorCode, number> = {
+  auth: 401,
+  forbidden: 403,
+  not_found: 404,
+  validation: 422,
+  rate_limit: 429,
+  network: 502,
+  server: 502,
+  bad_request: 400,
+};
+
+export class GitHubError extends Error {
+  readonly code: GitHubErrorCode;
+  // HTTP status GitHub answered with; 0 when it couldn't be reached
+  readonly status: number;
+  // Seconds until the request may succeed (rate limits)
+  readonly retryAfter?: number;
+
+  constructor({ code, status, message, retryAfter }: { code: GitHubErrorCode; status: number; message: string; retryAfter?: number }) {
+    super(message);
+    this.name = 'GitHubError';
+    this.code = code;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface GitHubRequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  // Sent as JSON
+  body?: unknown;
+  accept?: string;
+  // Attempts after the first: rate limits with a short wait always, network and server errors for GET only
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+export interface GitHubResponse<T> {
+  data: T;
+  status: number;
+  // rel="next" URL of the Link header
+  nextUrl: string | null;
+  // Served from the ETag cache after a 304
+  cached: boolean;
+}
+
+interface CacheEntry {
+  etag: string;
+  body: string;
+  json: boolean;
+  nextUrl: string | null;
+}
+
+// Keyed by user, Accept header and URL; Map insertion order doubles as recency order
+const cache = new Map<string, CacheEntry>();
+// Latest limits seen per user and resource
+const rateLimits = new Map<string, GitHubRateLimit>();
+
+// Responses differ per user, so cache and limits are keyed by a hash of the token rather than the token itself
+function userKey(accessToken: string): string {
+  return createHash('sha256').update(accessToken).digest('hex').slice(0, 16);
+}
+
+function cacheGet(key: string): CacheEntry | undefined {
+  const entry = cache.get(key);
+  if (entry) {
+    cache.delete(key);
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+function cacheSet(key: string, entry: CacheEntry): void {
+  cache.delete(key);
+  cache.set(key, entry);
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+// The resource a request counts against; null for /rate_limit, which counts against none
+function resourceOf(url: URL): string | null {
+  if (url.pathname === '/rate_limit') return null;
+  return url.pathname.startsWith('/search/') ? 'search' : 'core';
+}
+
+function rateLimitFrom(headers: Headers): GitHubRateLimit | null {
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return null;
+  return {
+    resource: headers.get('x-ratelimit-resource') || 'core',
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: Number(headers.get('x-ratelimit-used') ?? Number(limit) - Number(remaining)),
+    resetAt: new Date(Number(reset) * 1000).toISOString(),
+  };
+}
+
+function secondsUntil(iso: string): number {
+  return Math.max(0, Math.ceil((Date.parse(iso) - Date.now()) / 1000));
+}
+
+export function nextLink(header: string | null): string | null {
+  const match = header?.split(',').map(part => /<([^>]+)>;\s*rel="next"/.exec(part)).find(Boolean);
+  return match ? match[1] : null;
+}
+
+function codeFromStatus(status: number): GitHubErrorCode {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 422) return 'validation';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'bad_request';
+}
+
+async function errorFrom(res: Response): Promise<GitHubError> {
+  const data = await res.json().catch(() => null);
+  const details = Array.isArray(data?.errors)
+    ? data.errors.map((e: { message?: string; field?: string; code?: string }) => e.message || `${e.field} ${e.code}`).join(', ')
+    : '';
+  const message = `GitHub API error ${res.status}: ${data?.message || res.statusText}${details ? ` (${details})` : ''}`;
+
+  // Primary limits answer 403/429 with no remaining quota; secondary limits with retry-after or a message saying so
+  const limit = rateLimitFrom(res.headers);
+  const retryAfterHeader = Number(res.headers.get('retry-after'));
+  const rateLimited = (res.status === 403 || res.status === 429)
+    && (limit?.remaining === 0 || retryAfterHeader > 0 || /rate limit/i.test(data?.message ?? ''));
+  if (!rateLimited) {
+    return new GitHubError({ code: codeFromStatus(res.status), status: res.status, message });
+  }
+  const retryAfter = retryAfterHeader > 0
+    ? retryAfterHeader
+    : limit?.remaining === 0 ? secondsUntil(limit.resetAt) : SECONDARY_LIMIT_WAIT_SECONDS;
+  return new GitHubError({ code: 'rate_limit', status: res.status, message, retryAfter });
+}
+
+function backoffDelay(attempt: number): number {
+  const ceiling = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function parseBody<T>(body: string, json: boolean): T {
+  if (!json) return body as T;
+  return (body ? JSON.parse(body) : null) as T;
+}
+
+/**
+ * Send a request to the GitHub API. Takes a path or an absolute api.github.com URL, such as a
+ * Link header's next URL. GET requests are conditional on the cached ETag, so repeated
+ * reads of unchanged data don't count against the rate limit.
+ */
+export async function githubRequest<T>(accessToken: string, path: string, options: GitHubRequestOptions = {}): Promise<GitHubResponse<T>> {
+  const { method = 'GET', body, accept = DEFAULT_ACCEPT, retries = DEFAULT_RETRIES, signal } = options;
+  const url = new URL(path, GITHUB_API_URL);
+  if (url.origin !== GITHUB_API_URL) {
+    throw new GitHubError({ code: 'bad_request', status: 0, message: `Not a GitHub API URL: ${path}` });
+  }
+  const user = userKey(accessToken);
+  const resource = resourceOf(url);
+  const cacheKey = method === 'GET' ? `${user} ${accept} ${url}` : null;
+
+  for (let attempt = 0; ; attempt++) {
+    // Don't spend a request GitHub is known to refuse
+    const known = resource ? rateLimits.get(`${user} ${resource}`) : undefined;
+    if (known && known.remaining === 0 && secondsUntil(known.resetAt) > 0) {
+      throw new GitHubError({
+        code: 'rate_limit',
+        status: 403,
+        message: `GitHub API ${resource} rate limit exhausted until ${known.resetAt}`,
+        retryAfter: secondsUntil(known.resetAt),
+      });
+    }
+
+    const cached = cacheKey ? cacheGet(cacheKey) : undefined;
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: accept,
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...(cached ? { 'If-None-Match': cached.etag } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        cache: 'no-store',
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const failure = new GitHubError({
+        code: 'network',
+        status: 0,
+        message: `GitHub API request failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      if (method !== 'GET' || attempt >= retries) throw failure;
+      const delay = backoffDelay(attempt);
+      logger.warn(`GitHub ${method} ${url.pathname} failed (network), retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+      continue;
+    }
+
+    const limit = rateLimitFrom(res.headers);
+    if (limit) rateLimits.set(`${user} ${limit.resource}`, limit);
+
+    if (res.status === 304 && cached) {
+      return { data: parseBody<T>(cached.body, cached.json), status: 200, nextUrl: cached.nextUrl, cached: true };
+    }
+    if (res.ok) {
+      const text = await res.text();
+      // Raw media types (README contents) are labelled +json too but are plain text
+      const json = !accept.includes('.raw') && (res.headers.get('content-type')?.includes('json') ?? false);
+      const nextUrl = nextLink(res.headers.get('link'));
+      const etag = res.headers.get('etag');
+      if (cacheKey && etag && text.length <= MAX_CACHED_BODY_LENGTH) {
+        cacheSet(cacheKey, { etag, body: text, json, nextUrl });
+      }
+      return { data: parseBody<T>(text, json), status: res.status, nextUrl, cached: false };
+    }
+
+    const error = await errorFrom(res);
+    const retryable = error.code === 'rate_limit'
+      ? (error.retryAfter ?? Infinity) <= MAX_RETRY_AFTER_SECONDS
+      : error.code === 'server' && method === 'GET';
+    if (!retryable || attempt >= retries) throw error;
+    const delay = error.retryAfter !== undefined ? error.retryAfter * 1000 : backoffDelay(attempt);
+    logger.warn(`GitHub ${method} ${url.pathname} failed (${error.status}), retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+    await sleep(delay, signal);
+  }
+}
+
+export async function githubGet<T>(accessToken: string, path: string, options: Omit<GitHubRequestOptions, 'method' | 'body'> = {}): Promise<T> {
+  return (await githubRequest<T>(accessToken, path, options)).data;
+}
+
+/**
+ * Every item of a listing, following Link headers up to maxPages pages. Search
+ * responses are unwrapped to their items.
+ */
+export async function githubPaginate<T>(
+  accessToken: string,
+  path: string,
+  { maxPages = DEFAULT_MAX_PAGES, ...options }: Omit<GitHubRequestOptions, 'method' | 'body'> & { maxPages?: number } = {}
+): Promise<T[]> {
+  const first = new URL(path, GITHUB_API_URL);
+  if (!first.searchParams.has('per_page')) first.searchParams.set('per_page', '100');
+
+  const items: T[] = [];
+  let next: string | null = first.toString();
+  for (let page = 0; next && page < maxPages; page++) {
+    const res: GitHubResponse<T[] | { items: T[] }> = await githubRequest(accessToken, next, options);
+    items.push(...(Array.isArray(res.data) ? res.data : res.data.items));
+    next = res.nextUrl;
+  }
+  if (next) {
+    logger.warn(`Stopped paginating ${first.pathname} after ${maxPages} pages`);
+  }
+  return items;
+}
+
+/**
+ * Current quota of the user. /rate_limit itself doesn't count against any limit.
+ */
+export async function githubQuota(accessToken: string): Promise<GitHubQuota> {
+  const { resources } = await githubGet<{ resources: Record<string, { limit: number; remaining: number; used: number; reset: number }> }>(
+    accessToken,
+    '/rate_limit'
+  );
+  const user = userKey(accessToken);
+  const toLimit = (resource: string): GitHubRateLimit | null => {
+    const value = resources[resource];
+    if (!value) return null;
+    const limit = {
+      resource,
+      limit: value.limit,
+      remaining: value.remaining,
+      used: value.used,
+      resetAt: new Date(value.reset * 1000).toISOString(),
+    };
+    rateLimits.set(`${user} ${resource}`, limit);
+    return limit;
+  };
+  return { core: toLimit('core'), search: toLimit('search') };
+}
+
+/**
+ * Status and JSON body for a route to answer a failed GitHub call with.
+ */
+export function githubFailure(error: unknown): { status: number; body: { error: string; code?: GitHubErrorCode; retryAfter?: number } } {
+  if (!(error instanceof GitHubError)) {
+    return { status: 500, body: { error: error instanceof Error ? error.message : 'Unknown error' } };
+  }
+  return {
+    status: STATUS_BY_CODE[error.code],
+    body: {
+      error: error.message,
+      code: error.code,
+      ...(error.retryAfter !== undefined ? { retryAfter: error.retryAfter } : {}),
+    },
+  };
+}
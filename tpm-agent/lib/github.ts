@@ -0,0 +1,36 @@
+// GitHub API types shared by the server client (lib/github-client.ts) and the UI
+
+export type GitHubErrorCode =
+  | 'auth'
+  | 'forbidden'
+  | 'not_found'
+  | 'validation'
+  | 'rate_limit'
+  | 'network'
+  | 'server'
+  | 'bad_request';
+
+export interface GitHubRateLimit {
+  // "core", "search", ...
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  // When the window resets, ISO timestamp
+  resetAt: string;
+}
+
+// Remaining quota of the signed-in user; null for resources GitHub didn't report
+export interface GitHubQuota {
+  core: GitHubRateLimit | null;
+  search: GitHubRateLimit | null;
+}
+
+export async function fetchGitHubQuota(): Promise<GitHubQuota> {
+  const res = await fetch('/api/github/rate-limit', { cache: 'no-store' });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Failed to fetch GitHub rate limit (${res.status}): ${text}`);
+  }
+  return res.json();
+}
@@ -0,0 +1,174 @@
+// Agent-drafted issues: the JSON schema requested from the model, the prompt, and the client for /api/issues/draft
+import type { ResponseFormatTextJSONSchemaConfig } from 'openai/resources/responses/responses';
+import type { IssueFormValues, IssueTemplate } from './issue-templates';
+import { isRecord } from './util';
+
+export interface IssueDraftRequest {
+  owner: string;
+  repo: string;
+  // One-line description of the issue from the user
+  description: string;
+  // Template the draft should follow; null for a blank issue
+  template: IssueTemplate | null;
+}
+
+export interface IssueDraftSuggestion {
+  title: string;
+  // Markdown body; empty when the template is an issue form
+  body: string;
+  acceptanceCriteria: string[];
+  // Names from the repository's label set
+  labels: string[];
+  // Answers to the issue form's fields
+  fields: IssueFormValues;
+}
+
+// Repository label offered to the model
+export interface LabelChoice {
+  name: string;
+  description: string | null;
+}
+
+export const MAX_ISSUE_DESCRIPTION_LENGTH = 2000;
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+/**
+ * Response format that makes the model answer with an issue draft.
+ */
+export const ISSUE_DRAFT_RESPONSE_FORMAT: ResponseFormatTextJSONSchemaConfig = {
+  type: 'json_schema',
+  name: 'issue_draft',
+  description: 'GitHub issue drafted from a short description',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['title', 'body', 'acceptanceCriteria', 'labels', 'fields'],
+    properties: {
+      title: { type: 'string', description: 'Concise issue title, including the template title prefix if there is one' },
+      body: { type: 'string', description: 'Markdown body following the template; empty when answering an issue form' },
+      acceptanceCriteria: { ...stringArray, description: 'Specific, testable requirements' },
+      labels: { ...stringArray, description: 'Names of existing repository labels that fit the issue' },
+      fields: {
+        type: 'array',
+        description: 'Answers to the issue form fields; empty for markdown templates',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['id', 'value'],
+          properties: {
+            id: { type: 'string' },
+            value: { type: 'string', description: 'Answer text; for checkboxes and multi-select dropdowns, the chosen options one per line' },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Instructions for drafting an issue in the repository with its label set.
+ */
+export function issueDraftInstructions(repository: string, labels: LabelChoice[]): string {
+  const labelList = labels.length
+    ? labels.map(l => `- ${l.name}${l.description ? `: ${l.description}` : ''}`).join('\n')
+    : '(the repository has no labels)';
+  return [
+    `You draft GitHub issues for the repository ${repository}.`,
+    'Turn the user\'s short description into a clear, actionable issue: a specific title, a body that explains the problem or goal and its context, and acceptance criteria a reviewer can check.',
+    'Do not invent facts such as versions, stack traces or reproduction steps the description does not give; leave those parts for the author to fill in.',
+    'Only suggest labels from this list, and only those that clearly apply:',
+    labelList,
+  ].join('\n\n');
+}
+
+/**
+ * The user's description and the template to follow, as the model input.
+ */
+export function issueDraftInput(description: string, template: IssueTemplate | null): string {
+  const parts = [`Issue description: ${description}`];
+  if (!template) {
+    parts.push('Write the body as Markdown with the sections that fit the issue; leave fields empty.');
+  } else if (template.kind === 'markdown') {
+    parts.push(
+      `Follow the "${template.name}" template${template.title ? `; start the title with "${template.title}"` : ''}. Keep its headings and fill in each section; leave fields empty.`,
+      `Template:\n\n${template.body}`
+    );
+  } else {
+    const fields = template.fields.filter(f => f.type !== 'markdown').map(f => [
+      `- id: ${f.id} (${f.type}${f.required ? ', required' : ''}) ${f.label}`,
+      f.description ? `  ${f.description}` : '',
+      f.options.length ? `  Options: ${f.options.map(o => f.requiredOptions.includes(o) ? `${o} (required)` : o).join(' | ')}` : '',
+    ].filter(Boolean).join('\n'));
+    parts.push(
+      `Answer the "${template.name}" issue form${template.title ? `; start the title with "${template.title}"` : ''}. Give one entry in fields per form field, leave body empty, and choose dropdown and checkbox answers from their options.`,
+      `Form fields:\n${fields.join('\n')}`
+    );
+  }
+  return parts.join('\n\n');
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Parse the model's JSON answer. Labels outside the repository's set and answers to fields
+ * the template doesn't have are dropped; null when the answer isn't a draft.
+ */
+export function parseIssueDraft(text: string, labels: string[], template: IssueTemplate | null): IssueDraftSuggestion | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value) || typeof value.title !== 'string') return null;
+
+  const byName = new Map(labels.map(label => [label.toLowerCase(), label]));
+  const fieldsById = new Map((template?.fields ?? []).filter(f => f.type !== 'markdown').map(f => [f.id, f]));
+  const fields: IssueFormValues = {};
+  for (const answer of Array.isArray(value.fields) ? value.fields : []) {
+    if (!isRecord(answer) || typeof answer.id !== 'string' || typeof answer.value !== 'string') continue;
+    const field = fieldsById.get(answer.id);
+    if (!field) continue;
+    if (field.type === 'checkboxes' || (field.type === 'dropdown' && field.multiple)) {
+      fields[field.id] = answer.value.split('\n').map(v => v.trim()).filter(v => field.options.includes(v));
+    } else if (field.type === 'dropdown') {
+      fields[field.id] = field.options.includes(answer.value.trim()) ? answer.value.trim() : '';
+    } else {
+      fields[field.id] = answer.value.trim();
+    }
+  }
+
+  return {
+    title: value.title.trim(),
+    body: typeof value.body === 'string' ? value.body.trim() : '',
+    acceptanceCriteria: strings(value.acceptanceCriteria),
+    labels: [...new Set(strings(value.labels).flatMap(label => byName.get(label.toLowerCase()) ?? []))],
+    fields,
+  };
+}
+
+/**
+ * Body with the acceptance criteria appended as a checklist, unless the body already has that section.
+ */
+export function composeIssueBody(body: string, acceptanceCriteria: string[]): string {
+  const criteria = acceptanceCriteria.map(c => c.trim()).filter(Boolean);
+  if (criteria.length === 0 || /^#{1,6}\s*acceptance criteria\s*$/im.test(body)) return body.trim();
+  return [body.trim(), `## Acceptance Criteria\n\n${criteria.map(c => `- [ ] ${c}`).join('\n')}`].filter(Boolean).join('\n\n');
+}
+
+export async function draftIssue(request: IssueDraftRequest): Promise<IssueDraftSuggestion> {
+  const res = await fetch('/api/issues/draft', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
@@ -0,0 +1,213 @@
+// A single issue with its timeline, the edits the detail pane makes, and the client for /api/issues/[number]
+import type { Issue } from './issues-client';
+
+interface GitHubUser {
+  login: string;
+  avatar_url: string;
+}
+
+// Issue or pull request referenced from another one
+export interface TimelineSource {
+  number: number;
+  title: string;
+  html_url: string;
+  state: string;
+  pull_request?: { html_url: string; merged_at?: string | null };
+  repository?: { full_name: string };
+}
+
+// Timeline entry as GitHub returns it; only the fields of the events the pane shows
+export interface TimelineEvent {
+  id?: number;
+  event: string;
+  actor?: GitHubUser | null;
+  created_at?: string;
+  // commented
+  user?: GitHubUser;
+  body?: string;
+  html_url?: string;
+  // labeled, unlabeled
+  label?: { name: string; color: string };
+  // assigned, unassigned
+  assignee?: GitHubUser;
+  // milestoned, demilestoned
+  milestone?: { title: string };
+  // renamed
+  rename?: { from: string; to: string };
+  // cross-referenced
+  source?: { issue?: TimelineSource };
+  // closed, referenced
+  commit_id?: string | null;
+  state_reason?: string | null;
+}
+
+export const TIMELINE_EVENTS = [
+  'commented',
+  'labeled',
+  'unlabeled',
+  'assigned',
+  'unassigned',
+  'milestoned',
+  'demilestoned',
+  'renamed',
+  'closed',
+  'reopened',
+  'cross-referenced',
+  'referenced',
+] as const;
+
+export interface IssueDetail {
+  issue: Issue;
+  // Oldest first; comments are the "commented" events
+  timeline: TimelineEvent[];
+}
+
+// What labels, assignees and milestones can be set on the repository's issues
+export interface IssueOptions {
+  labels: Array<{ name: string; color: string }>;
+  assignees: GitHubUser[];
+  // Open milestones
+  milestones: Array<{ number: number; title: string }>;
+}
+
+// An issue handed to Chat: a short label for the composer and the prompt describing it
+export interface IssueContext {
+  label: string;
+  prompt: string;
+}
+
+export type IssueStateReason = 'completed' | 'not_planned' | 'reopened';
+
+export interface IssueUpdate {
+  labels?: string[];
+  assignees?: string[];
+  // Milestone number; null clears it
+  milestone?: number | null;
+  state?: 'open' | 'closed';
+  stateReason?: IssueStateReason;
+}
+
+export function isComment(event: TimelineEvent): boolean {
+  return event.event === 'commented';
+}
+
+// Pull requests that mention the issue, each once, latest reference last
+export function linkedPullRequests(timeline: TimelineEvent[]): TimelineSource[] {
+  const found = new Map<string, TimelineSource>();
+  for (const event of timeline) {
+    const source = event.source?.issue;
+    if (event.event === 'cross-referenced' && source?.pull_request) {
+      found.set(source.html_url, source);
+    }
+  }
+  return [...found.values()];
+}
+
+function referenceOf(source: TimelineSource): string {
+  return `${source.repository?.full_name ?? ''}#${source.number}`;
+}
+
+/**
+ * One-line description of a non-comment timeline event, without the actor.
+ */
+export function describeTimelineEvent(event: TimelineEvent): string {
+  switch (event.event) {
+    case 'labeled':
+      return `added the ${event.label?.name} label`;
+    case 'unlabeled':
+      return `removed the ${event.label?.name} label`;
+    case 'assigned':
+      return event.assignee?.login === event.actor?.login ? 'self-assigned this' : `assigned ${event.assignee?.login}`;
+    case 'unassigned':
+      return `unassigned ${event.assignee?.login}`;
+    case 'milestoned':
+      return `added this to the ${event.milestone?.title} milestone`;
+    case 'demilestoned':
+      return `removed this from the ${event.milestone?.title} milestone`;
+    case 'renamed':
+      return `changed the title from "${event.rename?.from}" to "${event.rename?.to}"`;
+    case 'closed':
+      return event.state_reason === 'not_planned' ? 'closed this as not planned' : 'closed this as completed';
+    case 'reopened':
+      return 'reopened this';
+    case 'cross-referenced': {
+      const source = event.source?.issue;
+      if (!source) return 'mentioned this';
+      return `mentioned this in ${source.pull_request ? 'pull request' : 'issue'} ${referenceOf(source)} ${source.title}`;
+    }
+    case 'referenced':
+      return `referenced this in commit ${event.commit_id?.slice(0, 7) ?? ''}`;
+    default:
+      return event.event;
+  }
+}
+
+// Comment bodies past this length are cut when the issue is handed to the agent
+const MAX_CONTEXT_COMMENT_CHARS = 2000;
+const MAX_CONTEXT_COMMENTS = 20;
+
+/**
+ * Markdown summary of the issue, its latest comments and linked pull requests,
+ * sent ahead of the user's question when they ask the agent about it.
+ */
+export function issueContextPrompt(repository: string, { issue, timeline }: IssueDetail): string {
+  const clip = (text: string) => text.length > MAX_CONTEXT_COMMENT_CHARS ? `${text.slice(0, MAX_CONTEXT_COMMENT_CHARS)}…` : text;
+  const comments = timeline.filter(isComment);
+  const pullRequests = linkedPullRequests(timeline);
+  const lines = [
+    `Context: GitHub ${issue.pull_request ? 'pull request' : 'issue'} ${repository}#${issue.number} (${issue.html_url})`,
+    '',
+    `Title: ${issue.title}`,
+    `State: ${issue.state}`,
+    `Author: ${issue.user.login}`,
+    `Labels: ${issue.labels.map(l => l.name).join(', ') || 'none'}`,
+    `Assignees: ${issue.assignees?.map(a => a.login).join(', ') || 'none'}`,
+    `Milestone: ${issue.milestone?.title ?? 'none'}`,
+  ];
+  if (pullRequests.length > 0) {
+    lines.push(`Linked pull requests: ${pullRequests.map(pr => `${referenceOf(pr)} ${pr.title} (${pr.pull_request?.merged_at ? 'merged' : pr.state})`).join('; ')}`);
+  }
+  lines.push('', '## Description', '', issue.body?.trim() ? clip(issue.body.trim()) : '_No description provided._');
+  if (comments.length > 0) {
+    const shown = comments.slice(-MAX_CONTEXT_COMMENTS);
+    lines.push('', `## Comments${shown.length < comments.length ? ` (latest ${shown.length} of ${comments.length})` : ''}`);
+    for (const comment of shown) {
+      lines.push('', `**${comment.user?.login ?? 'unknown'}** on ${comment.created_at?.slice(0, 10) ?? ''}:`, '', clip(comment.body?.trim() ?? ''));
+    }
+  }
+  return lines.join('\n');
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    cache: 'no-store',
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+function issueUrl(owner: string, repo: string, number: number, suffix = ''): string {
+  return `/api/issues/${number}${suffix}?${new URLSearchParams({ owner, repo })}`;
+}
+
+export function fetchIssueDetail(owner: string, repo: string, number: number): Promise<IssueDetail> {
+  return request(issueUrl(owner, repo, number));
+}
+
+export function fetchIssueOptions(owner: string, repo: string): Promise<IssueOptions> {
+  return request(`/api/issues/options?${new URLSearchParams({ owner, repo })}`);
+}
+
+export function updateIssue(owner: string, repo: string, number: number, update: IssueUpdate): Promise<Issue> {
+  return request(issueUrl(owner, repo, number), { method: 'PATCH', body: JSON.stringify(update) });
+}
+
+// Returns the new comment as a timeline entry
+export function addIssueComment(owner: string, repo: string, number: number, body: string): Promise<TimelineEvent> {
+  return request(issueUrl(owner, repo, number, '/comments'), { method: 'POST', body: JSON.stringify({ body }) });
+}
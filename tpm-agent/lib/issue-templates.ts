@@ -0,0 +1,179 @@
+// Issue templates from a repository's .github/ISSUE_TEMPLATE: markdown templates and YAML issue forms
+import { parse as parseYaml } from 'yaml';
+import { parseFrontMatter, parseList } from './front-matter';
+
+export type IssueFormFieldType = 'markdown' | 'textarea' | 'input' | 'dropdown' | 'checkboxes';
+
+export interface IssueFormField {
+  type: IssueFormFieldType;
+  // From the form, or generated for fields without one
+  id: string;
+  label: string;
+  description: string;
+  placeholder: string;
+  // Default value; the text itself for markdown fields
+  value: string;
+  // Dropdown choices or checkbox labels
+  options: string[];
+  // Checkbox labels that must be ticked; GitHub marks these on the option, not the field
+  requiredOptions: string[];
+  // Dropdowns that accept several choices
+  multiple: boolean;
+  required: boolean;
+  // Language a textarea is rendered as a code block in
+  render: string | null;
+}
+
+export interface IssueTemplate {
+  // File name within .github/ISSUE_TEMPLATE
+  id: string;
+  kind: 'markdown' | 'form';
+  name: string;
+  about: string;
+  // Title prefill, e.g. "[Bug]: "
+  title: string;
+  labels: string[];
+  assignees: string[];
+  // Markdown templates only
+  body: string;
+  // Issue forms only
+  fields: IssueFormField[];
+}
+
+// Values of an issue form by field ID; checkboxes and multi-select dropdowns hold the chosen options
+export type IssueFormValues = Record<string, string | string[]>;
+
+const FIELD_TYPES: IssueFormFieldType[] = ['markdown', 'textarea', 'input', 'dropdown', 'checkboxes'];
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// Forms are read with the failsafe schema, so option labels such as 1.0 keep their text; flags arrive as text too
+function flag(value: unknown): boolean {
+  return text(value) === 'true';
+}
+
+// Lists may be written as YAML sequences or as comma-separated strings
+function list(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(text) : text(value).split(',');
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+function parseField(value: unknown, index: number): IssueFormField | null {
+  if (!isMapping(value)) return null;
+  const type = text(value.type) as IssueFormFieldType;
+  if (!FIELD_TYPES.includes(type)) return null;
+  const attributes = isMapping(value.attributes) ? value.attributes : {};
+  const validations = isMapping(value.validations) ? value.validations : {};
+  const optionItems = Array.isArray(attributes.options) ? attributes.options : [];
+  const options = optionItems.map(option => isMapping(option) ? text(option.label) : text(option)).filter(Boolean);
+  const requiredOptions = type === 'checkboxes'
+    ? optionItems.flatMap(option => isMapping(option) && flag(option.required) && text(option.label) ? [text(option.label)] : [])
+    : [];
+  // A dropdown's default is the index of the preselected option
+  const defaultOption = type === 'dropdown' && text(attributes.default) ? options[Number(text(attributes.default))] : undefined;
+  return {
+    type,
+    id: text(value.id) || `field-${index + 1}`,
+    label: text(attributes.label),
+    description: text(attributes.description),
+    placeholder: text(attributes.placeholder),
+    value: defaultOption ?? text(attributes.value),
+    options,
+    requiredOptions,
+    multiple: flag(attributes.multiple),
+    required: flag(validations.required),
+    render: text(attributes.render) || null,
+  };
+}
+
+/**
+ * Parse a template file; null for files that aren't templates (e.g. config.yml) or can't be read.
+ */
+export function parseIssueTemplate(fileName: string, source: string): IssueTemplate | null {
+  if (/\.md$/i.test(fileName)) {
+    const { attributes, body } = parseFrontMatter(source);
+    return {
+      id: fileName,
+      kind: 'markdown',
+      name: attributes.name || fileName.replace(/\.md$/i, ''),
+      about: attributes.about ?? '',
+      title: attributes.title ?? '',
+      labels: parseList(attributes.labels),
+      assignees: parseList(attributes.assignees),
+      body: body.trim(),
+      fields: [],
+    };
+  }
+
+  if (!/\.ya?ml$/i.test(fileName) || /^config\.ya?ml$/i.test(fileName)) return null;
+  let form: unknown;
+  try {
+    form = parseYaml(source, { schema: 'failsafe' });
+  } catch {
+    return null;
+  }
+  if (!isMapping(form) || !Array.isArray(form.body)) return null;
+  return {
+    id: fileName,
+    kind: 'form',
+    name: text(form.name) || fileName.replace(/\.ya?ml$/i, ''),
+    about: text(form.description),
+    title: text(form.title),
+    labels: list(form.labels),
+    assignees: list(form.assignees),
+    body: '',
+    fields: form.body.map(parseField).filter((field): field is IssueFormField => field !== null),
+  };
+}
+
+export function initialFormValues(fields: IssueFormField[]): IssueFormValues {
+  return Object.fromEntries(fields.filter(f => f.type !== 'markdown').map(field => [
+    field.id,
+    field.type === 'checkboxes' || (field.type === 'dropdown' && field.multiple) ? (field.value ? [field.value] : []) : field.value,
+  ]));
+}
+
+// Labels of required fields left empty
+export function missingRequiredFields(fields: IssueFormField[], values: IssueFormValues): string[] {
+  return fields.filter(field => {
+    if (field.type === 'markdown') return false;
+    const value = values[field.id];
+    // Checkboxes are required option by option: every required option must be ticked
+    if (field.requiredOptions.some(option => !(Array.isArray(value) && value.includes(option)))) return true;
+    if (!field.required) return false;
+    return Array.isArray(value) ? value.length === 0 : !value?.trim();
+  }).map(field => field.label);
+}
+
+/**
+ * Issue body in the layout GitHub gives issues submitted through a form: one "###" section per field.
+ */
+export function renderFormBody(fields: IssueFormField[], values: IssueFormValues): string {
+  return fields.filter(field => field.type !== 'markdown').map(field => {
+    const value = values[field.id];
+    let content: string;
+    if (field.type === 'checkboxes') {
+      const checked = Array.isArray(value) ? value : [];
+      content = field.options.map(option => `- [${checked.includes(option) ? 'x' : ' '}] ${option}`).join('\n');
+    } else {
+      const answer = (Array.isArray(value) ? value.join(', ') : value ?? '').trim();
+      content = !answer ? '_No response_' : field.render ? `\`\`\`${field.render}\n${answer}\n\`\`\`` : answer;
+    }
+    return `### ${field.label}\n\n${content}`;
+  }).join('\n\n');
+}
+
+export async function fetchIssueTemplates(owner: string, repo: string): Promise<IssueTemplate[]> {
+  const res = await fetch(`/api/issues/templates?${new URLSearchParams({ owner, repo })}`, { cache: 'no-store' });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Failed to fetch issue templates (${res.status}): ${text}`);
+  }
+  return res.json();
+}
@@ -12,12 +12,92 @@ export interface Issue {
     avatar_url: string;
   };
   labels: Array<{ name: string; color: string }>;
+  milestone: { number: number; title: string } | null;
+  assignees?: Array<{ login: string; avatar_url: string }>;
+  comments?: number;
+  // Set on pull requests, which GitHub lists alongside issues
+  pull_request?: { html_url: string; merged_at?: string | null };
+  // owner/name, set when issues of several repositories are listed together
+  repository?: string;
+}
+
+export const ISSUE_STATES = ['open', 'closed', 'all'] as const;
+export const ISSUE_SORTS = ['created', 'updated', 'comments'] as const;
+export const DEFAULT_ISSUES_PER_PAGE = 50;
+export const MAX_ISSUES_PER_PAGE = 100;
+
+export type IssueState = typeof ISSUE_STATES[number];
+export type IssueSort = typeof ISSUE_SORTS[number];
+export type IssueKind = 'issues' | 'pulls';
+
+export interface IssueFilters {
+  // Defaults to all
+  state?: IssueState;
+  // Issues or pull requests only; both when unset
+  kind?: IssueKind;
+  labels?: string[];
+  // Login, "none" for unassigned or "*" for any assignee
+  assignee?: string;
+  // Milestone title, "none" or "*"
+  milestone?: string;
+  author?: string;
+  sort?: IssueSort;
+  direction?: 'asc' | 'desc';
+  // Free-text search through GitHub's search API
+  q?: string;
+  perPage?: number;
+}
+
+export interface NewIssue {
+  title: string;
+  body: string;
+  labels: string[];
+  assignees: string[];
+  // Milestone number
+  milestone?: number | null;
+}
+
+export interface IssuePage {
+  items: Issue[];
+  // Pass back to fetchIssuePage for the next page; null on the last page
+  nextCursor: string | null;
+  // Number of matches, only known for searches
+  totalCount: number | null;
+}
+
+export function isPullRequest(issue: Issue): boolean {
+  return !!issue.pull_request;
+}
+
+// Orders issues merged from several repositories the way GitHub sorted each of them
+export function compareIssues(sort: IssueSort = 'created', direction: 'asc' | 'desc' = 'desc') {
+  return (a: Issue, b: Issue): number => {
+    const order = sort === 'comments'
+      ? (a.comments ?? 0) - (b.comments ?? 0)
+      : (sort === 'updated' ? a.updated_at.localeCompare(b.updated_at) : a.created_at.localeCompare(b.created_at));
+    return direction === 'asc' ? order : -order;
+  };
+}
+
+function issueQuery(owner: string, repo: string, filters: IssueFilters, cursor?: string | null): URLSearchParams {
+  const query = new URLSearchParams({ owner, repo });
+  if (filters.state) query.set('state', filters.state);
+  if (filters.kind) query.set('kind', filters.kind);
+  if (filters.labels?.length) query.set('labels', filters.labels.join(','));
+  if (filters.assignee) query.set('assignee', filters.assignee);
+  if (filters.milestone) query.set('milestone', filters.milestone);
+  if (filters.author) query.set('author', filters.author);
+  if (filters.sort) query.set('sort', filters.sort);
+  if (filters.direction) query.set('direction', filters.direction);
+  if (filters.q?.trim()) query.set('q', filters.q.trim());
+  if (filters.perPage) query.set('per_page', String(filters.perPage));
+  if (cursor) query.set('cursor', cursor);
+  return query;
 }
 
 // Client-safe helper that calls our Next.js API route
-export async function fetchIssues(owner: string, repo: string): Promise<Issue[]> {
-  const url = `/api/issues?owner=${encodeURIComponent(owner)}&repo=${encodeURIComponent(repo)}`;
-  const res = await fetch(url, { cache: 'no-store' });
+export async function fetchIssuePage(owner: string, repo: string, filters: IssueFilters = {}, cursor?: string | null): Promise<IssuePage> {
+  const res = await fetch(`/api/issues?${issueQuery(owner, repo, filters, cursor)}`, { cache: 'no-store' });
   if (!res.ok) {
     const text = await res.text().catch(() => '');
     throw new Error(`Failed to fetch issues (${res.status}): ${text}`);
@@ -25,3 +105,20 @@ export async function fetchIssues(owner: string, repo: string): Promise<Issue[]>
   return res.json();
 }
 
+// First page only
+export async function fetchIssues(owner: string, repo: string, filters: IssueFilters = {}): Promise<Issue[]> {
+  return (await fetchIssuePage(owner, repo, filters)).items;
+}
+
+export async function createIssue(owner: string, repo: string, issue: NewIssue): Promise<Issue> {
+  const res = await fetch('/api/issues', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ owner, repo, ...issue }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `Failed to create issue (${res.status})`);
+  }
+  return res.json();
+}
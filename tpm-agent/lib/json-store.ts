@@ -0,0 +1,42 @@
+// JSON files under .data/: per-user file names, serialized read-modify-write and atomic writes
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+// Serialize read-modify-write cycles per file so concurrent requests don't drop updates
+const locks = new Map<string, Promise<unknown>>();
+
+export function withFileLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(file) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  locks.set(file, next.catch(() => undefined));
+  return next;
+}
+
+// The user's file in a store directory, named after the user ID with unsafe characters replaced
+export function userFile(dir: string, userId: string, extension = '.json'): string {
+  return join(dir, `${userId.replace(/[^\w-]/g, '_')}${extension}`);
+}
+
+/**
+ * Parse a JSON file; null when it doesn't exist.
+ */
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write the value through a temporary file and a rename, so readers never see a partial file.
+ */
+export async function writeJsonFile(file: string, value: unknown, { pretty = false } = {}): Promise<void> {
+  await mkdir(dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, pretty ? `${JSON.stringify(value, null, 2)}\n` : JSON.stringify(value), 'utf-8');
+  await rename(tmp, file);
+}
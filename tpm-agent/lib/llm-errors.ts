@@ -0,0 +1,75 @@
+// Error taxonomy shared by the responses route and the chat client
+
+export type LLMErrorCode =
+  | 'auth'
+  | 'not_found'
+  | 'rate_limit'
+  | 'content_filter'
+  | 'context_length'
+  | 'network'
+  | 'bad_request'
+  | 'unknown';
+
+export interface LLMErrorInfo {
+  code: LLMErrorCode;
+  message: string;
+  // Whether sending the same request again may succeed
+  retryable: boolean;
+  // Seconds the service asked us to wait (rate limits)
+  retryAfter?: number;
+}
+
+// HTTP status the route answers with for each code, before the stream starts
+export const LLM_ERROR_STATUS: Record<LLMErrorCode, number> = {
+  auth: 401,
+  not_found: 404,
+  rate_limit: 429,
+  content_filter: 400,
+  context_length: 400,
+  network: 503,
+  bad_request: 400,
+  unknown: 500,
+};
+
+/**
+ * What the user can do about each kind of failure.
+ */
+export const LLM_ERROR_GUIDANCE: Record<LLMErrorCode, string> = {
+  auth: 'The AI service rejected our credentials. Check the API key in the server configuration.',
+  not_found: 'The model deployment or endpoint was not found. Check the deployment name and endpoint in the server configuration.',
+  rate_limit: 'The AI service is rate limiting requests. Wait a moment and retry.',
+  content_filter: 'The request or reply was blocked by the content filter. Rephrase the message and try again.',
+  context_length: 'The conversation is too long for the model. Start a new conversation or edit an earlier message to shorten it.',
+  network: 'The AI service could not be reached or had a temporary problem. Retry in a moment.',
+  bad_request: 'The AI service rejected the request.',
+  unknown: 'Something went wrong while talking to the AI service.',
+};
+
+export function isLLMErrorCode(value: unknown): value is LLMErrorCode {
+  return typeof value === 'string' && Object.hasOwn(LLM_ERROR_STATUS, value);
+}
+
+/**
+ * Error thrown by streamResponses for failures the route classified.
+ */
+export class LLMRequestError extends Error {
+  readonly code: LLMErrorCode;
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+
+  constructor({ code, message, retryable, retryAfter }: LLMErrorInfo) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.code = code;
+    this.retryable = retryable;
+    this.retryAfter = retryAfter;
+  }
+
+  /**
+   * Message for the chat: the guidance for the code plus the service's own detail.
+   */
+  get userMessage(): string {
+    const wait = this.code === 'rate_limit' && this.retryAfter ? ` (about ${Math.ceil(this.retryAfter)}s)` : '';
+    return `${LLM_ERROR_GUIDANCE[this.code]}${wait} ${this.message ? `Details: ${this.message}` : ''}`.trim();
+  }
+}
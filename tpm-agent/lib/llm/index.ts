@@ -0,0 +1,84 @@
+// Selects the LLM provider from LLM_PROVIDER (azure | openai | mock); defaults to azure
+import OpenAI, { AzureOpenAI } from 'openai';
+import { logger } from '../logger';
+import { OpenAIResponsesProvider } from './openai-provider';
+import { MockProvider } from './mock-provider';
+import type { LLMProvider, ProviderName } from './types';
+
+export type { ContextUpdate, LLMProvider, LLMRequest, ProviderName } from './types';
+export { MockProvider, type MockScriptStep } from './mock-provider';
+export { classifyLLMError, openStreamWithRetry, withRetry } from './retry';
+
+// withRetry is the only retry layer; the SDK's own retries would multiply its attempts
+const SDK_MAX_RETRIES = 0;
+
+function createAzureProvider(): LLMProvider | null {
+  // 2025-03-01-preview is the min version with responses API support
+  const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2025-03-01-preview';
+  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o';
+  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+  const apiKey = process.env.AZURE_OPENAI_API_KEY;
+
+  // Validate required environment variables
+  if (!endpoint || endpoint.includes('your-resource')) {
+    logger.warn('AZURE_OPENAI_ENDPOINT not properly configured (using placeholder value)');
+    return null;
+  }
+
+  if (!apiKey || apiKey.includes('your-azure-openai-api-key')) {
+    logger.warn('AZURE_OPENAI_API_KEY not properly configured (using placeholder value)');
+    return null;
+  }
+
+  return new OpenAIResponsesProvider(
+    'azure',
+    deployment,
+    new AzureOpenAI({ endpoint, apiKey, deployment, apiVersion, maxRetries: SDK_MAX_RETRIES })
+  );
+}
+
+function createOpenAICompatibleProvider(): LLMProvider | null {
+  // Any server exposing /v1/responses, e.g. api.openai.com or a local llama.cpp/Ollama server
+  const baseURL = process.env.OPENAI_BASE_URL;
+  const model = process.env.OPENAI_MODEL;
+
+  if (!model) {
+    logger.warn('OPENAI_MODEL not configured for the OpenAI-compatible provider');
+    return null;
+  }
+
+  return new OpenAIResponsesProvider(
+    'openai',
+    model,
+    // Local servers usually ignore the key, but the SDK requires one
+    new OpenAI({ baseURL, apiKey: process.env.OPENAI_API_KEY || 'not-needed', maxRetries: SDK_MAX_RETRIES })
+  );
+}
+
+function createProvider(name: ProviderName): LLMProvider | null {
+  switch (name) {
+    case 'azure': return createAzureProvider();
+    case 'openai': return createOpenAICompatibleProvider();
+    case 'mock': return process.env.LLM_MOCK_SCRIPT
+      ? MockProvider.fromFile(process.env.LLM_MOCK_SCRIPT)
+      : new MockProvider();
+  }
+}
+
+let provider: LLMProvider | null | undefined;
+
+/**
+ * The configured provider, or null when its environment variables are missing.
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (provider === undefined) {
+    const requested = process.env.LLM_PROVIDER || 'azure';
+    const name: ProviderName = requested === 'openai' || requested === 'mock' ? requested : 'azure';
+    if (name !== requested) {
+      logger.warn(`Unknown LLM_PROVIDER "${requested}", falling back to azure`);
+    }
+    provider = createProvider(name);
+    logger.info(`LLM provider: ${provider ? `${provider.name} (${provider.model})` : 'not configured'}`);
+  }
+  return provider;
+}
@@ -0,0 +1,222 @@
+import { readFileSync } from 'fs';
+import type {
+  Response,
+  ResponseFunctionToolCall,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseStreamEvent,
+} from 'openai/resources/responses/responses';
+import type { ContextUpdate, LLMProvider, LLMRequest } from './types';
+import { logger } from '../logger';
+
+export interface MockScriptStep {
+  // Case-insensitive regular expression tested against the user message; omitted matches anything
+  match?: string;
+  // Function calls to request before replying
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+  // Text streamed back (after tool outputs arrive, when toolCalls is set)
+  reply: string;
+  // JSON streamed back instead of reply when the request asks for structured output
+  structured?: unknown;
+}
+
+const DEFAULT_SCRIPT: MockScriptStep[] = [
+  {
+    match: '\\broadmap\\b',
+    reply: [
+      '## Phase 1: Foundations',
+      '',
+      '### Task 1.1: Project setup',
+      '**Description**: Scaffold the repository and CI pipeline.',
+      '',
+      '**Acceptance Criteria**:',
+      '- CI runs lint and unit tests on every pull request',
+      '',
+      '**Implementation Prompt**: Set up the project skeleton with linting, formatting and a CI workflow.',
+    ].join('\n'),
+    structured: {
+      title: 'Sample roadmap',
+      summary: 'A minimal roadmap returned by the mock provider.',
+      questions: [],
+      phases: [
+        {
+          id: '1',
+          name: 'Phase 1: Foundations',
+          goal: 'A buildable, tested skeleton.',
+          tasks: [
+            {
+              id: '1.1',
+              title: 'Project setup',
+              description: 'Scaffold the repository and CI pipeline.',
+              acceptanceCriteria: ['CI runs lint and unit tests on every pull request'],
+              implementationPrompt: 'Set up the project skeleton with linting, formatting and a CI workflow.',
+              dependencies: [],
+              parallelizable: false,
+              repository: null,
+            },
+            {
+              id: '1.2',
+              title: 'Contributor docs',
+              description: 'Document how to build, test and release the project.',
+              acceptanceCriteria: ['README lists the build and test commands'],
+              implementationPrompt: 'Write a CONTRIBUTING guide covering local setup, tests and releases.',
+              dependencies: ['1.1'],
+              parallelizable: true,
+              repository: null,
+            },
+          ],
+        },
+      ],
+    },
+  },
+];
+
+interface StoredResponse {
+  output: ResponseOutputItem[];
+  step?: MockScriptStep;
+}
+
+// The mock only fills in the fields the chat pipeline reads
+function asEvent(event: Record<string, unknown>): ResponseStreamEvent {
+  return event as unknown as ResponseStreamEvent;
+}
+
+function asResponse(id: string, status: string, output: ResponseOutputItem[], usage?: Record<string, unknown>): Response {
+  return { id, object: 'response', status, output, model: 'mock', usage } as unknown as Response;
+}
+
+// Rough token count (about four characters per token) so usage accounting can be exercised offline
+function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+function userText(input: ResponseInputItem[]): string {
+  for (let i = input.length - 1; i >= 0; i--) {
+    const item = input[i];
+    if ('role' in item && item.role === 'user') {
+      if (typeof item.content === 'string') return item.content;
+      return item.content
+        .map(part => part.type === 'input_text' ? part.text : '')
+        .join('\n');
+    }
+  }
+  return '';
+}
+
+/**
+ * Deterministic offline provider that replays a script instead of calling a model.
+ * Load a custom script with LLM_MOCK_SCRIPT=path/to/script.json (an array of MockScriptStep).
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly model = 'mock';
+
+  private readonly responses = new Map<string, StoredResponse>();
+  private counter = 0;
+
+  constructor(private readonly script: MockScriptStep[] = DEFAULT_SCRIPT) {}
+
+  static fromFile(path: string): MockProvider {
+    try {
+      return new MockProvider(JSON.parse(readFileSync(path, 'utf-8')) as MockScriptStep[]);
+    } catch (error) {
+      logger.error(`Failed to load mock script from ${path}, using default script:`, error);
+      return new MockProvider();
+    }
+  }
+
+  private nextId(prefix: string): string {
+    this.counter += 1;
+    return `${prefix}-${this.counter}`;
+  }
+
+  private pickStep(message: string): MockScriptStep {
+    const step = this.script.find(s => !s.match || new RegExp(s.match, 'i').test(message));
+    return step ?? { reply: `Mock response to: ${message}` };
+  }
+
+  async *streamResponse({ input, previousResponseId, text, signal }: LLMRequest): AsyncGenerator<ResponseStreamEvent> {
+    const id = this.nextId('mock-resp');
+    let sequence = 0;
+    const seq = () => sequence++;
+
+    yield asEvent({ type: 'response.created', sequence_number: seq(), response: asResponse(id, 'in_progress', []) });
+
+    const toolOutputs = input.filter(item => 'type' in item && item.type === 'function_call_output');
+    const previous = previousResponseId ? this.responses.get(previousResponseId) : undefined;
+    const step = toolOutputs.length > 0 && previous?.step ? previous.step : this.pickStep(userText(input));
+    const output: ResponseOutputItem[] = [];
+
+    if (toolOutputs.length === 0 && step.toolCalls?.length) {
+      for (const [index, call] of step.toolCalls.entries()) {
+        const item: ResponseFunctionToolCall = {
+          type: 'function_call',
+          id: this.nextId('mock-fc'),
+          call_id: this.nextId('mock-call'),
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+          status: 'completed',
+        };
+        output.push(item);
+        yield asEvent({ type: 'response.output_item.added', sequence_number: seq(), output_index: index, item: { ...item, arguments: '' } });
+        yield asEvent({ type: 'response.output_item.done', sequence_number: seq(), output_index: index, item });
+      }
+    } else {
+      const itemId = this.nextId('mock-msg');
+      const reply = text?.format?.type === 'json_schema' && step.structured !== undefined
+        ? JSON.stringify(step.structured, null, 2)
+        : step.reply;
+      for (const word of reply.split(/(?<=\s)/)) {
+        signal?.throwIfAborted();
+        yield asEvent({
+          type: 'response.output_text.delta',
+          sequence_number: seq(),
+          item_id: itemId,
+          output_index: 0,
+          content_index: 0,
+          delta: word,
+        });
+      }
+      output.push({
+        type: 'message',
+        id: itemId,
+        role: 'assistant',
+        status: 'completed',
+        content: [{ type: 'output_text', text: reply, annotations: [] }],
+      });
+    }
+
+    this.responses.set(id, { output, step });
+    const inputTokens = estimateTokens(input);
+    const outputTokens = estimateTokens(output);
+    yield asEvent({
+      type: 'response.completed',
+      sequence_number: seq(),
+      response: asResponse(id, 'completed', output, {
+        input_tokens: inputTokens,
+        input_tokens_details: { cached_tokens: 0 },
+        output_tokens: outputTokens,
+        output_tokens_details: { reasoning_tokens: 0 },
+        total_tokens: inputTokens + outputTokens,
+      }),
+    });
+  }
+
+  async updateContext(input: ResponseInputItem[]): Promise<ContextUpdate> {
+    const responseId = this.nextId('mock-resp');
+    this.responses.set(responseId, { output: [] });
+    const inputTokens = estimateTokens(input);
+    return {
+      responseId,
+      usage: { inputTokens, cachedTokens: 0, outputTokens: 0, reasoningTokens: 0, totalTokens: inputTokens },
+    };
+  }
+
+  async getOutputItems(responseId: string): Promise<ResponseOutputItem[]> {
+    const stored = this.responses.get(responseId);
+    if (!stored) {
+      throw new Error(`404 Mock response ${responseId} not found`);
+    }
+    return stored.output;
+  }
+}
@@ -0,0 +1,42 @@
+import type OpenAI from 'openai';
+import type { ResponseInputItem, ResponseOutputItem, ResponseStreamEvent } from 'openai/resources/responses/responses';
+import { usageFromResponse } from '../usage';
+import type { ContextUpdate, LLMProvider, LLMRequest, ProviderName } from './types';
+
+/**
+ * Provider backed by any client that speaks the OpenAI Responses API:
+ * Azure OpenAI, api.openai.com, or a local OpenAI-compatible server.
+ */
+export class OpenAIResponsesProvider implements LLMProvider {
+  constructor(
+    readonly name: ProviderName,
+    readonly model: string,
+    private readonly client: OpenAI
+  ) {}
+
+  streamResponse({ input, instructions, tools, previousResponseId, text, signal }: LLMRequest): AsyncIterable<ResponseStreamEvent> {
+    return this.client.responses.stream({
+      model: this.model,
+      input,
+      instructions,
+      ...(tools?.length ? { tools } : {}),
+      ...(previousResponseId ? { previous_response_id: previousResponseId } : {}),
+      ...(text ? { text } : {}),
+    }, { signal });
+  }
+
+  async updateContext(input: ResponseInputItem[], previousResponseId?: string): Promise<ContextUpdate> {
+    const response = await this.client.responses.create({
+      model: this.model,
+      input,
+      stream: false,
+      ...(previousResponseId ? { previous_response_id: previousResponseId } : {}),
+    });
+    return { responseId: response.id, usage: usageFromResponse(response.usage) };
+  }
+
+  async getOutputItems(responseId: string): Promise<ResponseOutputItem[]> {
+    const response = await this.client.responses.retrieve(responseId);
+    return response.output;
+  }
+}
@@ -0,0 +1,139 @@
+// Classifies provider errors into the shared taxonomy and retries transient failures
+import { APIConnectionError, APIError, APIUserAbortError } from 'openai';
+import { logger } from '../logger';
+import { sleep } from '../util';
+import type { LLMErrorCode, LLMErrorInfo } from '../llm-errors';
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+// Rate limits asking for a longer wait are reported to the user instead of retried
+const MAX_RETRY_AFTER_SECONDS = 20;
+
+function codeFromStatus(status: number): LLMErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limit';
+  if (status === 408 || status >= 500) return 'network';
+  if (status >= 400) return 'bad_request';
+  return 'unknown';
+}
+
+function retryAfterSeconds(headers: Headers | undefined): number | undefined {
+  const ms = Number(headers?.get('retry-after-ms'));
+  if (ms > 0) return ms / 1000;
+  const value = headers?.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+// Content filter and context length surface as 400s (or stream error events) with specific codes
+function refineCode(code: LLMErrorCode, serviceCode: string | null | undefined, message: string): LLMErrorCode {
+  const text = `${serviceCode ?? ''} ${message}`.toLowerCase();
+  if (text.includes('content_filter') || text.includes('content management policy') || text.includes('responsibleaipolicyviolation')) {
+    return 'content_filter';
+  }
+  if (text.includes('context_length_exceeded') || text.includes('maximum context length') || text.includes('too many tokens')) {
+    return 'context_length';
+  }
+  return code;
+}
+
+/**
+ * Map any error thrown by a provider call onto an LLMErrorInfo.
+ */
+export function classifyLLMError(error: unknown): LLMErrorInfo {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof APIConnectionError) {
+    return { code: 'network', message, retryable: true };
+  }
+
+  if (error instanceof APIError && typeof error.status === 'number') {
+    const code = refineCode(codeFromStatus(error.status), error.code, message);
+    const retryAfter = retryAfterSeconds(error.headers);
+    const retryable = code === 'network' || (code === 'rate_limit' && (retryAfter ?? 0) <= MAX_RETRY_AFTER_SECONDS);
+    return { code, message, retryable, ...(retryAfter !== undefined ? { retryAfter } : {}) };
+  }
+
+  // Stream error events and non-SDK failures: errors with a service code, Node network errors, or "<status> ..." messages
+  const serviceCode = typeof (error as { code?: unknown })?.code === 'string' ? (error as { code: string }).code : undefined;
+  if (serviceCode && /^(ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|UND_ERR_)/.test(serviceCode)) {
+    return { code: 'network', message, retryable: true };
+  }
+  if (error instanceof TypeError && message.includes('fetch failed')) {
+    return { code: 'network', message, retryable: true };
+  }
+  const status = message.match(/^(\d{3})\b/);
+  const code = refineCode(status ? codeFromStatus(Number(status[1])) : 'unknown', serviceCode, message);
+  return { code, message, retryable: code === 'network' };
+}
+
+function isAbort(error: unknown, signal?: AbortSignal): boolean {
+  return signal?.aborted === true || error instanceof APIUserAbortError || (error instanceof Error && error.name === 'AbortError');
+}
+
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, retryAfter?: number): number {
+  if (retryAfter !== undefined) return retryAfter * 1000;
+  // Exponential backoff with jitter so parallel clients don't retry in lockstep
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/**
+ * Run fn, retrying retryable failures with jittered exponential backoff.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  { retries = DEFAULT_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS, signal }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (isAbort(error, signal)) throw error;
+      const info = classifyLLMError(error);
+      if (!info.retryable || attempt >= retries) throw error;
+      const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs, info.retryAfter);
+      logger.warn(`LLM request failed (${info.code}), retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms: ${info.message}`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Start a stream and wait for its first event, retrying failures that happen before
+ * anything was received. Once events flow, errors propagate to the consumer.
+ */
+export async function openStreamWithRetry<T>(start: () => AsyncIterable<T>, options: RetryOptions = {}): Promise<AsyncIterable<T>> {
+  const { iterator, first } = await withRetry(async () => {
+    const iterator = start()[Symbol.asyncIterator]();
+    return { iterator, first: await iterator.next() };
+  }, options);
+
+  return (async function* () {
+    // Returning the inner iterator closes the upstream stream when the consumer stops early
+    try {
+      if (first.done) return;
+      yield first.value;
+      while (true) {
+        const next = await iterator.next();
+        if (next.done) return;
+        yield next.value;
+      }
+    } finally {
+      await iterator.return?.();
+    }
+  })();
+}
@@ -0,0 +1,50 @@
+// Provider-neutral surface of the Responses API used by the chat routes
+import type {
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseStreamEvent,
+  ResponseTextConfig,
+  Tool,
+} from 'openai/resources/responses/responses';
+import type { TokenUsage } from '../usage';
+
+export type ProviderName = 'azure' | 'openai' | 'mock';
+
+export interface LLMRequest {
+  input: ResponseInputItem[];
+  instructions?: string;
+  tools?: Tool[];
+  previousResponseId?: string;
+  // Output format, e.g. a JSON schema for structured output
+  text?: ResponseTextConfig;
+  // Aborts the upstream request, e.g. when the user stops the reply
+  signal?: AbortSignal;
+}
+
+export interface ContextUpdate {
+  // ID of the response to chain the next turn to
+  responseId: string;
+  // Billed like any turn: the chained history counts as input
+  usage: TokenUsage | null;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+
+  /**
+   * Stream one model turn. Function calls surface as `response.output_item.done`
+   * events; the caller runs them and starts a new turn with their outputs.
+   */
+  streamResponse(request: LLMRequest): AsyncIterable<ResponseStreamEvent>;
+
+  /**
+   * Append context (e.g. the active repository) to a conversation without streaming.
+   */
+  updateContext(input: ResponseInputItem[], previousResponseId?: string): Promise<ContextUpdate>;
+
+  /**
+   * Output items of an earlier response, used to answer its pending tool calls.
+   */
+  getOutputItems(responseId: string): Promise<ResponseOutputItem[]>;
+}
@@ -0,0 +1,258 @@
+// Server-side O365 function tools exposed to the model via the Responses API
+import type { FunctionTool } from 'openai/resources/responses/responses';
+import { getGraphClient, isO365Enabled } from './microsoft-graph';
+import { logger } from './logger';
+import { isRecord } from './util';
+
+type MeetingType = 'sprint-planning' | 'daily-standup' | 'sprint-review' | 'retrospective' | 'stakeholder-update' | 'general';
+
+const MEETING_TYPES: MeetingType[] = ['sprint-planning', 'daily-standup', 'sprint-review', 'retrospective', 'stakeholder-update', 'general'];
+
+export const O365_TOOL_NAMES = [
+  'sendEmail',
+  'createMeeting',
+  'getAvailability',
+  'createPresentation',
+  'createPlannerTask',
+] as const;
+
+export type O365ToolName = typeof O365_TOOL_NAMES[number];
+
+export const o365FunctionTools: FunctionTool[] = [
+  {
+    type: 'function',
+    name: 'sendEmail',
+    description: 'Send an email to project stakeholders through Microsoft 365. Write a complete subject and body based on the conversation.',
+    strict: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        recipients: {
+          type: 'array',
+          description: 'Email recipients',
+          items: {
+            type: 'object',
+            properties: {
+              address: { type: 'string', description: 'Email address' },
+              name: { type: 'string', description: 'Display name' },
+            },
+            required: ['address'],
+          },
+        },
+        subject: { type: 'string' },
+        body: { type: 'string', description: 'Email body. HTML unless isHtml is false.' },
+        isHtml: { type: 'boolean' },
+        importance: { type: 'string', enum: ['low', 'normal', 'high'] },
+      },
+      required: ['recipients', 'subject', 'body'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'createMeeting',
+    description: 'Schedule a Teams meeting invite (sprint ceremonies, stakeholder updates, checkpoints).',
+    strict: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        subject: { type: 'string' },
+        startTime: { type: 'string', description: 'ISO 8601 start time' },
+        endTime: { type: 'string', description: 'ISO 8601 end time' },
+        attendees: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              email: { type: 'string' },
+              name: { type: 'string' },
+              type: { type: 'string', enum: ['required', 'optional'] },
+            },
+            required: ['email'],
+          },
+        },
+        body: { type: 'string', description: 'Meeting agenda' },
+        meetingType: { type: 'string', enum: MEETING_TYPES },
+      },
+      required: ['subject', 'startTime', 'endTime', 'attendees'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'getAvailability',
+    description: 'Check calendar availability of attendees for a time window before scheduling a meeting.',
+    strict: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        emails: { type: 'array', items: { type: 'string' } },
+        startTime: { type: 'string', description: 'ISO 8601 start time' },
+        endTime: { type: 'string', description: 'ISO 8601 end time' },
+      },
+      required: ['emails', 'startTime', 'endTime'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'createPresentation',
+    description: 'Create a PowerPoint presentation (kickoff, status, review or roadmap deck) with slides written from the conversation.',
+    strict: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        slides: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              content: { type: 'string' },
+            },
+            required: ['title', 'content'],
+          },
+        },
+      },
+      required: ['title', 'slides'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'createPlannerTask',
+    description: 'Create a Microsoft Planner task for high-level project coordination.',
+    strict: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        planId: { type: 'string' },
+        title: { type: 'string' },
+        description: { type: 'string' },
+        assigneeIds: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['planId', 'title'],
+    },
+  },
+];
+
+export function isO365ToolName(name: string): name is O365ToolName {
+  return (O365_TOOL_NAMES as readonly string[]).includes(name);
+}
+
+export function getO365FunctionTools(): FunctionTool[] {
+  return isO365Enabled() ? o365FunctionTools : [];
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = new Date(typeof value === 'string' ? value : NaN);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${field} must be an ISO 8601 date string`);
+  }
+  return date;
+}
+
+async function runTool(name: O365ToolName, args: Record<string, unknown>): Promise<unknown> {
+  const graphClient = getGraphClient();
+
+  switch (name) {
+    case 'sendEmail': {
+      const recipients = Array.isArray(args.recipients) ? args.recipients.filter(isRecord) : [];
+      if (recipients.length === 0 || typeof args.subject !== 'string' || typeof args.body !== 'string') {
+        throw new Error('recipients, subject and body are required');
+      }
+      const importance = args.importance === 'low' || args.importance === 'high' ? args.importance : 'normal';
+      return graphClient.sendEmail(
+        recipients.map(r => ({ address: String(r.address), name: typeof r.name === 'string' ? r.name : undefined })),
+        args.subject,
+        args.body,
+        args.isHtml !== false,
+        importance
+      );
+    }
+
+    case 'createMeeting': {
+      const attendees = Array.isArray(args.attendees) ? args.attendees.filter(isRecord) : [];
+      if (typeof args.subject !== 'string' || attendees.length === 0) {
+        throw new Error('subject and attendees are required');
+      }
+      const startTime = parseDate(args.startTime, 'startTime');
+      const endTime = parseDate(args.endTime, 'endTime');
+      if (startTime >= endTime) {
+        throw new Error('Start time must be before end time');
+      }
+      const meetingType = MEETING_TYPES.find(t => t === args.meetingType) ?? 'general';
+      return graphClient.createMeetingInvite(
+        args.subject,
+        startTime,
+        endTime,
+        attendees.map(a => ({
+          email: String(a.email),
+          name: typeof a.name === 'string' ? a.name : undefined,
+          type: a.type === 'optional' ? 'optional' : 'required',
+        })),
+        typeof args.body === 'string' ? args.body : undefined,
+        meetingType
+      );
+    }
+
+    case 'getAvailability': {
+      const emails = Array.isArray(args.emails) ? args.emails.filter((e): e is string => typeof e === 'string') : [];
+      if (emails.length === 0) {
+        throw new Error('emails are required');
+      }
+      return graphClient.getCalendarAvailability(
+        emails,
+        parseDate(args.startTime, 'startTime'),
+        parseDate(args.endTime, 'endTime')
+      );
+    }
+
+    case 'createPresentation': {
+      const slides = Array.isArray(args.slides) ? args.slides.filter(isRecord) : [];
+      if (typeof args.title !== 'string' || slides.length === 0) {
+        throw new Error('title and slides are required');
+      }
+      const result = await graphClient.createPowerPointPresentation(
+        args.title,
+        slides.map(s => ({ title: String(s.title ?? ''), content: String(s.content ?? '') }))
+      );
+      // The generated HTML is large and of no use to the model
+      return { ...result, content: undefined };
+    }
+
+    case 'createPlannerTask': {
+      if (typeof args.planId !== 'string' || typeof args.title !== 'string') {
+        throw new Error('planId and title are required');
+      }
+      return graphClient.createPlannerTask(
+        args.planId,
+        args.title,
+        typeof args.description === 'string' ? args.description : undefined,
+        Array.isArray(args.assigneeIds) ? args.assigneeIds.filter((id): id is string => typeof id === 'string') : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Execute an O365 function call requested by the model.
+ * Failures are returned as `{ success: false, error }` so the model can report them.
+ * @param name Function tool name
+ * @param rawArguments JSON-encoded arguments from the function call item
+ * @returns JSON string to send back as the function call output
+ */
+export async function executeO365Tool(name: O365ToolName, rawArguments: string): Promise<string> {
+  try {
+    const args: unknown = JSON.parse(rawArguments || '{}');
+    if (!isRecord(args)) {
+      throw new Error('Arguments must be a JSON object');
+    }
+    logger.info(`Executing O365 tool: ${name}`);
+    const result = await runTool(name, args);
+    return JSON.stringify(result ?? { success: true });
+  } catch (error) {
+    logger.error(`O365 tool ${name} failed:`, error);
+    return JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
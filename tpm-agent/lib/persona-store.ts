@@ -0,0 +1,83 @@
+// Loads persona definitions from app/config/personas/*.md
+import { readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+import { logger } from './logger';
+import { isO365Enabled } from './microsoft-graph';
+import { parseFrontMatter, parseList } from './front-matter';
+import { type Persona, type PersonaSummary, type PersonaTool, DEFAULT_PERSONA_ID } from './personas';
+
+const PERSONAS_DIR = join(process.cwd(), 'app', 'config', 'personas');
+const BASE_INSTRUCTIONS_PATH = join(process.cwd(), 'app', 'config', 'instructions.md');
+// Instructions for a tool, e.g. tools/o365.md, included only for personas that have it and only when it is registered
+const TOOL_INSTRUCTIONS_DIR = join(process.cwd(), 'app', 'config', 'tools');
+const KNOWN_TOOLS: PersonaTool[] = ['github', 'o365'];
+
+function toPersona(id: string, source: string): Persona {
+  const { attributes, body } = parseFrontMatter(source);
+  const tools = parseList(attributes.tools).filter((t): t is PersonaTool => KNOWN_TOOLS.includes(t as PersonaTool));
+  return {
+    id,
+    name: attributes.name || id,
+    description: attributes.description || '',
+    tools,
+    ...(attributes.structuredOutput === 'roadmap' ? { structuredOutput: 'roadmap' as const } : {}),
+    ...(attributes.strictFormat === 'true' ? { strictFormat: true } : {}),
+    instructions: body.trim(),
+    outputFormat: attributes.outputFormat || '',
+  };
+}
+
+export async function listPersonas(): Promise<PersonaSummary[]> {
+  const files = (await readdir(PERSONAS_DIR)).filter(f => f.endsWith('.md')).sort();
+  const personas = await Promise.all(files.map(async file => {
+    const { id, name, description, tools, structuredOutput, strictFormat } = toPersona(file.replace(/\.md$/, ''), await readFile(join(PERSONAS_DIR, file), 'utf-8'));
+    return { id, name, description, tools, structuredOutput, strictFormat };
+  }));
+  // Default persona first, the rest alphabetically
+  return personas.sort((a, b) => Number(b.id === DEFAULT_PERSONA_ID) - Number(a.id === DEFAULT_PERSONA_ID));
+}
+
+/**
+ * Load a persona by ID, falling back to the default persona for unknown IDs.
+ */
+export async function getPersona(id?: string | null): Promise<Persona | null> {
+  const candidates = id && /^[\w-]+$/.test(id) && id !== DEFAULT_PERSONA_ID ? [id, DEFAULT_PERSONA_ID] : [DEFAULT_PERSONA_ID];
+  for (const candidate of candidates) {
+    try {
+      return toPersona(candidate, await readFile(join(PERSONAS_DIR, `${candidate}.md`), 'utf-8'));
+    } catch {
+      logger.warn(`Persona "${candidate}" not found`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Full model instructions for a persona: its own instructions, its output format,
+ * then the shared instructions every persona gets.
+ */
+export async function buildInstructions(persona: Persona | null): Promise<string> {
+  let base = '';
+  try {
+    base = await readFile(BASE_INSTRUCTIONS_PATH, 'utf-8');
+  } catch {
+    logger.warn('Instructions file not found, proceeding without shared instructions');
+  }
+
+  // Without a persona the chat gets every tool; the O365 tools exist only when Graph is configured
+  const tools = (persona?.tools ?? KNOWN_TOOLS).filter(tool => tool !== 'o365' || isO365Enabled());
+  const toolInstructions = await Promise.all(tools.map(async tool => {
+    try {
+      return await readFile(join(TOOL_INSTRUCTIONS_DIR, `${tool}.md`), 'utf-8');
+    } catch {
+      return '';
+    }
+  }));
+
+  return [
+    persona?.instructions ?? '',
+    persona?.outputFormat ? `## Output Format\n\n${persona.outputFormat}` : '',
+    base,
+    ...toolInstructions,
+  ].filter(Boolean).join('\n\n');
+}
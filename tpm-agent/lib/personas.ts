@@ -0,0 +1,30 @@
+// Agent persona types and client-safe helpers for /api/personas
+
+export type PersonaTool = 'github' | 'o365';
+
+export interface PersonaSummary {
+  id: string;
+  name: string;
+  description: string;
+  tools: PersonaTool[];
+  // Structured output the persona can answer with instead of markdown (see lib/roadmap.ts)
+  structuredOutput?: 'roadmap';
+  // Check roadmap replies for the required task sections and ask the model to repair them
+  strictFormat?: boolean;
+}
+
+export interface Persona extends PersonaSummary {
+  instructions: string;
+  outputFormat: string;
+}
+
+export const DEFAULT_PERSONA_ID = 'roadmap';
+
+export async function fetchPersonas(): Promise<PersonaSummary[]> {
+  const res = await fetch('/api/personas');
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Failed to fetch personas (${res.status}): ${text}`);
+  }
+  return res.json();
+}
@@ -0,0 +1,35 @@
+// Loads the model price table from app/config/prices.json (or LLM_PRICES_FILE)
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { logger } from './logger';
+import type { ModelPrice, PriceTable } from './usage';
+
+const PRICES_PATH = process.env.LLM_PRICES_FILE || join(process.cwd(), 'app', 'config', 'prices.json');
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  if (typeof value !== 'object' || value === null) return false;
+  const price = value as Record<string, unknown>;
+  return ['input', 'cachedInput', 'output'].every(key => typeof price[key] === 'number' && price[key] >= 0);
+}
+
+/**
+ * Prices keyed by model or deployment name. Invalid entries are skipped so one
+ * typo doesn't hide every estimate.
+ */
+export async function loadPriceTable(): Promise<PriceTable> {
+  try {
+    const raw = JSON.parse(await readFile(PRICES_PATH, 'utf-8')) as Record<string, unknown>;
+    const table: PriceTable = {};
+    for (const [model, price] of Object.entries(raw)) {
+      if (isModelPrice(price)) {
+        table[model] = price;
+      } else {
+        logger.warn(`Ignoring invalid price entry for "${model}" in ${PRICES_PATH}`);
+      }
+    }
+    return table;
+  } catch (error) {
+    logger.error(`Failed to load price table from ${PRICES_PATH}:`, error);
+    return {};
+  }
+}
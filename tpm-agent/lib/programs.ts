@@ -0,0 +1,27 @@
+// Programs: named sets of repositories that act together as the active context
+import type { RepositorySummary } from './conversations';
+
+export interface Program {
+  id: string;
+  name: string;
+  // The first repository is the primary one, used by single-repository views such as Sprints
+  repositories: RepositorySummary[];
+}
+
+export const MAX_PROGRAM_REPOSITORIES = 10;
+
+export function newProgramId(): string {
+  return `program-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Problem with a program definition, or null when it can be saved.
+ */
+export function validateProgram(program: Pick<Program, 'name'> & { repositories: readonly unknown[] }): string | null {
+  if (!program.name.trim()) return 'Program name is required';
+  if (program.repositories.length < 2) return 'Pick at least two repositories';
+  if (program.repositories.length > MAX_PROGRAM_REPOSITORIES) {
+    return `A program can have at most ${MAX_PROGRAM_REPOSITORIES} repositories`;
+  }
+  return null;
+}
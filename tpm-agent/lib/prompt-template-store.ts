@@ -0,0 +1,128 @@
+// File-backed prompt template library: one JSON file of templates per GitHub user,
+// seeded from app/config/prompt-templates/*.md the first time a user opens it
+import { readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+import { readJsonFile, userFile, withFileLock, writeJsonFile } from './json-store';
+import {
+  type PromptTemplate,
+  type PromptTemplateInput,
+  type PromptTemplateSummary,
+  MAX_TEMPLATE_VERSIONS,
+  templateFromMarkdown,
+} from './prompt-templates';
+
+const STORE_DIR = process.env.PROMPT_TEMPLATE_STORE_DIR || join(process.cwd(), '.data', 'prompt-templates');
+const SEED_DIR = join(process.cwd(), 'app', 'config', 'prompt-templates');
+
+function withUserLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+  return withFileLock(userFile(STORE_DIR, userId), fn);
+}
+
+function newTemplate(input: PromptTemplateInput): PromptTemplate {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    version: 1,
+    name: input.name.trim(),
+    description: input.description.trim(),
+    body: input.body.trim(),
+    createdAt: now,
+    updatedAt: now,
+    history: [],
+  };
+}
+
+async function seedTemplates(): Promise<PromptTemplate[]> {
+  try {
+    const files = (await readdir(SEED_DIR)).filter(f => f.endsWith('.md')).sort();
+    return Promise.all(files.map(async file => newTemplate(templateFromMarkdown(await readFile(join(SEED_DIR, file), 'utf-8'), file))));
+  } catch (error) {
+    logger.warn('Could not load the default prompt templates:', error);
+    return [];
+  }
+}
+
+function readTemplates(userId: string): Promise<PromptTemplate[] | null> {
+  return readJsonFile<PromptTemplate[]>(userFile(STORE_DIR, userId));
+}
+
+function writeTemplates(userId: string, templates: PromptTemplate[]): Promise<void> {
+  return writeJsonFile(userFile(STORE_DIR, userId), templates);
+}
+
+// A user's templates, seeding the library on first use
+function loadTemplates(userId: string): Promise<PromptTemplate[]> {
+  return withUserLock(userId, async () => {
+    const templates = await readTemplates(userId);
+    if (templates) return templates;
+    const seeded = await seedTemplates();
+    await writeTemplates(userId, seeded);
+    return seeded;
+  });
+}
+
+export async function listPromptTemplates(userId: string): Promise<PromptTemplateSummary[]> {
+  const templates = await loadTemplates(userId);
+  return templates
+    .map(({ id, version, name, description, body, createdAt, updatedAt }) => ({ id, version, name, description, body, createdAt, updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getPromptTemplate(userId: string, id: string): Promise<PromptTemplate | null> {
+  const templates = await loadTemplates(userId);
+  return templates.find(t => t.id === id) ?? null;
+}
+
+export async function createPromptTemplate(userId: string, input: PromptTemplateInput): Promise<PromptTemplate> {
+  await loadTemplates(userId);
+  return withUserLock(userId, async () => {
+    const template = newTemplate(input);
+    const templates = (await readTemplates(userId)) ?? [];
+    await writeTemplates(userId, [...templates, template]);
+    logger.info(`Created prompt template ${template.id}`);
+    return template;
+  });
+}
+
+/**
+ * Save a new version; the current one moves into the history. Saving unchanged
+ * content doesn't create a version.
+ */
+export function updatePromptTemplate(userId: string, id: string, input: PromptTemplateInput): Promise<PromptTemplate | null> {
+  return withUserLock(userId, async () => {
+    const templates = (await readTemplates(userId)) ?? [];
+    const index = templates.findIndex(t => t.id === id);
+    if (index === -1) return null;
+
+    const current = templates[index];
+    const next = { name: input.name.trim(), description: input.description.trim(), body: input.body.trim() };
+    if (next.name === current.name && next.description === current.description && next.body === current.body) {
+      return current;
+    }
+
+    const previous = { version: current.version, name: current.name, description: current.description, body: current.body, updatedAt: current.updatedAt };
+    const template: PromptTemplate = {
+      ...current,
+      ...next,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+      history: [previous, ...current.history].slice(0, MAX_TEMPLATE_VERSIONS),
+    };
+    templates[index] = template;
+    await writeTemplates(userId, templates);
+    return template;
+  });
+}
+
+export function deletePromptTemplate(userId: string, id: string): Promise<boolean> {
+  return withUserLock(userId, async () => {
+    const templates = (await readTemplates(userId)) ?? [];
+    const remaining = templates.filter(t => t.id !== id);
+    if (remaining.length === templates.length) return false;
+    await writeTemplates(userId, remaining);
+    logger.info(`Deleted prompt template ${id}`);
+    return true;
+  });
+}
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  contextVariables,
+  fillTemplate,
+  templateFileName,
+  templateFromMarkdown,
+  templateToMarkdown,
+  templateVariables,
+  validateTemplate,
+} from './prompt-templates';
+
+const repository = {
+  name: 'api',
+  full_name: 'acme/api',
+  description: 'Public REST API',
+  html_url: 'https://github.com/acme/api',
+  language: 'TypeScript',
+};
+
+describe('templateVariables', () => {
+  it('lists each variable once, in order of first use, allowing spaces inside the braces', () => {
+    assert.deepEqual(templateVariables('{{ repo }} in {{language}}, again {{repo}} and {{team.lead}}'), ['repo', 'language', 'team.lead']);
+  });
+
+  it('ignores braces that are not variables', () => {
+    assert.deepEqual(templateVariables('{{}} {{1st}} {single} {{ two words }}'), []);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('fills the variables that have a value and leaves the rest for the user', () => {
+    assert.equal(
+      fillTemplate('Plan {{ repo }} for {{audience}}', { repo: 'acme/api' }),
+      'Plan acme/api for {{audience}}'
+    );
+  });
+
+  it('treats blank values as missing', () => {
+    assert.equal(fillTemplate('{{repo_description}}', { repo_description: '  ' }), '{{repo_description}}');
+  });
+});
+
+describe('contextVariables', () => {
+  it('fills the repository variables from the selected repository', () => {
+    assert.deepEqual(contextVariables(repository, null), {
+      project_name: 'api',
+      repo: 'acme/api',
+      repo_name: 'api',
+      repo_owner: 'acme',
+      repo_url: 'https://github.com/acme/api',
+      repo_description: 'Public REST API',
+      project_description: 'Public REST API',
+      language: 'TypeScript',
+    });
+  });
+
+  it('lets a program name the project and list every repository', () => {
+    const values = contextVariables(repository, { name: 'Checkout', repositories: [{ full_name: 'acme/api' }, { full_name: 'acme/web' }] });
+    assert.equal(values.project_name, 'Checkout');
+    assert.equal(values.program, 'Checkout');
+    assert.equal(values.repo, 'acme/api, acme/web');
+    assert.equal(values.repo_name, 'api');
+  });
+
+  it('leaves out values the repository does not have', () => {
+    const values = contextVariables({ ...repository, description: null, language: null }, null);
+    assert.equal('repo_description' in values, false);
+    assert.equal('language' in values, false);
+  });
+});
+
+describe('validateTemplate', () => {
+  it('requires a name and text within the length limit', () => {
+    assert.equal(validateTemplate({ name: ' ', body: 'x' }), 'Template name is required');
+    assert.equal(validateTemplate({ name: 'a', body: '\n' }), 'Template text is required');
+    assert.match(validateTemplate({ name: 'a', body: 'x'.repeat(50_001) }) ?? '', /limited to/);
+    assert.equal(validateTemplate({ name: 'a', body: 'x' }), null);
+  });
+});
+
+describe('markdown export and import', () => {
+  it('round-trips name, description and a multi-line body', () => {
+    const body = 'Plan {{repo}}.\n\n- Keep tasks small';
+    const markdown = templateToMarkdown({
+      id: 't1',
+      name: 'Sprint plan',
+      description: 'Two-week sprint',
+      body,
+      version: 3,
+      createdAt: '2026-10-01T00:00:00.000Z',
+      updatedAt: '2026-10-02T00:00:00.000Z',
+    });
+    assert.match(markdown, /^version: 3$/m);
+    assert.match(markdown, /^variables: repo$/m);
+    assert.deepEqual(templateFromMarkdown(markdown), { name: 'Sprint plan', description: 'Two-week sprint', body });
+  });
+
+  it('names a template without front-matter after its file', () => {
+    assert.deepEqual(templateFromMarkdown('Just text', 'retro.md'), { name: 'retro', description: '', body: 'Just text' });
+  });
+
+  it('builds a file name from the template name', () => {
+    assert.equal(templateFileName({ name: 'Sprint Plan (v2)!' }), 'sprint-plan-v2.md');
+    assert.equal(templateFileName({ name: '!!!' }), 'template.md');
+  });
+});
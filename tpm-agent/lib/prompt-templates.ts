@@ -0,0 +1,173 @@
+// Prompt template types, {{variable}} filling and client-safe helpers for /api/prompts
+import { parseFrontMatter, stringifyFrontMatter } from './front-matter';
+
+export interface PromptTemplateVersion {
+  version: number;
+  name: string;
+  description: string;
+  body: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplate extends PromptTemplateVersion {
+  id: string;
+  createdAt: string;
+  // Earlier versions, newest first (at most MAX_TEMPLATE_VERSIONS)
+  history: PromptTemplateVersion[];
+}
+
+export type PromptTemplateSummary = Omit<PromptTemplate, 'history'>;
+
+export type PromptTemplateInput = Pick<PromptTemplate, 'name' | 'description' | 'body'>;
+
+export const MAX_TEMPLATE_VERSIONS = 20;
+export const MAX_TEMPLATE_LENGTH = 50_000;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z][\w.-]*)\s*\}\}/gi;
+
+// Descriptions of the variables filled from the active repository or program
+export const CONTEXT_VARIABLES: Record<string, string> = {
+  project_name: 'Program name, or the repository name',
+  project_description: 'Repository description',
+  repo: 'Repository (owner/name); every repository of a program, comma-separated',
+  repo_name: 'Repository name',
+  repo_owner: 'Repository owner',
+  repo_description: 'Repository description',
+  repo_url: 'Repository URL',
+  language: 'Primary language',
+  program: 'Program name',
+};
+
+interface ContextRepository {
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  language: string | null;
+}
+
+/**
+ * Variable values available from the active context; the primary repository fills the
+ * single-repository variables while a program is active.
+ */
+export function contextVariables(
+  repository: ContextRepository | null,
+  program: { name: string; repositories: Array<{ full_name: string }> } | null
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (repository) {
+    values.project_name = repository.name;
+    values.repo = repository.full_name;
+    values.repo_name = repository.name;
+    values.repo_owner = repository.full_name.split('/')[0];
+    values.repo_url = repository.html_url;
+    if (repository.description) {
+      values.repo_description = repository.description;
+      values.project_description = repository.description;
+    }
+    if (repository.language) values.language = repository.language;
+  }
+  if (program) {
+    values.project_name = program.name;
+    values.program = program.name;
+    values.repo = program.repositories.map(r => r.full_name).join(', ');
+  }
+  return values;
+}
+
+/**
+ * Names of the variables a template uses, in order of first use.
+ */
+export function templateVariables(body: string): string[] {
+  return [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(m => m[1]))];
+}
+
+/**
+ * Replace the variables that have a value; the others stay as {{name}} for the user to fill in.
+ */
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+}
+
+export function validateTemplate(input: Partial<PromptTemplateInput>): string | null {
+  if (!input.name?.trim()) return 'Template name is required';
+  if (!input.body?.trim()) return 'Template text is required';
+  if (input.body.length > MAX_TEMPLATE_LENGTH) return `Template text is limited to ${MAX_TEMPLATE_LENGTH.toLocaleString()} characters`;
+  return null;
+}
+
+/**
+ * Markdown file with front-matter: name, description, version and the variables it uses.
+ */
+export function templateToMarkdown(template: PromptTemplateSummary): string {
+  return stringifyFrontMatter(
+    {
+      name: template.name,
+      description: template.description,
+      version: String(template.version),
+      variables: templateVariables(template.body).join(', '),
+    },
+    template.body
+  );
+}
+
+/**
+ * Read an exported (or hand-written) template; the file name is used when there is no name.
+ * The version and variables attributes are informational and ignored.
+ */
+export function templateFromMarkdown(source: string, fileName = 'Imported template'): PromptTemplateInput {
+  const { attributes, body } = parseFrontMatter(source);
+  return {
+    name: attributes.name || fileName.replace(/\.md$/i, ''),
+    description: attributes.description || '',
+    body: body.trim(),
+  };
+}
+
+export function templateFileName(template: Pick<PromptTemplate, 'name'>): string {
+  return `${template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template'}.md`;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    cache: 'no-store',
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+export function listPromptTemplates(): Promise<PromptTemplateSummary[]> {
+  return request('/api/prompts');
+}
+
+export function getPromptTemplate(id: string): Promise<PromptTemplate> {
+  return request(`/api/prompts/${encodeURIComponent(id)}`);
+}
+
+export function createPromptTemplate(input: PromptTemplateInput): Promise<PromptTemplate> {
+  return request('/api/prompts', { method: 'POST', body: JSON.stringify(input) });
+}
+
+/**
+ * Import a markdown file; the server parses the front-matter.
+ */
+export function importPromptTemplate(markdown: string, fileName: string): Promise<PromptTemplate> {
+  return request('/api/prompts', { method: 'POST', body: JSON.stringify({ markdown, fileName }) });
+}
+
+export function updatePromptTemplate(id: string, input: PromptTemplateInput): Promise<PromptTemplate> {
+  return request(`/api/prompts/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(input) });
+}
+
+export async function deletePromptTemplate(id: string): Promise<void> {
+  await request(`/api/prompts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export function promptTemplateExportUrl(id: string): string {
+  return `/api/prompts/${encodeURIComponent(id)}?format=markdown`;
+}
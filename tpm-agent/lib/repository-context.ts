@@ -0,0 +1,41 @@
+// Repository digest sent into a conversation as context, and when it needs refreshing
+
+export interface RepositoryLabel {
+  name: string;
+  description: string | null;
+}
+
+export interface RepositoryMilestone {
+  number: number;
+  title: string;
+  // YYYY-MM-DD, or null when the milestone has no due date
+  dueOn: string | null;
+  openIssues: number;
+}
+
+export interface RepositoryLanguage {
+  name: string;
+  // Share of the repository's code in bytes, 0-100
+  percent: number;
+}
+
+// What the PUT handler of /api/responses gathers from the GitHub REST API.
+// Sections GitHub couldn't provide are null.
+export interface RepositoryDigest {
+  readmeSummary: string | null;
+  labels: RepositoryLabel[] | null;
+  milestones: RepositoryMilestone[] | null;
+  openIssueCount: number | null;
+  // Most recently created open issues, newest first
+  recentIssues: Array<{ number: number; title: string }> | null;
+  languages: RepositoryLanguage[] | null;
+}
+
+// Context older than this is sent again before the next message
+export const REPOSITORY_CONTEXT_TTL_MS = 30 * 60 * 1000;
+
+export function isRepositoryContextStale(refreshedAt: string | null | undefined, now = Date.now()): boolean {
+  if (!refreshedAt) return true;
+  const time = Date.parse(refreshedAt);
+  return Number.isNaN(time) || now - time > REPOSITORY_CONTEXT_TTL_MS;
+}
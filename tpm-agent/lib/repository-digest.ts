@@ -0,0 +1,199 @@
+// Gathers the repository digest from the GitHub REST API and formats it as a context block
+import { logger } from './logger';
+import { githubGet, githubPaginate } from './github-client';
+import type {
+  RepositoryDigest,
+  RepositoryLabel,
+  RepositoryLanguage,
+  RepositoryMilestone,
+} from './repository-context';
+
+const README_SUMMARY_MAX_LENGTH = 1200;
+const RECENT_ISSUE_COUNT = 10;
+const MAX_LANGUAGES = 8;
+// Keeps the block compact on repositories with very large label sets
+const MAX_LABELS = 60;
+
+export interface RepositoryInfo {
+  name: string;
+  full_name: string;
+  description: string | null;
+  private: boolean;
+  html_url: string;
+  language: string | null;
+}
+
+/**
+ * Opening prose of a README: drops badges, images, HTML, code blocks and headings, then keeps
+ * whole paragraphs up to README_SUMMARY_MAX_LENGTH characters.
+ */
+export function summarizeReadme(markdown: string): string | null {
+  const paragraphs = markdown
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .split(/\n\s*\n/)
+    .map(p => p.split('\n').filter(line => !/^\s*#/.test(line)).join(' ').replace(/\s+/g, ' ').trim())
+    .filter(p => p.length > 0);
+
+  let summary = '';
+  for (const paragraph of paragraphs) {
+    if (summary && summary.length + paragraph.length + 1 > README_SUMMARY_MAX_LENGTH) break;
+    summary = summary ? `${summary}\n${paragraph}` : paragraph;
+  }
+  if (!summary) return null;
+  return summary.length > README_SUMMARY_MAX_LENGTH ? `${summary.slice(0, README_SUMMARY_MAX_LENGTH - 1)}…` : summary;
+}
+
+async function fetchReadmeSummary(accessToken: string, repoPath: string): Promise<string | null> {
+  return summarizeReadme(await githubGet<string>(accessToken, `${repoPath}/readme`, { accept: 'application/vnd.github.raw+json' }));
+}
+
+async function fetchLabels(accessToken: string, repoPath: string): Promise<RepositoryLabel[]> {
+  const labels = await githubPaginate<{ name: string; description: string | null }>(accessToken, `${repoPath}/labels`);
+  return labels.map(({ name, description }) => ({ name, description: description || null }));
+}
+
+async function fetchMilestones(accessToken: string, repoPath: string): Promise<RepositoryMilestone[]> {
+  const milestones = await githubPaginate<{ number: number; title: string; due_on: string | null; open_issues: number }>(
+    accessToken,
+    `${repoPath}/milestones?state=open&sort=due_on&direction=asc`
+  );
+  return milestones.map(m => ({
+    number: m.number,
+    title: m.title,
+    dueOn: m.due_on ? m.due_on.slice(0, 10) : null,
+    openIssues: m.open_issues,
+  }));
+}
+
+// The search API counts issues without pull requests, which the repository's open_issues_count includes
+async function fetchOpenIssues(accessToken: string, fullName: string): Promise<{ count: number; recent: Array<{ number: number; title: string }> }> {
+  const query = encodeURIComponent(`repo:${fullName} is:issue is:open`);
+  const result = await githubGet<{ total_count: number; items: Array<{ number: number; title: string }> }>(
+    accessToken,
+    `/search/issues?q=${query}&sort=created&order=desc&per_page=${RECENT_ISSUE_COUNT}`
+  );
+  return { count: result.total_count, recent: result.items.map(({ number, title }) => ({ number, title })) };
+}
+
+async function fetchLanguages(accessToken: string, repoPath: string): Promise<RepositoryLanguage[]> {
+  const bytes = await githubGet<Record<string, number>>(accessToken, `${repoPath}/languages`);
+  const total = Object.values(bytes).reduce((sum, n) => sum + n, 0);
+  if (total === 0) return [];
+  return Object.entries(bytes)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_LANGUAGES)
+    .map(([name, n]) => ({ name, percent: Math.round((n / total) * 1000) / 10 }));
+}
+
+function settled<T>(result: PromiseSettledResult<T>, section: string, fullName: string): T | null {
+  if (result.status === 'fulfilled') return result.value;
+  logger.warn(`Could not load ${section} for ${fullName}:`, result.reason);
+  return null;
+}
+
+/**
+ * Gather the digest; each section is fetched independently so one failing call
+ * (e.g. a repository without a README) only leaves that section empty.
+ */
+export async function fetchRepositoryDigest(accessToken: string, fullName: string): Promise<RepositoryDigest> {
+  const [owner, repo] = fullName.split('/');
+  const repoPath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+  const [readme, labels, milestones, issues, languages] = await Promise.allSettled([
+    fetchReadmeSummary(accessToken, repoPath),
+    fetchLabels(accessToken, repoPath),
+    fetchMilestones(accessToken, repoPath),
+    fetchOpenIssues(accessToken, fullName),
+    fetchLanguages(accessToken, repoPath),
+  ]);
+
+  const openIssues = settled(issues, 'open issues', fullName);
+  return {
+    readmeSummary: settled(readme, 'README', fullName),
+    labels: settled(labels, 'labels', fullName),
+    milestones: settled(milestones, 'milestones', fullName),
+    openIssueCount: openIssues?.count ?? null,
+    recentIssues: openIssues?.recent ?? null,
+    languages: settled(languages, 'languages', fullName),
+  };
+}
+
+// Details and digest of one repository, without the heading and closing line
+function repositoryDetails(repository: RepositoryInfo, digest: RepositoryDigest | null): string[] {
+  const lines = [
+    `- Name: ${repository.name}`,
+    `- Full Name: ${repository.full_name}`,
+    `- Description: ${repository.description || 'No description available'}`,
+    `- Private: ${repository.private ? 'Yes' : 'No'}`,
+    `- Primary Language: ${repository.language || 'Not specified'}`,
+    `- URL: ${repository.html_url}`,
+  ];
+
+  if (digest?.languages?.length) {
+    lines.push(`- Languages: ${digest.languages.map(l => `${l.name} ${l.percent}%`).join(', ')}`);
+  }
+  if (digest?.openIssueCount !== null && digest?.openIssueCount !== undefined) {
+    lines.push(`- Open issues: ${digest.openIssueCount}`);
+  }
+  if (digest?.recentIssues?.length) {
+    lines.push('- Most recent open issues:', ...digest.recentIssues.map(i => `  - #${i.number} ${i.title}`));
+  }
+  if (digest?.labels) {
+    const labels = digest.labels.slice(0, MAX_LABELS)
+      .map(l => (l.description ? `${l.name} (${l.description})` : l.name));
+    const more = digest.labels.length > MAX_LABELS ? `, and ${digest.labels.length - MAX_LABELS} more` : '';
+    lines.push(`- Existing labels (reuse these rather than creating new ones): ${labels.length ? `${labels.join('; ')}${more}` : 'none'}`);
+  }
+  if (digest?.milestones) {
+    const milestones = digest.milestones
+      .map(m => `${m.title} (${m.dueOn ? `due ${m.dueOn}` : 'no due date'}, ${m.openIssues} open)`);
+    lines.push(`- Open milestones (assign work to these where they fit): ${milestones.length ? milestones.join('; ') : 'none'}`);
+  }
+  if (digest?.readmeSummary) {
+    lines.push('', 'README summary:', digest.readmeSummary);
+  }
+  return lines;
+}
+
+/**
+ * Compact context block for the model. Labels and milestones are listed as the ones to reuse,
+ * so plans and issue drafts don't invent new ones.
+ */
+export function formatRepositoryContext(repository: RepositoryInfo, digest: RepositoryDigest | null, refreshedAt: string): string {
+  return [
+    `Active repository has been set to: ${repository.full_name}`,
+    '',
+    `Repository Details (as of ${refreshedAt}):`,
+    ...repositoryDetails(repository, digest),
+    '',
+    'This repository is now the active context for all subsequent project management tasks, issue creation, and development planning.',
+  ].join('\n');
+}
+
+/**
+ * Context block for a program: every repository's details, primary first, and the instruction
+ * to name the repository of each planned task.
+ */
+export function formatProgramContext(
+  name: string,
+  repositories: Array<{ repository: RepositoryInfo; digest: RepositoryDigest | null }>,
+  refreshedAt: string
+): string {
+  const lines = [
+    `Active program has been set to: ${name}, spanning ${repositories.length} repositories (as of ${refreshedAt}): ${repositories.map(r => r.repository.full_name).join(', ')}`,
+  ];
+  repositories.forEach(({ repository, digest }, index) => {
+    lines.push('', `## ${repository.full_name}${index === 0 ? ' (primary)' : ''}`, ...repositoryDetails(repository, digest));
+  });
+  lines.push(
+    '',
+    'This program is now the active context for all subsequent project management tasks, issue creation, and development planning.',
+    'Work belongs to one of these repositories: name the repository (owner/name) of every task and issue you plan, and use each repository\'s own labels and milestones.'
+  );
+  return lines.join('\n');
+}
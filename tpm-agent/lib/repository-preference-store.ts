@@ -0,0 +1,24 @@
+// File-backed pinned and recent repositories: one JSON file per GitHub user
+import { join } from 'path';
+import {
+  type RepositoryPreferences,
+  type RepositoryPreferencesUpdate,
+  EMPTY_REPOSITORY_PREFERENCES,
+  applyRepositoryPreferences,
+} from './repository-preferences';
+import { readJsonFile, userFile, withFileLock, writeJsonFile } from './json-store';
+
+const STORE_DIR = process.env.REPOSITORY_PREFERENCE_STORE_DIR || join(process.cwd(), '.data', 'repository-preferences');
+
+export async function getRepositoryPreferences(userId: string): Promise<RepositoryPreferences> {
+  return (await readJsonFile<RepositoryPreferences>(userFile(STORE_DIR, userId))) ?? EMPTY_REPOSITORY_PREFERENCES;
+}
+
+export function updateRepositoryPreferences(userId: string, update: RepositoryPreferencesUpdate): Promise<RepositoryPreferences> {
+  const file = userFile(STORE_DIR, userId);
+  return withFileLock(file, async () => {
+    const preferences = applyRepositoryPreferences(await getRepositoryPreferences(userId), update);
+    await writeJsonFile(file, preferences);
+    return preferences;
+  });
+}
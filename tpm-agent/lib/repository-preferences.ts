@@ -0,0 +1,115 @@
+// Pinned and recently used repositories of a user, and client-safe helpers for /api/repos
+
+export const MAX_RECENT_REPOSITORIES = 8;
+export const MAX_PINNED_REPOSITORIES = 30;
+
+export interface RepositoryPreferences {
+  // full_name of each pinned repository, in the order they were pinned
+  pinned: string[];
+  // Most recently used first
+  recent: Array<{ fullName: string; usedAt: string }>;
+}
+
+export interface RepositoryPreferencesUpdate {
+  fullName: string;
+  pinned?: boolean;
+  // Record the repository as just used
+  used?: boolean;
+}
+
+export interface RepositoryOwner {
+  login: string;
+  type: 'User' | 'Organization';
+}
+
+export interface RepositoryListing<R> {
+  // Login of the signed-in user, whose own repositories are listed first
+  login: string;
+  repositories: R[];
+}
+
+export const EMPTY_REPOSITORY_PREFERENCES: RepositoryPreferences = { pinned: [], recent: [] };
+
+/**
+ * Apply an update; pinning is capped at MAX_PINNED_REPOSITORIES, and using a
+ * repository moves it to the front of the recent list.
+ */
+export function applyRepositoryPreferences(
+  preferences: RepositoryPreferences,
+  { fullName, pinned, used }: RepositoryPreferencesUpdate,
+  now = new Date()
+): RepositoryPreferences {
+  let next = preferences;
+  if (pinned === true && !next.pinned.includes(fullName)) {
+    next = { ...next, pinned: [...next.pinned, fullName].slice(-MAX_PINNED_REPOSITORIES) };
+  } else if (pinned === false) {
+    next = { ...next, pinned: next.pinned.filter(name => name !== fullName) };
+  }
+  if (used) {
+    next = {
+      ...next,
+      recent: [{ fullName, usedAt: now.toISOString() }, ...next.recent.filter(r => r.fullName !== fullName)].slice(0, MAX_RECENT_REPOSITORIES),
+    };
+  }
+  return next;
+}
+
+/**
+ * Fuzzy match score of query against text: every query character must appear in order.
+ * Consecutive runs and matches at word starts score higher; null when it doesn't match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let run = 0;
+  let from = 0;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+    run = index === from ? run + 1 : 1;
+    const wordStart = index === 0 || /[\s/_.-]/.test(t[index - 1]);
+    score += run * 2 + (wordStart ? 3 : 0) - Math.min(index - from, 5) * 0.5;
+    from = index + 1;
+  }
+  // Prefer shorter texts among equal matches
+  return score - t.length * 0.01;
+}
+
+/**
+ * Items matching the query, best match first. Each item is scored by its best-matching text.
+ */
+export function fuzzyFilter<T>(items: T[], query: string, texts: (item: T) => string[]): T[] {
+  if (!query.trim()) return items;
+  return items
+    .map(item => ({ item, score: Math.max(...texts(item).map(text => fuzzyScore(query, text) ?? -Infinity)) }))
+    .filter(entry => entry.score > -Infinity)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.item);
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    cache: 'no-store',
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+export function fetchRepositories<R>(): Promise<RepositoryListing<R>> {
+  return request('/api/repos');
+}
+
+export function fetchRepositoryPreferences(): Promise<RepositoryPreferences> {
+  return request('/api/repos/preferences');
+}
+
+export function updateRepositoryPreferences(update: RepositoryPreferencesUpdate): Promise<RepositoryPreferences> {
+  return request('/api/repos/preferences', { method: 'PATCH', body: JSON.stringify(update) });
+}
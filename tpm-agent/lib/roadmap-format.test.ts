@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractTasks, repairPrompt, replyMarkdown, roadmapFormatProblems } from './roadmap-format';
+
+const complete = [
+  '## Phase 1: Setup',
+  '',
+  '### Task 1.1: Scaffold the project',
+  '**Description**: Create the repository skeleton.',
+  '',
+  '**Acceptance Criteria**:',
+  '- `npm test` exits with code 0',
+  '* CI runs on pull requests',
+  '1. The README lists the commands',
+  '',
+  '**Implementation Prompt**: Scaffold a Node 20 project with Vitest.',
+].join('\n');
+
+describe('extractTasks', () => {
+  it('reads the heading, the acceptance criteria of any list style and no missing sections', () => {
+    assert.deepEqual(extractTasks(complete), [{
+      heading: 'Task 1.1: Scaffold the project',
+      missing: [],
+      extraSections: [],
+      acceptanceCriteria: ['`npm test` exits with code 0', 'CI runs on pull requests', 'The README lists the commands'],
+    }]);
+  });
+
+  it('accepts "**Label:**" and "#### Label" sections', () => {
+    const markdown = [
+      '### Task 2: Publish',
+      '**Description:** Publish the package.',
+      '#### Acceptance Criteria',
+      '- The package is on npm',
+      '#### Implementation Prompt',
+      'Add a release workflow.',
+    ].join('\n');
+    assert.deepEqual(extractTasks(markdown)[0].missing, []);
+    assert.deepEqual(extractTasks(markdown)[0].acceptanceCriteria, ['The package is on npm']);
+  });
+
+  it('ends a task at the next heading of its level or above', () => {
+    const markdown = [
+      '### Task 1: First',
+      '**Description**: One.',
+      '## Phase 2',
+      '**Acceptance Criteria**:',
+      '- Not part of task 1',
+    ].join('\n');
+    const [task] = extractTasks(markdown);
+    assert.deepEqual(task.missing, ['Acceptance Criteria', 'Implementation Prompt']);
+    assert.deepEqual(task.acceptanceCriteria, []);
+  });
+
+  it('only counts numbered task headings', () => {
+    assert.deepEqual(extractTasks('## Task Dependencies\n\n### Tasks overview\n'), []);
+  });
+});
+
+describe('roadmapFormatProblems', () => {
+  it('is empty for a complete roadmap and for replies without tasks', () => {
+    assert.deepEqual(roadmapFormatProblems(complete), []);
+    assert.deepEqual(roadmapFormatProblems('Which language should the CLI use?'), []);
+  });
+
+  it('names the missing and the extra sections of each task', () => {
+    const markdown = [
+      '### Task 1.2: Add logging',
+      '**Description**: Structured logs.',
+      '**Notes**: Use pino.',
+      '**Risks**: None.',
+    ].join('\n');
+    assert.deepEqual(roadmapFormatProblems(markdown), [
+      'Task 1.2: Add logging is missing Acceptance Criteria, Implementation Prompt',
+      "Task 1.2: Add logging adds sections that aren't part of the format: Notes, Risks",
+    ]);
+  });
+});
+
+describe('replyMarkdown', () => {
+  it('leaves markdown replies as they are', () => {
+    assert.equal(replyMarkdown(complete), complete);
+  });
+
+  it('renders a JSON roadmap in the task layout', () => {
+    const json = JSON.stringify({
+      title: 'CLI',
+      summary: 'A small CLI.',
+      questions: [],
+      phases: [{
+        id: '1',
+        name: 'Phase 1',
+        goal: 'Ship it',
+        tasks: [{
+          id: '1.1',
+          title: 'Parse flags',
+          description: 'Read the command line.',
+          acceptanceCriteria: ['--help prints the usage'],
+          implementationPrompt: 'Use util.parseArgs.',
+          dependencies: [],
+          parallelizable: false,
+          repository: null,
+        }],
+      }],
+    });
+    const [task] = extractTasks(replyMarkdown(json));
+    assert.equal(task.heading, 'Task 1.1: Parse flags');
+    assert.deepEqual(task.missing, []);
+    assert.deepEqual(task.acceptanceCriteria, ['--help prints the usage']);
+  });
+
+  it('returns JSON that is not a roadmap unchanged', () => {
+    assert.equal(replyMarkdown('{ not json'), '{ not json');
+  });
+});
+
+describe('repairPrompt', () => {
+  it('lists the problems and asks for the layout the reply was in', () => {
+    const markdown = repairPrompt(['Task 1 is missing Description'], false);
+    assert.match(markdown, /^- Task 1 is missing Description$/m);
+    assert.match(markdown, /\*\*Description\*\*, \*\*Acceptance Criteria\*\*, \*\*Implementation Prompt\*\*/);
+    assert.match(repairPrompt(['x'], true), /as JSON matching the schema/);
+  });
+});
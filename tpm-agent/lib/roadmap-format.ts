@@ -0,0 +1,88 @@
+// Checks markdown roadmaps for the task layout the roadmap persona asks for, and builds the
+// follow-up prompt that asks the model to repair a reply that doesn't follow it
+import { parseRoadmap, roadmapToMarkdown } from './roadmap';
+
+export const REQUIRED_TASK_SECTIONS = ['Description', 'Acceptance Criteria', 'Implementation Prompt'] as const;
+
+export interface ExtractedTask {
+  heading: string;
+  // Required sections the task is missing
+  missing: string[];
+  // Section labels other than the required ones
+  extraSections: string[];
+  acceptanceCriteria: string[];
+}
+
+// "### Task 1.2: Title"; a number is required so headings like "Task Dependencies" don't count
+const TASK_HEADING = /^#{2,4}\s+(?:\*\*)?Task\s+\d[\w.]*\b.*$/gm;
+// "**Label**:" or a "#### Label" heading inside a task
+const SECTION_LABEL = /^[ \t]*(?:\*\*([^*\n]+?)\*\*[ \t]*:|\*\*([^*\n]+?):\*\*|#{4,6}[ \t]+(.+?)[ \t]*$)/gm;
+const SECTION = (name: string) => new RegExp(`(?:\\*\\*|#{3,6}\\s*)${name}\\b`, 'i');
+
+/**
+ * Replies in structured roadmap mode are JSON; render them as the markdown layout
+ * so the same checks apply to both.
+ */
+export function replyMarkdown(reply: string): string {
+  if (!reply.trim().startsWith('{')) return reply;
+  const { roadmap } = parseRoadmap(reply);
+  return roadmap ? roadmapToMarkdown(roadmap) : reply;
+}
+
+function sectionText(block: string, name: string, next: string[]): string {
+  const start = block.search(SECTION(name));
+  if (start === -1) return '';
+  const rest = block.slice(start).replace(SECTION(name), '');
+  const ends = next.map(n => rest.search(SECTION(n))).filter(i => i !== -1);
+  return ends.length ? rest.slice(0, Math.min(...ends)) : rest;
+}
+
+export function extractTasks(markdown: string): ExtractedTask[] {
+  const headings = [...markdown.matchAll(TASK_HEADING)];
+  return headings.map(match => {
+    const start = (match.index ?? 0) + match[0].length;
+    const after = markdown.slice(start);
+    // The task runs until the next heading at its own level or above
+    const level = /^#+/.exec(match[0])![0].length;
+    const end = after.search(new RegExp(`^#{1,${level}}\\s`, 'm'));
+    const block = end === -1 ? after : after.slice(0, end);
+
+    const labels = [...block.matchAll(SECTION_LABEL)].map(m => (m[1] ?? m[2] ?? m[3]).trim());
+    const required = REQUIRED_TASK_SECTIONS.map(name => name.toLowerCase());
+    const criteria = sectionText(block, 'Acceptance Criteria', ['Implementation Prompt', 'Description'])
+      .split('\n')
+      .map(line => /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line)?.[1]?.trim())
+      .filter((line): line is string => !!line);
+    return {
+      heading: match[0].replace(/^#+\s*/, '').replace(/\*\*/g, ''),
+      missing: REQUIRED_TASK_SECTIONS.filter(name => !SECTION(name).test(block)),
+      extraSections: [...new Set(labels.filter(label => !required.includes(label.toLowerCase())))],
+      acceptanceCriteria: criteria,
+    };
+  });
+}
+
+/**
+ * Problems with a markdown roadmap, one per task; empty for replies without tasks,
+ * such as clarifying questions.
+ */
+export function roadmapFormatProblems(markdown: string): string[] {
+  return extractTasks(markdown).flatMap(task => [
+    ...(task.missing.length ? [`${task.heading} is missing ${task.missing.join(', ')}`] : []),
+    ...(task.extraSections.length ? [`${task.heading} adds sections that aren't part of the format: ${task.extraSections.join(', ')}`] : []),
+  ]);
+}
+
+/**
+ * Follow-up message asking the model to resend its reply with the problems fixed.
+ */
+export function repairPrompt(problems: string[], structured: boolean): string {
+  return [
+    'Your previous reply does not follow the required format:',
+    ...problems.map(p => `- ${p}`),
+    '',
+    structured
+      ? 'Send the complete roadmap again as JSON matching the schema, with every task filled in. Keep the content otherwise unchanged.'
+      : `Send the complete roadmap again. Every task must have exactly these sections: ${REQUIRED_TASK_SECTIONS.map(s => `**${s}**`).join(', ')}. Move any other details into those sections and keep the content otherwise unchanged.`,
+  ].join('\n');
+}
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { type RoadmapTask, parseRoadmap, roadmapToMarkdown, validateRoadmap } from './roadmap';
+
+const task = (id: string, extra: Partial<RoadmapTask> = {}): RoadmapTask => ({
+  id,
+  title: `Task ${id}`,
+  description: 'Do the thing.',
+  acceptanceCriteria: ['The thing is done'],
+  implementationPrompt: 'Do it.',
+  dependencies: [],
+  parallelizable: false,
+  repository: null,
+  ...extra,
+});
+
+const roadmap = <T>(tasks: T[]) => ({ title: 'T', summary: 'S', questions: [], phases: [{ id: '1', name: 'Phase 1', goal: 'G', tasks }] });
+
+describe('parseRoadmap', () => {
+  it('reports invalid JSON without a roadmap', () => {
+    const result = parseRoadmap('{"title":');
+    assert.equal(result.roadmap, null);
+    assert.match(result.errors[0], /^Invalid JSON: /);
+  });
+
+  it('parses a valid roadmap without errors', () => {
+    const result = parseRoadmap(JSON.stringify(roadmap([task('1.1'), task('1.2', { dependencies: ['1.1'] })])));
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.roadmap?.phases[0].tasks.length, 2);
+  });
+});
+
+describe('validateRoadmap', () => {
+  it('rejects values without a phases array', () => {
+    assert.deepEqual(validateRoadmap([]), { roadmap: null, errors: ['Roadmap.phases must be an array'] });
+    assert.deepEqual(validateRoadmap('x'), { roadmap: null, errors: ['Roadmap must be a JSON object'] });
+  });
+
+  it('keeps the roadmap but reports missing task content', () => {
+    const result = validateRoadmap(roadmap([task('1.1', { description: ' ', acceptanceCriteria: [], implementationPrompt: '' })]));
+    assert.ok(result.roadmap);
+    assert.deepEqual(result.errors, [
+      'phases[0].tasks[0] (1.1) is missing a description',
+      'phases[0].tasks[0] (1.1) has no acceptance criteria',
+      'phases[0].tasks[0] (1.1) is missing an implementation prompt',
+    ]);
+  });
+
+  it('reports duplicate IDs, unknown and self dependencies', () => {
+    const { errors } = validateRoadmap(roadmap([
+      task('1.1', { dependencies: ['1.1', '9.9'] }),
+      task('1.1'),
+    ]));
+    assert.deepEqual(errors, [
+      'Duplicate task ID "1.1"',
+      'Task "1.1" depends on itself',
+      'Task "1.1" depends on unknown task "9.9"',
+    ]);
+  });
+
+  it('reports dependency cycles once', () => {
+    const { errors } = validateRoadmap(roadmap([
+      task('1', { dependencies: ['3'] }),
+      task('2', { dependencies: ['1'] }),
+      task('3', { dependencies: ['2'] }),
+    ]));
+    assert.deepEqual(errors, ['Dependency cycle involving task "1"']);
+  });
+
+  it('reads a missing repository as the active one and rejects malformed ones', () => {
+    const legacy: Record<string, unknown> = { ...task('1') };
+    delete legacy.repository;
+    assert.deepEqual(validateRoadmap(roadmap([legacy])).errors, []);
+    assert.deepEqual(validateRoadmap(roadmap([task('1', { repository: 'not a repo' })])).errors, [
+      'phases[0].tasks[0] (1) names an invalid repository "not a repo"; use owner/name',
+    ]);
+  });
+});
+
+describe('roadmapToMarkdown', () => {
+  it('renders questions, the task sections and the task notes', () => {
+    const markdown = roadmapToMarkdown({
+      ...roadmap([task('1.2', { dependencies: ['1.1'], parallelizable: true, repository: 'acme/api' })]),
+      questions: ['Which cloud?'],
+    });
+    assert.match(markdown, /^## Questions\n\n- Which cloud\?$/m);
+    assert.match(markdown, /^### Task 1\.2: Task 1\.2$/m);
+    assert.match(markdown, /^\*\*Acceptance Criteria\*\*:\n- The thing is done$/m);
+    assert.match(markdown, /^\*Repository: acme\/api · Depends on: 1\.1 · Can run in parallel\*$/m);
+  });
+});
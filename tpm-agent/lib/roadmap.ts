@@ -0,0 +1,258 @@
+// Structured roadmap types, the JSON schema requested from the model, and validation
+import type { ResponseFormatTextJSONSchemaConfig } from 'openai/resources/responses/responses';
+import { isRecord } from './util';
+
+export interface RoadmapTask {
+  // Stable reference used by dependencies, e.g. "1.2"
+  id: string;
+  title: string;
+  description: string;
+  acceptanceCriteria: string[];
+  implementationPrompt: string;
+  // IDs of tasks that must be finished first
+  dependencies: string[];
+  // Whether the task can run alongside the other tasks of its phase
+  parallelizable: boolean;
+  // owner/name of the repository the issue belongs in when planning a program; null for the active repository
+  repository: string | null;
+}
+
+export interface RoadmapPhase {
+  id: string;
+  name: string;
+  goal: string;
+  tasks: RoadmapTask[];
+}
+
+export interface Roadmap {
+  title: string;
+  summary: string;
+  // Clarifying questions; a roadmap with questions and no phases is waiting on the user
+  questions: string[];
+  phases: RoadmapPhase[];
+}
+
+export interface RoadmapParseResult {
+  roadmap: Roadmap | null;
+  errors: string[];
+}
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const TASK_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['id', 'title', 'description', 'acceptanceCriteria', 'implementationPrompt', 'dependencies', 'parallelizable', 'repository'],
+  properties: {
+    id: { type: 'string', description: 'Task number within the roadmap, e.g. "1.2"' },
+    title: { type: 'string' },
+    description: { type: 'string', description: 'Clear, actionable task summary' },
+    acceptanceCriteria: { ...stringArray, description: 'Specific, testable requirements' },
+    implementationPrompt: { type: 'string', description: 'Detailed prompt for executing this task' },
+    dependencies: { ...stringArray, description: 'IDs of tasks that must be completed first' },
+    parallelizable: { type: 'boolean', description: 'True if the task can be worked on in parallel with others in its phase' },
+    repository: {
+      type: ['string', 'null'],
+      description: 'Full name (owner/name) of the repository the task belongs to when the active context is a program; null otherwise',
+    },
+  },
+};
+
+/**
+ * Response format that makes the model answer with a Roadmap object.
+ */
+export const ROADMAP_RESPONSE_FORMAT: ResponseFormatTextJSONSchemaConfig = {
+  type: 'json_schema',
+  name: 'roadmap',
+  description: 'Project roadmap split into phases of incremental, testable tasks',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['title', 'summary', 'questions', 'phases'],
+    properties: {
+      title: { type: 'string' },
+      summary: { type: 'string' },
+      questions: { ...stringArray, description: 'Clarifying questions; leave phases empty until they are answered' },
+      phases: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['id', 'name', 'goal', 'tasks'],
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            goal: { type: 'string' },
+            tasks: { type: 'array', items: TASK_SCHEMA },
+          },
+        },
+      },
+    },
+  },
+};
+
+function readString(source: Record<string, unknown>, key: string, path: string, errors: string[]): string {
+  const value = source[key];
+  if (typeof value !== 'string') {
+    errors.push(`${path}.${key} must be a string`);
+    return '';
+  }
+  return value;
+}
+
+function readStringArray(source: Record<string, unknown>, key: string, path: string, errors: string[]): string[] {
+  const value = source[key];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    errors.push(`${path}.${key} must be an array of strings`);
+    return [];
+  }
+  return value as string[];
+}
+
+function readTask(value: unknown, path: string, errors: string[]): RoadmapTask | null {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const task: RoadmapTask = {
+    id: readString(value, 'id', path, errors),
+    title: readString(value, 'title', path, errors),
+    description: readString(value, 'description', path, errors),
+    acceptanceCriteria: readStringArray(value, 'acceptanceCriteria', path, errors),
+    implementationPrompt: readString(value, 'implementationPrompt', path, errors),
+    dependencies: readStringArray(value, 'dependencies', path, errors),
+    parallelizable: value.parallelizable === true,
+    // Absent on roadmaps saved before programs existed
+    repository: typeof value.repository === 'string' && value.repository.trim() ? value.repository.trim() : null,
+  };
+  if (typeof value.parallelizable !== 'boolean') {
+    errors.push(`${path}.parallelizable must be a boolean`);
+  }
+  if (value.repository !== undefined && value.repository !== null && typeof value.repository !== 'string') {
+    errors.push(`${path}.repository must be a string or null`);
+  } else if (task.repository && !/^[\w.-]+\/[\w.-]+$/.test(task.repository)) {
+    errors.push(`${path} (${task.id}) names an invalid repository "${task.repository}"; use owner/name`);
+  }
+  if (!task.description.trim()) errors.push(`${path} (${task.id}) is missing a description`);
+  if (task.acceptanceCriteria.length === 0) errors.push(`${path} (${task.id}) has no acceptance criteria`);
+  if (!task.implementationPrompt.trim()) errors.push(`${path} (${task.id}) is missing an implementation prompt`);
+  return task;
+}
+
+/**
+ * Every task of a roadmap, in phase order.
+ */
+export function roadmapTasks(roadmap: Roadmap): RoadmapTask[] {
+  return roadmap.phases.flatMap(phase => phase.tasks);
+}
+
+// Unique task IDs, dependencies that point at existing tasks, and no cycles
+function checkDependencies(roadmap: Roadmap, errors: string[]): void {
+  const tasks = roadmapTasks(roadmap);
+  const byId = new Map<string, RoadmapTask>();
+  for (const task of tasks) {
+    if (byId.has(task.id)) errors.push(`Duplicate task ID "${task.id}"`);
+    byId.set(task.id, task);
+  }
+  for (const task of tasks) {
+    for (const dependency of task.dependencies) {
+      if (dependency === task.id) errors.push(`Task "${task.id}" depends on itself`);
+      else if (!byId.has(dependency)) errors.push(`Task "${task.id}" depends on unknown task "${dependency}"`);
+    }
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (task: RoadmapTask): boolean => {
+    if (state.get(task.id) === 'done') return false;
+    if (state.get(task.id) === 'visiting') return true;
+    state.set(task.id, 'visiting');
+    const cyclic = task.dependencies.some(id => id !== task.id && byId.has(id) && visit(byId.get(id)!));
+    state.set(task.id, 'done');
+    return cyclic;
+  };
+  for (const task of tasks) {
+    if (!state.has(task.id) && visit(task)) {
+      errors.push(`Dependency cycle involving task "${task.id}"`);
+    }
+  }
+}
+
+/**
+ * Validate a value against the Roadmap shape. Structural problems make the roadmap
+ * null; content problems (missing sections, bad dependencies) are reported but keep it.
+ */
+export function validateRoadmap(value: unknown): RoadmapParseResult {
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    return { roadmap: null, errors: ['Roadmap must be a JSON object'] };
+  }
+  if (!Array.isArray(value.phases)) {
+    return { roadmap: null, errors: ['Roadmap.phases must be an array'] };
+  }
+
+  const roadmap: Roadmap = {
+    title: readString(value, 'title', 'Roadmap', errors),
+    summary: readString(value, 'summary', 'Roadmap', errors),
+    questions: readStringArray(value, 'questions', 'Roadmap', errors),
+    phases: value.phases.flatMap((phase, p): RoadmapPhase[] => {
+      const path = `phases[${p}]`;
+      if (!isRecord(phase) || !Array.isArray(phase.tasks)) {
+        errors.push(`${path} must be an object with a tasks array`);
+        return [];
+      }
+      return [{
+        id: readString(phase, 'id', path, errors),
+        name: readString(phase, 'name', path, errors),
+        goal: readString(phase, 'goal', path, errors),
+        tasks: phase.tasks
+          .map((task, t) => readTask(task, `${path}.tasks[${t}]`, errors))
+          .filter((task): task is RoadmapTask => task !== null),
+      }];
+    }),
+  };
+  checkDependencies(roadmap, errors);
+  return { roadmap, errors };
+}
+
+/**
+ * Parse the model's JSON answer into a Roadmap.
+ */
+export function parseRoadmap(text: string): RoadmapParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { roadmap: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  return validateRoadmap(value);
+}
+
+/**
+ * Render a roadmap in the markdown layout the roadmap persona uses.
+ */
+export function roadmapToMarkdown(roadmap: Roadmap): string {
+  const lines: string[] = [];
+  if (roadmap.title) lines.push(`# ${roadmap.title}`, '');
+  if (roadmap.summary) lines.push(roadmap.summary, '');
+  if (roadmap.questions.length > 0) {
+    lines.push('## Questions', '', ...roadmap.questions.map(q => `- ${q}`), '');
+  }
+  for (const phase of roadmap.phases) {
+    lines.push(`## ${phase.name}`, '');
+    if (phase.goal) lines.push(phase.goal, '');
+    for (const task of phase.tasks) {
+      lines.push(`### Task ${task.id}: ${task.title}`, '');
+      lines.push(`**Description**: ${task.description}`, '');
+      lines.push('**Acceptance Criteria**:', ...task.acceptanceCriteria.map(c => `- ${c}`), '');
+      lines.push(`**Implementation Prompt**: ${task.implementationPrompt}`, '');
+      const notes = [
+        task.repository ? `Repository: ${task.repository}` : '',
+        task.dependencies.length > 0 ? `Depends on: ${task.dependencies.join(', ')}` : '',
+        task.parallelizable ? 'Can run in parallel' : '',
+      ].filter(Boolean);
+      if (notes.length > 0) lines.push(`*${notes.join(' · ')}*`, '');
+    }
+  }
+  return lines.join('\n').trim();
+}
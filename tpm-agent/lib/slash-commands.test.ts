@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  type CommandContext,
+  isSlashCommand,
+  parseDateTime,
+  parseDuration,
+  parseSlashCommand,
+  slashSuggestions,
+} from './slash-commands';
+
+const context: CommandContext = {
+  personas: [
+    { id: 'roadmap', name: 'Roadmap Planner', description: '', tools: [] },
+    { id: 'reviewer', name: 'Reviewer', description: '', tools: [] },
+  ],
+  repositories: ['acme/api', 'acme/web'],
+  now: new Date(2026, 9, 19, 12, 0),
+};
+
+describe('isSlashCommand', () => {
+  it('accepts a leading slash after whitespace and lets "//" escape it', () => {
+    assert.equal(isSlashCommand('  /email'), true);
+    assert.equal(isSlashCommand('//email'), false);
+    assert.equal(isSlashCommand('email /now'), false);
+  });
+});
+
+describe('parseDateTime', () => {
+  const now = new Date(2026, 9, 19, 12, 0);
+
+  it('reads a bare date as local midnight', () => {
+    assert.equal(parseDateTime('2026-11-03', now)?.getTime(), new Date(2026, 10, 3).getTime());
+  });
+
+  it('reads relative days and times of today', () => {
+    assert.equal(parseDateTime('tomorrow 9:30', now)?.getTime(), new Date(2026, 9, 20, 9, 30).getTime());
+    assert.equal(parseDateTime('14:00', now)?.getTime(), new Date(2026, 9, 19, 14, 0).getTime());
+  });
+
+  it('rejects dates and times that don\'t exist', () => {
+    assert.equal(parseDateTime('2026-02-30', now), null);
+    assert.equal(parseDateTime('24:00', now), null);
+    assert.equal(parseDateTime('2026-10-20 10:60', now), null);
+    assert.equal(parseDateTime('next week', now), null);
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads minutes, hours and both', () => {
+    assert.equal(parseDuration('90'), 90);
+    assert.equal(parseDuration('45m'), 45);
+    assert.equal(parseDuration('1h30m'), 90);
+  });
+
+  it('rejects empty and zero durations', () => {
+    assert.equal(parseDuration('0'), null);
+    assert.equal(parseDuration('0h0m'), null);
+    assert.equal(parseDuration('h'), null);
+    assert.equal(parseDuration('soon'), null);
+  });
+});
+
+describe('parseSlashCommand', () => {
+  it('returns null for plain messages', () => {
+    assert.equal(parseSlashCommand('hello', context), null);
+  });
+
+  it('reports unknown commands', () => {
+    assert.deepEqual(parseSlashCommand('/nope', context)?.errors, ['Unknown command /nope']);
+    assert.deepEqual(parseSlashCommand('/', context)?.errors, ['Type a command name after the slash']);
+  });
+
+  it('reads quoted named values and keeps the free text verbatim', () => {
+    const parsed = parseSlashCommand('/email to:a@example.com,b@example.com subject:"Sprint 12 review" Hi all,\nnotes attached.', context);
+    assert.deepEqual(parsed?.errors, []);
+    assert.deepEqual(parsed?.args, {
+      to: ['a@example.com', 'b@example.com'],
+      subject: 'Sprint 12 review',
+      body: 'Hi all,\nnotes attached.',
+    });
+  });
+
+  it('reports missing required arguments and invalid values', () => {
+    const parsed = parseSlashCommand('/email to:not-an-address', context);
+    assert.deepEqual(parsed?.errors, [
+      'to: not an email address: not-an-address',
+      'Missing subject: Subject line',
+      'Missing body: Message text',
+    ]);
+  });
+
+  it('reports an argument given twice', () => {
+    const parsed = parseSlashCommand('/email to:a@example.com to:b@example.com subject:Hi Body', context);
+    assert.ok(parsed?.errors.includes('to is given more than once'));
+  });
+
+  it('converts typed arguments and fills in defaults', () => {
+    const parsed = parseSlashCommand('/meeting with:a@example.com at:"tomorrow 10:00" Planning', context);
+    assert.deepEqual(parsed?.errors, []);
+    assert.equal(parsed?.args.at, new Date(2026, 9, 20, 10, 0).toISOString());
+    assert.equal(typeof parsed?.args.for, 'number');
+    assert.equal(parsed?.args.subject, 'Planning');
+  });
+
+  it('matches enum options case-insensitively and returns the listed spelling', () => {
+    const parsed = parseSlashCommand('/issues state:CLOSED repo:acme/web', context);
+    assert.deepEqual(parsed?.errors, []);
+    assert.equal(parsed?.args.state, 'closed');
+    assert.equal(parsed?.args.repo, 'acme/web');
+    assert.deepEqual(parseSlashCommand('/issues state:stale', context)?.errors, ['state: "stale" is not one of open, closed, all']);
+  });
+
+  it('fills positional arguments from the leading tokens', () => {
+    const parsed = parseSlashCommand('/persona Reviewer', context);
+    assert.deepEqual(parsed?.errors, []);
+    assert.equal(parsed?.args.id, 'reviewer');
+  });
+
+  it('rejects tokens a command without free text has no place for', () => {
+    const parsed = parseSlashCommand('/persona reviewer extra', context);
+    assert.equal(parsed?.errors.length, 1);
+    assert.match(parsed!.errors[0], /^Unexpected "extra"/);
+  });
+});
+
+describe('slashSuggestions', () => {
+  it('completes command names', () => {
+    assert.deepEqual(slashSuggestions('/me', context).map(s => s.value), ['/meeting ']);
+  });
+
+  it('suggests argument names that are not used yet', () => {
+    const labels = slashSuggestions('/email to:a@example.com s', context).map(s => s.label);
+    assert.deepEqual(labels, ['subject:']);
+  });
+
+  it('completes enum options of the argument being typed', () => {
+    assert.deepEqual(slashSuggestions('/issues repo:acme/w', context).map(s => s.value), ['/issues repo:acme/web ']);
+  });
+
+  it('completes a positional enum right after the command name', () => {
+    assert.deepEqual(slashSuggestions('/persona r', context).map(s => s.label), ['roadmap', 'reviewer']);
+  });
+});
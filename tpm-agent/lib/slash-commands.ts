@@ -0,0 +1,301 @@
+// Slash commands typed in the chat: registry, argument parsing and autocomplete suggestions.
+//
+// Syntax: /name [positional...] [key:value ...] [free text]
+// Values with spaces are quoted (subject:"Sprint 12 review"). Everything after the named and
+// positional arguments is the free text, kept verbatim including line breaks.
+import type { PersonaSummary } from './personas';
+import { builtinCommands } from './builtin-commands';
+
+export type CommandArgType = 'string' | 'email' | 'emails' | 'datetime' | 'duration' | 'number' | 'enum' | 'text';
+
+export type CommandArgValue = string | string[] | number;
+
+export interface CommandContext {
+  personas: PersonaSummary[];
+  // owner/name of every repository in the active context
+  repositories: string[];
+  now?: Date;
+}
+
+export interface CommandArg {
+  name: string;
+  type: CommandArgType;
+  description: string;
+  required?: boolean;
+  // Filled from the leading free tokens, in order, instead of key:value
+  positional?: boolean;
+  // Takes the free text; at most one per command
+  rest?: boolean;
+  // Allowed values of enum arguments
+  options?: string[] | ((context: CommandContext) => string[]);
+  // Value used when the argument is left out
+  default?: CommandArgValue;
+}
+
+/**
+ * What the chat does with a parsed command.
+ */
+export type CommandAction =
+  // Sent to the agent as the user's message
+  | { type: 'prompt'; message: string }
+  | { type: 'sendEmail'; to: string[]; subject: string; body: string }
+  | { type: 'createMeeting'; subject: string; start: string; end: string; attendees: string[]; body?: string }
+  | { type: 'createPlannerTask'; planId: string; title: string }
+  | { type: 'setPersona'; personaId: string };
+
+export type CommandArgs = Record<string, CommandArgValue | undefined>;
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  args: CommandArg[];
+  run: (args: CommandArgs, context: CommandContext) => CommandAction;
+}
+
+export interface ParsedCommand {
+  name: string;
+  command: SlashCommand | null;
+  args: CommandArgs;
+  // Problems to show inline; the command only runs without any
+  errors: string[];
+}
+
+export interface SlashSuggestion {
+  label: string;
+  detail: string;
+  // Input after accepting the suggestion
+  value: string;
+}
+
+const registry = new Map<string, SlashCommand>(builtinCommands.map(command => [command.name, command]));
+
+/**
+ * Add a command, replacing any command with the same name.
+ */
+export function registerSlashCommand(command: SlashCommand): void {
+  registry.set(command.name.toLowerCase(), command);
+}
+
+export function getSlashCommands(): SlashCommand[] {
+  return [...registry.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function findSlashCommand(name: string): SlashCommand | null {
+  return registry.get(name.toLowerCase()) ?? null;
+}
+
+/**
+ * Whether the input should be handled as a command. A leading "//" escapes the slash.
+ */
+export function isSlashCommand(input: string): boolean {
+  const trimmed = input.trimStart();
+  return trimmed.startsWith('/') && !trimmed.startsWith('//');
+}
+
+export function argOptions(arg: CommandArg, context: CommandContext): string[] {
+  if (!arg.options) return [];
+  return typeof arg.options === 'function' ? arg.options(context) : arg.options;
+}
+
+export function commandUsage(command: SlashCommand): string {
+  const parts = command.args.map(arg => {
+    const text = arg.positional || arg.rest ? `<${arg.name}>` : `${arg.name}:<${arg.type === 'enum' ? 'option' : arg.type}>`;
+    return arg.required ? text : `[${text}]`;
+  });
+  return [`/${command.name}`, ...parts].join(' ');
+}
+
+interface Token {
+  text: string;
+  start: number;
+}
+
+// Whitespace-separated tokens; double quotes group words and are dropped
+function nextToken(source: string, from: number): Token | null {
+  let i = from;
+  while (i < source.length && /\s/.test(source[i])) i++;
+  if (i >= source.length) return null;
+  const start = i;
+  let text = '';
+  let quoted = false;
+  for (; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && /\s/.test(char)) {
+      break;
+    } else {
+      text += char;
+    }
+  }
+  return { text, start };
+}
+
+function tokenEnd(source: string, token: Token): number {
+  let i = token.start;
+  let quoted = false;
+  for (; i < source.length; i++) {
+    if (source[i] === '"') quoted = !quoted;
+    else if (!quoted && /\s/.test(source[i])) break;
+  }
+  return i;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// "2026-10-20" (midnight), "2026-10-20 14:00", "2026-10-20T14:00", "today 15:30", "tomorrow 9:00" or "14:00" (today)
+export function parseDateTime(value: string, now = new Date()): Date | null {
+  const text = value.trim().toLowerCase();
+  const relative = /^(?:(today|tomorrow)\s+)?(\d{1,2}):(\d{2})$/.exec(text);
+  if (relative) {
+    const [, day, hours, minutes] = relative;
+    const date = new Date(now);
+    if (day === 'tomorrow') date.setDate(date.getDate() + 1);
+    date.setHours(Number(hours), Number(minutes), 0, 0);
+    return Number(hours) < 24 && Number(minutes) < 60 ? date : null;
+  }
+  const absolute = /^(\d{4})-(\d{2})-(\d{2})(?:[ t](\d{1,2}):(\d{2}))?$/.exec(text);
+  if (!absolute) return null;
+  // Local time, also for a bare date (which Date would read as UTC midnight)
+  const [year, month, day, hours = 0, minutes = 0] = absolute.slice(1).map(part => Number(part ?? 0));
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return date.getMonth() === month - 1 && date.getDate() === day && hours < 24 && minutes < 60 ? date : null;
+}
+
+// "30m", "1h", "1h30m", "90" (minutes) -> minutes
+export function parseDuration(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (/^\d+$/.test(text)) return Number(text) || null;
+  const match = /^(?:(\d+)h)?(?:(\d+)m)?$/.exec(text);
+  if (!match || (!match[1] && !match[2])) return null;
+  return Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0) || null;
+}
+
+function convert(arg: CommandArg, value: string, context: CommandContext): { value?: CommandArgValue; error?: string } {
+  switch (arg.type) {
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? { value } : { error: `${arg.name}: "${value}" is not an email address` };
+    case 'emails': {
+      const emails = value.split(',').map(v => v.trim()).filter(Boolean);
+      const invalid = emails.filter(email => !EMAIL_PATTERN.test(email));
+      if (emails.length === 0) return { error: `${arg.name}: give at least one email address` };
+      return invalid.length ? { error: `${arg.name}: not an email address: ${invalid.join(', ')}` } : { value: emails };
+    }
+    case 'datetime': {
+      const date = parseDateTime(value, context.now);
+      return date
+        ? { value: date.toISOString() }
+        : { error: `${arg.name}: "${value}" is not a date and time; use YYYY-MM-DD HH:MM, "tomorrow 10:00" or HH:MM` };
+    }
+    case 'duration': {
+      const minutes = parseDuration(value);
+      return minutes ? { value: minutes } : { error: `${arg.name}: "${value}" is not a duration; use e.g. 30m, 1h or 1h30m` };
+    }
+    case 'number': {
+      const number = Number(value);
+      return Number.isInteger(number) && number > 0 ? { value: number } : { error: `${arg.name}: "${value}" is not a positive whole number` };
+    }
+    case 'enum': {
+      const options = argOptions(arg, context);
+      const match = options.find(option => option.toLowerCase() === value.toLowerCase());
+      return match ? { value: match } : { error: `${arg.name}: "${value}" is not one of ${options.join(', ')}` };
+    }
+    default:
+      return value.trim() ? { value: value.trim() } : { error: `${arg.name} is empty` };
+  }
+}
+
+/**
+ * Parse a command typed in the chat; null when the input isn't a slash command.
+ */
+export function parseSlashCommand(input: string, context: CommandContext): ParsedCommand | null {
+  if (!isSlashCommand(input)) return null;
+  const source = input.trimStart().slice(1);
+  const head = nextToken(source, 0);
+  const name = head?.text.toLowerCase() ?? '';
+  const command = findSlashCommand(name);
+  if (!command) {
+    return { name, command: null, args: {}, errors: [name ? `Unknown command /${name}` : 'Type a command name after the slash'] };
+  }
+
+  const errors: string[] = [];
+  const raw: Record<string, string> = {};
+  const positional = command.args.filter(arg => arg.positional);
+  const restArg = command.args.find(arg => arg.rest);
+  let position = head ? tokenEnd(source, head) : source.length;
+
+  for (let token = nextToken(source, position); token; token = nextToken(source, position)) {
+    const named = /^([a-z][\w-]*):([\s\S]*)$/i.exec(token.text);
+    const arg = named && command.args.find(a => a.name === named[1].toLowerCase() && !a.rest && !a.positional);
+    if (named && arg) {
+      if (raw[arg.name] !== undefined) errors.push(`${arg.name} is given more than once`);
+      raw[arg.name] = named[2];
+    } else if (positional.some(a => raw[a.name] === undefined)) {
+      raw[positional.find(a => raw[a.name] === undefined)!.name] = token.text;
+    } else if (restArg) {
+      raw[restArg.name] = source.slice(token.start).trim();
+      break;
+    } else {
+      errors.push(`Unexpected "${token.text}"; see ${commandUsage(command)}`);
+      break;
+    }
+    position = tokenEnd(source, token);
+  }
+
+  const args: CommandArgs = {};
+  for (const arg of command.args) {
+    if (raw[arg.name] === undefined) {
+      if (arg.required) errors.push(`Missing ${arg.name}: ${arg.description}`);
+      else if (arg.default !== undefined) args[arg.name] = arg.default;
+      continue;
+    }
+    const result = convert(arg, raw[arg.name], context);
+    if (result.error) errors.push(result.error);
+    else args[arg.name] = result.value;
+  }
+
+  return { name, command, args, errors };
+}
+
+/**
+ * Completions for the input: command names while the name is typed, then argument names
+ * and enum options for the token being typed.
+ */
+export function slashSuggestions(input: string, context: CommandContext): SlashSuggestion[] {
+  if (!isSlashCommand(input)) return [];
+  const source = input.trimStart();
+
+  const partialName = /^\/([\w-]*)$/.exec(source);
+  if (partialName) {
+    return getSlashCommands()
+      .filter(command => command.name.startsWith(partialName[1].toLowerCase()))
+      .map(command => ({ label: `/${command.name}`, detail: command.description, value: `/${command.name} ` }));
+  }
+
+  const command = findSlashCommand(/^\/([\w-]+)/.exec(source)?.[1] ?? '');
+  if (!command) return [];
+  const current = /(\S*)$/.exec(source)?.[1] ?? '';
+  const before = source.slice(0, source.length - current.length);
+
+  const option = /^([\w-]+):"?([^"\s]*)$/.exec(current);
+  if (option) {
+    const arg = command.args.find(a => a.name === option[1].toLowerCase());
+    if (!arg) return [];
+    return argOptions(arg, context)
+      .filter(value => value.toLowerCase().startsWith(option[2].toLowerCase()))
+      .map(value => ({ label: value, detail: arg.description, value: `${before}${arg.name}:${value} ` }));
+  }
+
+  // Positional enum arguments (e.g. /persona <name>) complete right after the command name
+  const firstPositional = command.args.find(a => a.positional);
+  if (firstPositional?.type === 'enum' && /^\/[\w-]+\s+$/.test(before)) {
+    return argOptions(firstPositional, context)
+      .filter(value => value.toLowerCase().startsWith(current.toLowerCase()))
+      .map(value => ({ label: value, detail: firstPositional.description, value: `${before}${value} ` }));
+  }
+
+  const used = new Set([...source.matchAll(/(?:^|\s)([\w-]+):/g)].map(m => m[1].toLowerCase()));
+  return command.args
+    .filter(arg => !arg.rest && !arg.positional && !used.has(arg.name) && arg.name.startsWith(current.toLowerCase()))
+    .map(arg => ({ label: `${arg.name}:`, detail: `${arg.description}${arg.required ? '' : ' (optional)'}`, value: `${before}${arg.name}:` }));
+}
@@ -0,0 +1,185 @@
+// Sprint milestone planning: dates, titles and dependency-ordered issue distribution
+
+export const DEFAULT_SPRINT_LENGTH_DAYS = 14;
+export const DEFAULT_SPRINT_PREFIX = 'Sprint';
+// Longest plan accepted in one go
+export const MAX_SPRINT_COUNT = 26;
+// Leaves room for the sprint number within GitHub's milestone title limit
+export const MAX_SPRINT_PREFIX_LENGTH = 60;
+
+export interface SprintPlanInput {
+  // First day of the first sprint, YYYY-MM-DD
+  startDate: string;
+  lengthDays: number;
+  count: number;
+  prefix?: string;
+}
+
+export interface SprintDefinition {
+  index: number;
+  title: string;
+  startDate: string;
+  // Last day of the sprint, YYYY-MM-DD
+  endDate: string;
+  description: string;
+}
+
+export interface SprintMilestone {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  html_url: string;
+  startDate: string | null;
+  endDate: string | null;
+  open_issues: number;
+  closed_issues: number;
+}
+
+export interface SprintAssignment {
+  issueNumber: number;
+  // Index into the plan's sprints
+  sprint: number;
+}
+
+export interface SprintApplyResult {
+  milestones: Array<{ sprint: number; title: string; number: number; html_url: string; status: 'created' | 'updated' }>;
+  assigned: Array<{ issueNumber: number; milestone: string }>;
+  failed: Array<{ issueNumber: number; error: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_PATTERN = /Sprint window: (\d{4}-\d{2}-\d{2}) → (\d{4}-\d{2}-\d{2})/;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+/**
+ * Check a plan request; returns a message describing the first problem, or null.
+ */
+export function validateSprintPlan(input: Partial<SprintPlanInput>): string | null {
+  if (!isIsoDate(input.startDate)) return 'startDate must be a YYYY-MM-DD date';
+  if (!Number.isInteger(input.lengthDays) || input.lengthDays! < 1 || input.lengthDays! > 60) return 'lengthDays must be between 1 and 60';
+  if (!Number.isInteger(input.count) || input.count! < 1 || input.count! > MAX_SPRINT_COUNT) return `count must be between 1 and ${MAX_SPRINT_COUNT}`;
+  if (input.prefix !== undefined &&
+      (typeof input.prefix !== 'string' || !input.prefix.trim() || input.prefix.trim().length > MAX_SPRINT_PREFIX_LENGTH)) {
+    return `prefix must be text of at most ${MAX_SPRINT_PREFIX_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Consecutive sprints starting on startDate. Titles are stable so re-running a plan
+ * updates the same milestones instead of creating new ones.
+ */
+export function planSprints({ startDate, lengthDays, count, prefix = DEFAULT_SPRINT_PREFIX }: SprintPlanInput): SprintDefinition[] {
+  return Array.from({ length: count }, (_, index) => {
+    const start = addDays(startDate, index * lengthDays);
+    const end = addDays(start, lengthDays - 1);
+    return {
+      index,
+      title: `${prefix.trim()} ${index + 1}`,
+      startDate: start,
+      endDate: end,
+      description: `Sprint window: ${start} → ${end}`,
+    };
+  });
+}
+
+/**
+ * Start and end dates recorded in a sprint milestone's description.
+ */
+export function parseSprintWindow(description: string | null | undefined): { startDate: string; endDate: string } | null {
+  const match = description?.match(WINDOW_PATTERN);
+  return match ? { startDate: match[1], endDate: match[2] } : null;
+}
+
+/**
+ * Issue numbers an issue body says it depends on: references listed under a
+ * "Dependencies" heading, or written as "depends on #12" / "blocked by #12".
+ */
+export function parseIssueDependencies(body: string | null | undefined): number[] {
+  if (!body) return [];
+  const numbers = new Set<number>();
+  let inSection = false;
+  for (const line of body.split('\n')) {
+    if (/^#+\s/.test(line)) {
+      inSection = /^#+\s*Dependencies\b/i.test(line);
+    } else if (inSection) {
+      for (const match of line.matchAll(/#(\d+)/g)) numbers.add(Number(match[1]));
+    }
+  }
+  for (const match of body.matchAll(/\b(?:depends on|blocked by)\s+#(\d+)/gi)) {
+    numbers.add(Number(match[1]));
+  }
+  return [...numbers];
+}
+
+/**
+ * Spread issues evenly over sprintCount sprints without scheduling an issue
+ * before anything it depends on. Issues keep their given order where
+ * dependencies allow; dependencies outside the selection are ignored.
+ */
+export function distributeIssues(
+  issues: Array<{ number: number; dependencies: number[] }>,
+  sprintCount: number
+): SprintAssignment[] {
+  const selected = new Map(issues.map(issue => [issue.number, issue.dependencies.filter(d => d !== issue.number)]));
+
+  // Stable topological order; cycles are broken by falling back to input order
+  const ordered: number[] = [];
+  const placed = new Set<number>();
+  while (ordered.length < issues.length) {
+    const next = issues.find(issue =>
+      !placed.has(issue.number) &&
+      selected.get(issue.number)!.every(d => placed.has(d) || !selected.has(d))
+    ) ?? issues.find(issue => !placed.has(issue.number))!;
+    ordered.push(next.number);
+    placed.add(next.number);
+  }
+
+  const capacity = Math.max(1, Math.ceil(issues.length / sprintCount));
+  const load = new Array<number>(sprintCount).fill(0);
+  const sprintOf = new Map<number, number>();
+  for (const number of ordered) {
+    let sprint = Math.max(0, ...selected.get(number)!.map(d => sprintOf.get(d) ?? 0));
+    while (sprint < sprintCount - 1 && load[sprint] >= capacity) sprint++;
+    load[sprint]++;
+    sprintOf.set(number, sprint);
+  }
+
+  return issues.map(issue => ({ issueNumber: issue.number, sprint: sprintOf.get(issue.number)! }));
+}
+
+// Client-safe helpers that call our Next.js API route
+
+export async function fetchSprintMilestones(owner: string, repo: string): Promise<SprintMilestone[]> {
+  const res = await fetch(`/api/sprints?owner=${encodeURIComponent(owner)}&repo=${encodeURIComponent(repo)}`, { cache: 'no-store' });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Failed to fetch sprints (${res.status}): ${text}`);
+  }
+  return res.json();
+}
+
+export async function applySprintPlan(
+  owner: string,
+  repo: string,
+  plan: SprintPlanInput,
+  assignments: SprintAssignment[]
+): Promise<SprintApplyResult> {
+  const res = await fetch('/api/sprints', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ owner, repo, plan, assignments }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
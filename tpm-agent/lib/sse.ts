@@ -0,0 +1,31 @@
+// Client-side reader for the `data: ...` server-sent event streams our API routes return
+
+/**
+ * Yield the data payload of every event until the stream ends or sends `[DONE]`.
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Events can span reads; keep the trailing partial line for the next chunk
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        const data = line.slice(6);
+        if (data === '[DONE]') return;
+        yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
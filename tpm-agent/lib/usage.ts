@@ -0,0 +1,124 @@
+// Token usage accounting types, cost estimates and the client for /api/usage
+
+export interface TokenUsage {
+  inputTokens: number;
+  // Part of inputTokens served from the prompt cache
+  cachedTokens: number;
+  outputTokens: number;
+  // Part of outputTokens spent on reasoning
+  reasoningTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageRecord {
+  responseId: string;
+  // Model or deployment name the response was billed under
+  model: string;
+  createdAt: string;
+  usage: TokenUsage;
+}
+
+// USD per one million tokens
+export interface ModelPrice {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageTotals {
+  responses: number;
+  // Usage summed per model, so each can be priced separately
+  byModel: Record<string, TokenUsage>;
+}
+
+export interface UsageReport {
+  conversation: UsageTotals | null;
+  user: UsageTotals;
+  prices: PriceTable;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, cachedTokens: 0, outputTokens: 0, reasoningTokens: 0, totalTokens: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+/**
+ * Convert the `usage` object of a Responses API response; null when it is missing.
+ */
+export function usageFromResponse(usage: unknown): TokenUsage | null {
+  if (typeof usage !== 'object' || usage === null) return null;
+  const u = usage as {
+    input_tokens?: number;
+    input_tokens_details?: { cached_tokens?: number };
+    output_tokens?: number;
+    output_tokens_details?: { reasoning_tokens?: number };
+    total_tokens?: number;
+  };
+  if (typeof u.input_tokens !== 'number' || typeof u.output_tokens !== 'number') return null;
+  return {
+    inputTokens: u.input_tokens,
+    cachedTokens: u.input_tokens_details?.cached_tokens ?? 0,
+    outputTokens: u.output_tokens,
+    reasoningTokens: u.output_tokens_details?.reasoning_tokens ?? 0,
+    totalTokens: u.total_tokens ?? u.input_tokens + u.output_tokens,
+  };
+}
+
+export function totalUsage(records: UsageRecord[]): UsageTotals {
+  const byModel: Record<string, TokenUsage> = {};
+  for (const record of records) {
+    byModel[record.model] = addUsage(byModel[record.model] ?? emptyUsage(), record.usage);
+  }
+  return { responses: records.length, byModel };
+}
+
+export function combinedUsage(totals: UsageTotals): TokenUsage {
+  return Object.values(totals.byModel).reduce(addUsage, emptyUsage());
+}
+
+/**
+ * Price for a model: an exact match, else the longest table key the name starts with
+ * (so "gpt-4o-2024-08-06" uses "gpt-4o").
+ */
+export function findPrice(prices: PriceTable, model: string): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const key = Object.keys(prices)
+    .filter(k => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+/**
+ * Estimated cost in USD, or null when a model used has no price configured.
+ */
+export function estimateCost(totals: UsageTotals, prices: PriceTable): number | null {
+  let cost = 0;
+  for (const [model, usage] of Object.entries(totals.byModel)) {
+    const price = findPrice(prices, model);
+    if (!price) return null;
+    const uncachedInput = usage.inputTokens - usage.cachedTokens;
+    cost += (uncachedInput * price.input + usage.cachedTokens * price.cachedInput + usage.outputTokens * price.output) / 1_000_000;
+  }
+  return cost;
+}
+
+export async function fetchUsage(conversationId?: string | null): Promise<UsageReport> {
+  const url = conversationId ? `/api/usage?conversationId=${encodeURIComponent(conversationId)}` : '/api/usage';
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Failed to fetch usage (${res.status}): ${text}`);
+  }
+  return res.json();
+}
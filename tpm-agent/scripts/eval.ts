@@ -0,0 +1,70 @@
+// Offline evaluation of the planning prompts.
+//
+//   npm run eval                      replay recorded fixtures (no network)
+//   npm run eval -- --mode live       call the provider configured by LLM_PROVIDER
+//   npm run eval -- --mode record     call the provider and save the replies as fixtures
+//
+// Options: --scenario <id substring>, --scenarios <dir>, --fixtures <dir>, --out <dir>
+// With LLM_PROVIDER=mock, live and record modes answer from evals/mock-script.json unless LLM_MOCK_SCRIPT is set.
+// Exits with 1 when a scenario fails or errors.
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+
+config({ path: ['.env.local', '.env'], quiet: true });
+// Scripted replies for the scenario turns, so the offline live mode exercises the whole harness
+process.env.LLM_MOCK_SCRIPT ??= join('evals', 'mock-script.json');
+
+const MODES = ['replay', 'live', 'record'] as const;
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      mode: { type: 'string', default: 'replay' },
+      scenario: { type: 'string' },
+      scenarios: { type: 'string', default: join('evals', 'scenarios') },
+      fixtures: { type: 'string', default: join('evals', 'fixtures') },
+      out: { type: 'string', default: join('.data', 'evals') },
+    },
+  });
+  const mode = values.mode as typeof MODES[number];
+  if (!MODES.includes(mode)) {
+    console.error(`--mode must be one of ${MODES.join(', ')}`);
+    return 2;
+  }
+
+  // Imported after dotenv so the provider and logger see the environment
+  const { getLLMProvider } = await import('../lib/llm');
+  const { loadScenarios } = await import('../lib/eval/scenarios');
+  const { runScenario } = await import('../lib/eval/runner');
+  const { buildReport, writeReport } = await import('../lib/eval/report');
+
+  const scenarios = await loadScenarios(values.scenarios, values.scenario);
+  if (scenarios.length === 0) {
+    console.error(`No scenarios found in ${values.scenarios}${values.scenario ? ` matching "${values.scenario}"` : ''}`);
+    return 2;
+  }
+
+  const results = [];
+  for (const scenario of scenarios) {
+    const result = await runScenario(scenario, { mode, fixturesDir: values.fixtures });
+    console.log(`${result.status.toUpperCase().padEnd(7)} ${scenario.id}${result.turns.length ? ` ${Math.round(result.score * 100)}%` : ''}`);
+    result.notes.forEach(note => console.log(`        ${note}`));
+    results.push(result);
+  }
+
+  const provider = mode === 'replay' ? null : getLLMProvider();
+  const report = buildReport(results, mode, provider);
+  const paths = await writeReport(report, values.out);
+  console.log(`\nScore ${Math.round(report.summary.score * 100)}%: ${report.summary.passed} passed, ${report.summary.failed} failed, ${report.summary.errors} errors`);
+  console.log(`Report: ${paths.markdown}\n        ${paths.json}`);
+  return report.summary.failed + report.summary.errors > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(1);
+  }
+);